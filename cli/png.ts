@@ -0,0 +1,380 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+import { crc32 } from '../src/utils/crc32';
+import type { RawImageData } from '../src/utils/imageStretching';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Samples per pixel for each PNG colour type
+const CHANNELS: { [colorType: number]: number } = {
+    0: 1, // greyscale
+    2: 3, // truecolour
+    3: 1, // indexed
+    4: 2, // greyscale + alpha
+    6: 4  // truecolour + alpha
+};
+
+// Adam7 passes as [xStart, yStart, xStep, yStep]
+const ADAM7_PASSES = [
+    [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+    [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+interface PngHeader {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlace: number;
+}
+
+interface PngPalette {
+    colors: Uint8Array | null;
+    // Per-index alpha for indexed images, or the raw transparent colour key for greyscale/truecolour
+    transparency: Uint8Array | null;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = (value >>> 24) & 0xff;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+    const p = left + up - upLeft;
+    const pa = Math.abs(p - left);
+    const pb = Math.abs(p - up);
+    const pc = Math.abs(p - upLeft);
+    if (pa <= pb && pa <= pc) return left;
+    if (pb <= pc) return up;
+    return upLeft;
+}
+
+/**
+ * Reverse the per-row PNG filter in place
+ */
+function unfilterRow(row: Uint8Array, previousRow: Uint8Array, filterType: number, bytesPerPixel: number): void {
+    for (let i = 0; i < row.length; i++) {
+        const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+        const up = previousRow[i];
+        const upLeft = i >= bytesPerPixel ? previousRow[i - bytesPerPixel] : 0;
+
+        switch (filterType) {
+            case 0:
+                break;
+            case 1:
+                row[i] = row[i] + left;
+                break;
+            case 2:
+                row[i] = row[i] + up;
+                break;
+            case 3:
+                row[i] = row[i] + ((left + up) >> 1);
+                break;
+            case 4:
+                row[i] = row[i] + paeth(left, up, upLeft);
+                break;
+            default:
+                throw new Error(`Invalid PNG filter type ${filterType}`);
+        }
+    }
+}
+
+/**
+ * Read the sample at `index` from an unfiltered row, at the header's bit depth
+ */
+function readSample(row: Uint8Array, index: number, bitDepth: number): number {
+    switch (bitDepth) {
+        case 8:
+            return row[index];
+        case 16:
+            return (row[index * 2] << 8) | row[index * 2 + 1];
+        default: {
+            const bitOffset = index * bitDepth;
+            const shift = 8 - bitDepth - (bitOffset & 7);
+            return (row[bitOffset >> 3] >> shift) & ((1 << bitDepth) - 1);
+        }
+    }
+}
+
+function scaleTo8Bit(sample: number, bitDepth: number): number {
+    if (bitDepth === 8) return sample;
+    if (bitDepth === 16) return sample >> 8;
+    return Math.round((sample * 255) / ((1 << bitDepth) - 1));
+}
+
+/**
+ * Decode one (possibly Adam7) pass into the RGBA output. Returns the offset just past the pass.
+ */
+function decodePass(
+    inflated: Uint8Array,
+    offset: number,
+    header: PngHeader,
+    palette: PngPalette,
+    pixels: Uint8ClampedArray,
+    pass: number[]
+): number {
+    const [xStart, yStart, xStep, yStep] = pass;
+    const passWidth = Math.ceil((header.width - xStart) / xStep);
+    const passHeight = Math.ceil((header.height - yStart) / yStep);
+    if (passWidth <= 0 || passHeight <= 0) return offset;
+
+    const channels = CHANNELS[header.colorType];
+    const bitsPerPixel = channels * header.bitDepth;
+    const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const { bitDepth, colorType } = header;
+    const { colors, transparency } = palette;
+
+    let previousRow = new Uint8Array(rowBytes);
+
+    for (let y = 0; y < passHeight; y++) {
+        if (offset + 1 + rowBytes > inflated.length) {
+            throw new Error('PNG image data is truncated');
+        }
+
+        const filterType = inflated[offset];
+        const row = inflated.slice(offset + 1, offset + 1 + rowBytes);
+        unfilterRow(row, previousRow, filterType, bytesPerPixel);
+        offset += 1 + rowBytes;
+
+        for (let x = 0; x < passWidth; x++) {
+            const target = ((yStart + y * yStep) * header.width + xStart + x * xStep) * 4;
+            let r: number, g: number, b: number, a = 255;
+
+            switch (colorType) {
+                case 0: {
+                    const grey = readSample(row, x, bitDepth);
+                    r = g = b = scaleTo8Bit(grey, bitDepth);
+                    if (transparency && grey === ((transparency[0] << 8) | transparency[1])) a = 0;
+                    break;
+                }
+                case 2: {
+                    const rawR = readSample(row, x * 3, bitDepth);
+                    const rawG = readSample(row, x * 3 + 1, bitDepth);
+                    const rawB = readSample(row, x * 3 + 2, bitDepth);
+                    r = scaleTo8Bit(rawR, bitDepth);
+                    g = scaleTo8Bit(rawG, bitDepth);
+                    b = scaleTo8Bit(rawB, bitDepth);
+                    if (
+                        transparency &&
+                        rawR === ((transparency[0] << 8) | transparency[1]) &&
+                        rawG === ((transparency[2] << 8) | transparency[3]) &&
+                        rawB === ((transparency[4] << 8) | transparency[5])
+                    ) {
+                        a = 0;
+                    }
+                    break;
+                }
+                case 3: {
+                    const index = readSample(row, x, bitDepth);
+                    if (!colors || index * 3 + 2 >= colors.length) {
+                        throw new Error(`PNG palette index ${index} out of range`);
+                    }
+                    r = colors[index * 3];
+                    g = colors[index * 3 + 1];
+                    b = colors[index * 3 + 2];
+                    if (transparency && index < transparency.length) a = transparency[index];
+                    break;
+                }
+                case 4:
+                    r = g = b = scaleTo8Bit(readSample(row, x * 2, bitDepth), bitDepth);
+                    a = scaleTo8Bit(readSample(row, x * 2 + 1, bitDepth), bitDepth);
+                    break;
+                default:
+                    r = scaleTo8Bit(readSample(row, x * 4, bitDepth), bitDepth);
+                    g = scaleTo8Bit(readSample(row, x * 4 + 1, bitDepth), bitDepth);
+                    b = scaleTo8Bit(readSample(row, x * 4 + 2, bitDepth), bitDepth);
+                    a = scaleTo8Bit(readSample(row, x * 4 + 3, bitDepth), bitDepth);
+            }
+
+            pixels[target] = r;
+            pixels[target + 1] = g;
+            pixels[target + 2] = b;
+            pixels[target + 3] = a;
+        }
+
+        previousRow = row;
+    }
+
+    return offset;
+}
+
+/**
+ * Decode a PNG file into 8-bit RGBA pixels. Supports every standard colour type,
+ * bit depth and Adam7 interlacing.
+ */
+export function decodePng(bytes: Uint8Array): RawImageData {
+    if (bytes.length < 8 || PNG_SIGNATURE.some((value, i) => bytes[i] !== value)) {
+        throw new Error('Not a PNG file (bad signature)');
+    }
+
+    let header: PngHeader | null = null;
+    const palette: PngPalette = { colors: null, transparency: null };
+    const dataChunks: Uint8Array[] = [];
+
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = readUint32(bytes, offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const dataStart = offset + 8;
+        const dataEnd = dataStart + length;
+
+        if (dataEnd + 4 > bytes.length) {
+            throw new Error(`PNG chunk ${type} is truncated`);
+        }
+
+        const expectedCrc = readUint32(bytes, dataEnd);
+        if (crc32(bytes.subarray(offset + 4, dataEnd)) !== expectedCrc) {
+            throw new Error(`PNG chunk ${type} has a bad CRC`);
+        }
+
+        const data = bytes.subarray(dataStart, dataEnd);
+        switch (type) {
+            case 'IHDR':
+                header = {
+                    width: readUint32(data, 0),
+                    height: readUint32(data, 4),
+                    bitDepth: data[8],
+                    colorType: data[9],
+                    interlace: data[12]
+                };
+                break;
+            case 'PLTE':
+                palette.colors = data;
+                break;
+            case 'tRNS':
+                palette.transparency = data;
+                break;
+            case 'IDAT':
+                dataChunks.push(data);
+                break;
+        }
+
+        offset = dataEnd + 4;
+        if (type === 'IEND') break;
+    }
+
+    if (!header) {
+        throw new Error('PNG is missing its IHDR chunk');
+    }
+    if (!(header.colorType in CHANNELS)) {
+        throw new Error(`Unsupported PNG colour type ${header.colorType}`);
+    }
+    if (![1, 2, 4, 8, 16].includes(header.bitDepth)) {
+        throw new Error(`Unsupported PNG bit depth ${header.bitDepth}`);
+    }
+    if (header.width === 0 || header.height === 0) {
+        throw new Error('PNG has zero width or height');
+    }
+
+    const inflated = new Uint8Array(inflateSync(concatBytes(dataChunks)));
+    const pixels = new Uint8ClampedArray(header.width * header.height * 4);
+
+    if (header.interlace === 1) {
+        let passOffset = 0;
+        for (const pass of ADAM7_PASSES) {
+            passOffset = decodePass(inflated, passOffset, header, palette, pixels, pass);
+        }
+    } else {
+        decodePass(inflated, 0, header, palette, pixels, [0, 0, 1, 1]);
+    }
+
+    return {
+        data: pixels,
+        width: header.width,
+        height: header.height
+    };
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    writeUint32(chunk, 0, data.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit truecolour + alpha PNG. Each row uses whichever
+ * filter gives the smallest sum of absolute differences, as libpng does.
+ */
+export function encodePng(image: RawImageData): Uint8Array {
+    const { width, height, data } = image;
+    const rowBytes = width * 4;
+    const filtered = new Uint8Array(height * (rowBytes + 1));
+    const candidate = new Uint8Array(rowBytes);
+    const best = new Uint8Array(rowBytes);
+
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * rowBytes;
+        let bestFilter = 0;
+        let bestScore = Infinity;
+
+        for (let filterType = 0; filterType <= 4; filterType++) {
+            let score = 0;
+            for (let i = 0; i < rowBytes; i++) {
+                const value = data[rowStart + i];
+                const left = i >= 4 ? data[rowStart + i - 4] : 0;
+                const up = y > 0 ? data[rowStart - rowBytes + i] : 0;
+                const upLeft = y > 0 && i >= 4 ? data[rowStart - rowBytes + i - 4] : 0;
+
+                let predictor = 0;
+                switch (filterType) {
+                    case 1: predictor = left; break;
+                    case 2: predictor = up; break;
+                    case 3: predictor = (left + up) >> 1; break;
+                    case 4: predictor = paeth(left, up, upLeft); break;
+                }
+
+                const residual = (value - predictor) & 0xff;
+                candidate[i] = residual;
+                score += residual < 128 ? residual : 256 - residual;
+            }
+
+            if (score < bestScore) {
+                bestScore = score;
+                bestFilter = filterType;
+                best.set(candidate);
+            }
+        }
+
+        const target = y * (rowBytes + 1);
+        filtered[target] = bestFilter;
+        filtered.set(best, target + 1);
+    }
+
+    const ihdr = new Uint8Array(13);
+    writeUint32(ihdr, 0, width);
+    writeUint32(ihdr, 4, height);
+    ihdr[8] = 8;  // bit depth
+    ihdr[9] = 6;  // truecolour + alpha
+    ihdr[10] = 0; // deflate
+    ihdr[11] = 0; // adaptive filtering
+    ihdr[12] = 0; // no interlace
+
+    return concatBytes([
+        Uint8Array.from(PNG_SIGNATURE),
+        createChunk('IHDR', ihdr),
+        createChunk('IDAT', new Uint8Array(deflateSync(filtered))),
+        createChunk('IEND', new Uint8Array(0))
+    ]);
+}
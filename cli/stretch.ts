@@ -0,0 +1,311 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+    getAngleAxisLength,
+    resolveIndexList,
+    resolveStartingPixel,
+    stretchImage,
+    STRETCH_DIRECTIONS,
+    type StretchDirection
+} from '../src/utils/imageStretching';
+import { INTERPOLATION_MODES, type InterpolationMode } from '../src/utils/interpolation';
+import { applySelectionMask, DEFAULT_MASK_TOOL_SETTINGS, featherMask, MAX_MASK_FEATHER, maskFromImage } from '../src/utils/selectionMask';
+import { parseOutputSize } from '../src/utils/outputSize';
+import { insertPngTextChunk, STRETCH_SETTINGS_KEYWORD } from '../src/utils/pngText';
+import { DEFAULT_STRETCH_SETTINGS } from '../src/utils/stretchSettings';
+import { createStack } from '../src/utils/stretchStack';
+import { parseStretchProfile } from '../src/utils/stretchProfiles';
+import { encodeStackHash } from '../src/utils/urlState';
+import { decodePng, encodePng } from './png';
+
+const USAGE = `Usage: npm run stretch -- <inputs...> [options]
+
+Inputs are PNG files, folders (every .png inside) or glob patterns such as "frames/**/*.png".
+
+Options:
+  -r, --rate <1-13>          Stretch rate, 1 = most gradual (default: 13)
+  -p, --profile <spec>       fibonacci, linear:<start>:<end>:<rows>, exponential:<start>:<growth>:<rows>,
+                             custom:<gap,gap,...> or curve:<rows>:<point,point,...> (default: fibonacci)
+  -s, --start <pixel>        Column or row where the stretch begins (default: middle of each image)
+  -d, --direction <dir>      up, down, left or right (default: right)
+  -a, --angle <degrees>      Stretch along any angle instead, clockwise from right (90 = down);
+                             --start is then the start line's distance along the stretch
+      --size <spec>          Output size along the stretch: original, full, length:<px> or
+                             aspect:<ratio> such as aspect:16:9 (default: original)
+  -m, --mask <png>           Only stretch where this mask is white; it must match the size of every input
+      --feather <px>         Blend distance around the mask edge, 0-${MAX_MASK_FEATHER} (default: ${DEFAULT_MASK_TOOL_SETTINGS.feather})
+  -o, --out <dir>            Output directory; files from a glob keep their path below its base
+                             (default: ./stretched)
+  -i, --interpolation <mode> ${INTERPOLATION_MODES.join(', ')} (default: linear)
+      --straight-alpha       Blend colour without alpha weighting (default: premultiplied)
+  -v, --verbose              Print the stretch pipeline's diagnostic logging
+  -h, --help                 Show this message`;
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Translate a glob pattern (relative, '/'-separated) into a regular expression.
+ * Supports `**`, `*`, `?` and `[...]` character classes.
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // `**/` matches zero or more whole directories
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += pattern.slice(i, end + 1).replace(/^\[!/, '[^');
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * An input PNG and where its output goes under --out: its path relative to the folder or glob
+ * base it was found in, so same-named files from different folders stay apart
+ */
+interface InputFile {
+    file: string;
+    relativePath: string;
+}
+
+function expandGlob(pattern: string): InputFile[] {
+    const segments = pattern.split(/[\\/]/);
+    const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    const baseDir = segments.slice(0, firstGlob).join('/') || '.';
+    const rest = segments.slice(firstGlob).join('/');
+
+    if (!existsSync(baseDir)) return [];
+
+    const matcher = globToRegExp(rest);
+    const recursive = rest.includes('/') || rest.includes('**');
+    const entries = readdirSync(baseDir, { recursive }) as string[];
+
+    return entries
+        .map(entry => entry.split(path.sep).join('/'))
+        .filter(entry => matcher.test(entry))
+        .map(entry => ({ file: path.resolve(baseDir, entry), relativePath: entry }))
+        .filter(({ file }) => statSync(file).isFile());
+}
+
+/**
+ * Resolve CLI inputs (files, folders, globs) into a sorted, de-duplicated list of PNG files
+ */
+function collectInputFiles(inputs: string[]): InputFile[] {
+    // Keyed by absolute path; a file named twice keeps its first relative path
+    const files = new Map<string, string>();
+    const add = ({ file, relativePath }: InputFile) => {
+        if (!files.has(file)) files.set(file, relativePath);
+    };
+
+    for (const input of inputs) {
+        if (GLOB_CHARS.test(input)) {
+            const matches = expandGlob(input);
+            if (matches.length === 0) {
+                console.warn(`No files match ${input}`);
+            }
+            matches.forEach(add);
+        } else if (!existsSync(input)) {
+            throw new Error(`Input not found: ${input}`);
+        } else if (statSync(input).isDirectory()) {
+            readdirSync(input)
+                .filter(name => name.toLowerCase().endsWith('.png'))
+                .forEach(name => add({ file: path.resolve(input, name), relativePath: name }));
+        } else {
+            add({ file: path.resolve(input), relativePath: path.basename(input) });
+        }
+    }
+
+    return [...files.entries()]
+        .map(([file, relativePath]) => ({ file, relativePath }))
+        .sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Output path of every input, or an error before anything is written if two inputs would
+ * write the same file or an output would overwrite an input
+ */
+function planOutputFiles(files: InputFile[], outDir: string): Map<string, string> {
+    const outputs = new Map<string, string>();
+    const inputsByOutput = new Map<string, string>();
+    const inputs = new Set(files.map(({ file }) => file));
+    const relative = (file: string) => path.relative(process.cwd(), file);
+
+    for (const { file, relativePath } of files) {
+        const outputFile = path.join(outDir, relativePath);
+        // Compare case-insensitively: two names differing only in case are one file on many disks
+        const key = outputFile.toLowerCase();
+        const other = inputsByOutput.get(key);
+        if (other !== undefined) {
+            throw new Error(`${relative(other)} and ${relative(file)} would both be written to ${relative(outputFile)}; stretch them separately or rename one`);
+        }
+        if (inputs.has(outputFile)) {
+            throw new Error(`The output for ${relative(file)} would overwrite the input ${relative(outputFile)}; choose a different --out directory`);
+        }
+        inputsByOutput.set(key, file);
+        outputs.set(file, outputFile);
+    }
+    return outputs;
+}
+
+function parseInteger(value: string, name: string, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+        const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+        throw new Error(`--${name} must be an integer ${range}, got "${value}"`);
+    }
+    return parsed;
+}
+
+function main(): number {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            rate: { type: 'string', short: 'r', default: '13' },
+            profile: { type: 'string', short: 'p', default: 'fibonacci' },
+            start: { type: 'string', short: 's' },
+            direction: { type: 'string', short: 'd', default: 'right' },
+            angle: { type: 'string', short: 'a' },
+            size: { type: 'string', default: 'original' },
+            mask: { type: 'string', short: 'm' },
+            feather: { type: 'string', default: String(DEFAULT_MASK_TOOL_SETTINGS.feather) },
+            out: { type: 'string', short: 'o', default: 'stretched' },
+            interpolation: { type: 'string', short: 'i', default: 'linear' },
+            'straight-alpha': { type: 'boolean', default: false },
+            verbose: { type: 'boolean', short: 'v', default: false },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    });
+
+    if (values.help || positionals.length === 0) {
+        console.log(USAGE);
+        return values.help ? 0 : 1;
+    }
+
+    const stretchRate = parseInteger(values.rate, 'rate', 1, 13);
+    const start = values.start === undefined ? null : parseInteger(values.start, 'start', 0);
+    if (!STRETCH_DIRECTIONS.includes(values.direction as StretchDirection)) {
+        throw new Error(`--direction must be one of ${STRETCH_DIRECTIONS.join(', ')}, got "${values.direction}"`);
+    }
+    const direction = values.direction as StretchDirection;
+    const angle = values.angle === undefined ? undefined : Number(values.angle);
+    if (angle !== undefined && (values.angle!.trim() === '' || !Number.isFinite(angle))) {
+        throw new Error(`--angle must be a number of degrees, got "${values.angle}"`);
+    }
+    if (!INTERPOLATION_MODES.includes(values.interpolation as InterpolationMode)) {
+        throw new Error(`--interpolation must be one of ${INTERPOLATION_MODES.join(', ')}, got "${values.interpolation}"`);
+    }
+    const interpolation = values.interpolation as InterpolationMode;
+
+    // Validate the profile once up front rather than failing on every file
+    const profile = parseStretchProfile(values.profile);
+    resolveIndexList({ stretchRate, profile });
+    const outputSize = parseOutputSize(values.size);
+    if (outputSize.mode !== 'original' && values.mask !== undefined) {
+        throw new Error('--mask needs the original output size');
+    }
+    const outDir = path.resolve(values.out);
+
+    const feather = parseInteger(values.feather, 'feather', 0, MAX_MASK_FEATHER);
+    const mask = values.mask === undefined ? null : featherMask(maskFromImage(decodePng(readFileSync(values.mask))), feather);
+
+    const files = collectInputFiles(positionals);
+    if (files.length === 0) {
+        throw new Error('No PNG files to process');
+    }
+    const outputFiles = planOutputFiles(files, outDir);
+
+    // The core pipeline logs every step for the browser console; keep batch output readable
+    const log = console.log;
+    if (!values.verbose) {
+        console.log = () => {};
+    }
+
+    let failures = 0;
+    try {
+        mkdirSync(outDir, { recursive: true });
+
+        for (const [index, { file }] of files.entries()) {
+            const outputFile = outputFiles.get(file)!;
+            const label = `[${index + 1}/${files.length}] ${path.relative(process.cwd(), file)}`;
+
+            try {
+                mkdirSync(path.dirname(outputFile), { recursive: true });
+                const image = decodePng(readFileSync(file));
+                if (mask && (mask.width !== image.width || mask.height !== image.height)) {
+                    throw new Error(`the mask is ${mask.width}x${mask.height} but the image is ${image.width}x${image.height}`);
+                }
+
+                // Same defaults and clamping as the web UI
+                const axisLength = angle !== undefined
+                    ? getAngleAxisLength(angle, image.width, image.height)
+                    : direction === 'left' || direction === 'right' ? image.width : image.height;
+                const position = Math.min(start ?? Math.floor(Math.min(image.width, image.height) * 0.5), axisLength - 1);
+
+                const stretched = stretchImage(image, {
+                    stretchRate,
+                    startingPixel: angle !== undefined ? position : resolveStartingPixel(position, direction, image.width),
+                    direction,
+                    premultiplyAlpha: !values['straight-alpha'],
+                    interpolation,
+                    profile,
+                    angle,
+                    outputSize
+                });
+
+                // Embed the settings as the web app does, so opening the output there restores them
+                const settingsText = encodeStackHash(createStack({
+                    ...DEFAULT_STRETCH_SETTINGS,
+                    stretchRate,
+                    startingPixel: position,
+                    direction,
+                    premultiplyAlpha: !values['straight-alpha'],
+                    interpolation,
+                    profile,
+                    angle: angle ?? null,
+                    outputSize
+                }), image.width, image.height);
+                const png = encodePng(mask ? applySelectionMask(image, stretched, mask) : stretched);
+                writeFileSync(outputFile, insertPngTextChunk(png, STRETCH_SETTINGS_KEYWORD, settingsText));
+                log(`${label} -> ${path.relative(process.cwd(), outputFile)}`);
+            } catch (error) {
+                failures++;
+                console.error(`${label} failed: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    } finally {
+        // Restore it even when the run throws, or later output would vanish too
+        console.log = log;
+    }
+
+    console.log(`Stretched ${files.length - failures} of ${files.length} image(s) into ${path.relative(process.cwd(), outDir) || '.'}`);
+    return failures > 0 ? 1 : 0;
+}
+
+try {
+    process.exitCode = main();
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${USAGE}`);
+    process.exitCode = 1;
+}
@@ -0,0 +1,91 @@
+import React, { useRef } from 'react';
+
+interface AngleDialProps {
+    /** Degrees clockwise from pointing right */
+    angle: number;
+    onChange: (angle: number) => void;
+}
+
+const DIAL_SIZE = 64;
+const DIAL_RADIUS = 28;
+
+// Shift-dragging snaps to multiples of this many degrees
+const SNAP_DEGREES = 15;
+
+/**
+ * Round dial plus numeric input for the stretch angle. Drag anywhere on the dial to point it.
+ */
+export const AngleDial: React.FC<AngleDialProps> = ({ angle, onChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    const updateFromPointer = (event: React.PointerEvent<SVGSVGElement>) => {
+        if (!svgRef.current) return;
+
+        const rect = svgRef.current.getBoundingClientRect();
+        const x = event.clientX - (rect.left + rect.width / 2);
+        const y = event.clientY - (rect.top + rect.height / 2);
+        if (x === 0 && y === 0) return;
+
+        // Screen y points down, so atan2 already measures clockwise from right
+        let degrees = ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+        degrees = event.shiftKey ? Math.round(degrees / SNAP_DEGREES) * SNAP_DEGREES : Math.round(degrees);
+        onChange(degrees % 360);
+    };
+
+    const radians = (angle * Math.PI) / 180;
+    const center = DIAL_SIZE / 2;
+    const tipX = center + Math.cos(radians) * DIAL_RADIUS;
+    const tipY = center + Math.sin(radians) * DIAL_RADIUS;
+
+    return (
+        <div className="angle-dial">
+            <svg
+                ref={svgRef}
+                width={DIAL_SIZE}
+                height={DIAL_SIZE}
+                viewBox={`0 0 ${DIAL_SIZE} ${DIAL_SIZE}`}
+                role="slider"
+                aria-label="Stretch angle"
+                aria-valuemin={0}
+                aria-valuemax={359}
+                aria-valuenow={Math.round(angle)}
+                tabIndex={0}
+                onKeyDown={(e) => {
+                    // Clockwise with right/down, counterclockwise with left/up; Shift jumps a snap step
+                    const sign = e.key === 'ArrowRight' || e.key === 'ArrowDown' ? 1 : e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? -1 : 0;
+                    if (!sign) return;
+                    e.preventDefault();
+                    onChange((((Math.round(angle) + sign * (e.shiftKey ? SNAP_DEGREES : 1)) % 360) + 360) % 360);
+                }}
+                onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    updateFromPointer(e);
+                }}
+                onPointerMove={(e) => {
+                    if (e.buttons === 1) updateFromPointer(e);
+                }}
+            >
+                <title>Drag to set the angle (Shift snaps to {SNAP_DEGREES}°)</title>
+                <circle cx={center} cy={center} r={DIAL_RADIUS} className="angle-dial-face" />
+                <line x1={center} y1={center} x2={tipX} y2={tipY} className="angle-dial-hand" />
+                <circle cx={tipX} cy={tipY} r={4} className="angle-dial-tip" />
+            </svg>
+            <label className="angle-dial-input">
+                <input
+                    type="number"
+                    value={Math.round(angle * 10) / 10}
+                    min={0}
+                    max={359}
+                    step={1}
+                    onChange={(e) => {
+                        const value = e.target.valueAsNumber;
+                        if (Number.isFinite(value)) onChange(((value % 360) + 360) % 360);
+                    }}
+                    className="number-input"
+                    aria-label="Angle in degrees"
+                />
+                <span>°</span>
+            </label>
+        </div>
+    );
+};
@@ -0,0 +1,412 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    createBatchItem,
+    getBatchStack,
+    getUniqueFileName,
+    MAX_BATCH_FILES,
+    mergeBatchOverrides,
+    type BatchItem,
+    type BatchOutput,
+    type BatchOverrides
+} from '../utils/batchStretch';
+import { getCanvasContext, toImageData } from '../utils/canvasColorSpace';
+import { downloadBlob } from '../utils/download';
+import { embedPngText, encodeImage, formatFileName, getFileNameValues, type ExportOptions } from '../utils/imageExport';
+import { decodeImageFile, ImageImportError } from '../utils/imageImport';
+import { STRETCH_DIRECTIONS, type RawImageData, type StretchDirection } from '../utils/imageStretching';
+import { STRETCH_SETTINGS_KEYWORD } from '../utils/pngText';
+import { createStackCache, getSelectedStep, renderStretchStack, type StretchStack } from '../utils/stretchStack';
+import { createStretchWorkerClient, type StretchWorkerClient } from '../utils/stretchWorkerClient';
+import { encodeStackHash } from '../utils/urlState';
+import { createZip } from '../utils/zipWriter';
+import './BatchPanel.css';
+
+interface BatchPanelProps {
+    items: BatchItem[];
+    onItemsChange: React.Dispatch<React.SetStateAction<BatchItem[]>>;
+    /** Stack of the open image; each batch image gets a copy fitted to its size */
+    stack: StretchStack;
+    imageWidth: number;
+    imageHeight: number;
+    /** Format, quality and file names, shared with the save dialog */
+    exportOptions: ExportOptions;
+    /** Space images are decoded and saved in, as for the open image */
+    colorSpace: PredefinedColorSpace;
+}
+
+const THUMBNAIL_SIZE = 96;
+const ZIP_FILE_NAME = 'stretched_images.zip';
+
+/**
+ * Thrown out of a render loop when the batch is cancelled
+ */
+class BatchCancelledError extends Error {
+    constructor() {
+        super('Batch cancelled');
+        this.name = 'BatchCancelledError';
+    }
+}
+
+function createThumbnail(image: RawImageData, colorSpace: PredefinedColorSpace): string {
+    const full = document.createElement('canvas');
+    full.width = image.width;
+    full.height = image.height;
+    getCanvasContext(full, colorSpace).putImageData(toImageData(image, colorSpace), 0, 0);
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = Math.max(1, Math.round(image.width * scale));
+    thumbnail.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = thumbnail.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(full, 0, 0, thumbnail.width, thumbnail.height);
+    return thumbnail.toDataURL('image/png');
+}
+
+/**
+ * Apply the current stretch to many images and download the results as one ZIP. Images are
+ * rendered one after another in a worker of their own, so the live preview keeps working;
+ * selection masks are per image and not applied.
+ */
+export const BatchPanel: React.FC<BatchPanelProps> = ({ items, onItemsChange, stack, imageWidth, imageHeight, exportOptions, colorSpace }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const workerClientRef = useRef<StretchWorkerClient | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        const workerClient = createStretchWorkerClient();
+        workerClientRef.current = workerClient;
+        return () => {
+            abortControllerRef.current?.abort();
+            workerClient.dispose();
+            workerClientRef.current = null;
+        };
+    }, []);
+
+    const selected = items.find(item => item.id === selectedId) ?? null;
+    const baseSettings = getSelectedStep(stack).settings;
+
+    // Everything an output depends on; outputs rendered with another key are out of date
+    const getRenderKey = (item: BatchItem) => JSON.stringify({
+        steps: stack.steps.map(step => [step.enabled, step.settings]),
+        selected: stack.selectedStepId,
+        base: [imageWidth, imageHeight],
+        overrides: item.overrides,
+        exportOptions,
+        colorSpace
+    });
+    const isCurrent = (item: BatchItem) => item.status === 'done' && item.renderKey === getRenderKey(item);
+    const staleItems = items.filter(item => item.included && !isCurrent(item));
+    const readyCount = items.filter(item => item.included && isCurrent(item)).length;
+    const includedCount = items.filter(item => item.included).length;
+
+    const updateItem = (id: string, patch: Partial<BatchItem>) => {
+        onItemsChange(current => current.map(item => (item.id === id ? { ...item, ...patch } : item)));
+    };
+
+    const addFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length === 0) return;
+
+        const room = MAX_BATCH_FILES - items.length;
+        if (files.length > room) {
+            setError(`A batch holds at most ${MAX_BATCH_FILES} images; ${files.length - Math.max(0, room)} were left out`);
+        } else {
+            setError(null);
+        }
+        onItemsChange(current => [...current, ...files.slice(0, Math.max(0, room)).map(createBatchItem)]);
+    };
+
+    const setOverrides = (item: BatchItem, patch: BatchOverrides) => {
+        updateItem(item.id, { overrides: mergeBatchOverrides(item.overrides, patch) });
+    };
+
+    // Render one image with its fitted stack, encode it and return what the item should keep
+    const renderItem = async (
+        item: BatchItem,
+        workerClient: StretchWorkerClient,
+        signal: AbortSignal
+    ): Promise<Pick<BatchItem, 'status' | 'renderKey' | 'thumbnail' | 'output' | 'error'>> => {
+        const source = await decodeImageFile(item.file, colorSpace);
+        const itemStack = getBatchStack(stack, imageWidth, imageHeight, item.overrides, source.width, source.height);
+        const result = await renderStretchStack(source, itemStack.steps, createStackCache(), (input, params) => workerClient.run(input, { ...params, colorSpace }));
+        if (!result || signal.aborted) throw new BatchCancelledError();
+
+        let blob = await encodeImage(result, exportOptions.format, exportOptions.quality, colorSpace);
+        if (exportOptions.format === 'png' && exportOptions.embedSettings) {
+            blob = await embedPngText(blob, STRETCH_SETTINGS_KEYWORD, encodeStackHash(itemStack, source.width, source.height));
+        }
+        const fileName = formatFileName(
+            exportOptions.fileNameTemplate,
+            getFileNameValues(item.file.name, getSelectedStep(itemStack).settings, result.width, result.height),
+            exportOptions.format
+        );
+
+        return {
+            status: 'done',
+            renderKey: getRenderKey(item),
+            thumbnail: createThumbnail(result, colorSpace),
+            output: { blob, fileName, width: result.width, height: result.height },
+            error: null
+        };
+    };
+
+    // Render every included image that is missing or out of date. Resolves with the new outputs
+    // by item id, or null if cancelled.
+    const renderStale = async (signal: AbortSignal): Promise<Map<string, BatchOutput> | null> => {
+        const workerClient = workerClientRef.current;
+        if (!workerClient) return null;
+
+        const outputs = new Map<string, BatchOutput>();
+
+        for (const item of staleItems) {
+            if (signal.aborted) return null;
+
+            updateItem(item.id, { status: 'rendering', error: null });
+            try {
+                const rendered = await renderItem(item, workerClient, signal);
+                outputs.set(item.id, rendered.output!);
+                updateItem(item.id, rendered);
+            } catch (renderError) {
+                if (renderError instanceof BatchCancelledError) {
+                    updateItem(item.id, { status: 'pending' });
+                    return null;
+                }
+                if (!(renderError instanceof ImageImportError)) {
+                    console.error('Batch render failed:', item.file.name, renderError);
+                }
+                updateItem(item.id, {
+                    status: 'error',
+                    output: null,
+                    error: renderError instanceof Error ? renderError.message : String(renderError)
+                });
+            }
+        }
+        return outputs;
+    };
+
+    const run = async (download: boolean) => {
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        setIsRunning(true);
+        setError(null);
+        console.log('Rendering batch:', { images: staleItems.length, download });
+
+        try {
+            const rendered = await renderStale(abortController.signal);
+            if (!rendered) {
+                console.log('Batch cancelled');
+                return;
+            }
+            if (!download) return;
+
+            // Images that failed to render are left out
+            const outputs = items
+                .filter(item => item.included)
+                .map(item => (rendered.has(item.id) ? rendered.get(item.id)! : isCurrent(item) ? item.output : null))
+                .filter(output => output !== null);
+            if (outputs.length === 0) {
+                setError('None of the images could be rendered');
+                return;
+            }
+
+            const usedNames = new Set<string>();
+            const entries = await Promise.all(outputs.map(async output => ({
+                name: getUniqueFileName(output.fileName, usedNames),
+                data: new Uint8Array(await output.blob.arrayBuffer())
+            })));
+            const zip = createZip(entries);
+            console.log('Batch ZIP ready:', { files: entries.length, size: zip.length });
+            downloadBlob(new Blob([zip], { type: 'application/zip' }), ZIP_FILE_NAME);
+        } catch (batchError) {
+            console.error('Batch failed:', batchError);
+            setError(batchError instanceof Error ? batchError.message : String(batchError));
+        } finally {
+            abortControllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const cancel = () => {
+        abortControllerRef.current?.abort();
+        // Stop the image that is rendering right now instead of waiting for it
+        workerClientRef.current?.cancel();
+    };
+
+    const removeItem = (id: string) => {
+        onItemsChange(current => current.filter(item => item.id !== id));
+        setSelectedId(null);
+    };
+
+    return (
+        <details className="control-group batch-panel" open={items.length > 0 || undefined}>
+            <summary className="control-label">Batch{items.length > 0 ? ` (${items.length})` : ''}</summary>
+
+            <p className="batch-hint">
+                Applies the current layers to every image, with start positions scaled to each size. Click an image to override its settings.
+            </p>
+
+            {items.length > 0 && (
+                <ul className="batch-grid" aria-label="Batch images">
+                    {items.map(item => (
+                        <li key={item.id}>
+                            <button
+                                className={`batch-tile${item.id === selectedId ? ' selected' : ''}${item.included ? '' : ' excluded'}`}
+                                onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+                                aria-pressed={item.id === selectedId}
+                                title={item.error ?? item.file.name}
+                            >
+                                {item.thumbnail ? (
+                                    <img src={item.thumbnail} alt="" />
+                                ) : (
+                                    <span className="batch-placeholder">{item.file.name}</span>
+                                )}
+                                <span className={`batch-status ${isCurrent(item) ? 'done' : item.status === 'done' ? 'stale' : item.status}`}>
+                                    {item.status === 'rendering' ? 'Rendering…'
+                                        : item.status === 'error' ? 'Failed'
+                                        : isCurrent(item) ? 'Ready'
+                                        : item.status === 'done' ? 'Outdated'
+                                        : 'Pending'}
+                                </span>
+                                {Object.keys(item.overrides).length > 0 && <span className="batch-badge" title="Has overrides">✎</span>}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {selected && (
+                <div className="batch-overrides">
+                    <p className="batch-file-name">{selected.file.name}</p>
+                    {selected.error && <p className="field-error">{selected.error}</p>}
+
+                    <label className="checkbox-label">
+                        <input
+                            type="checkbox"
+                            checked={selected.included}
+                            onChange={(e) => updateItem(selected.id, { included: e.target.checked })}
+                        />
+                        Include in ZIP
+                    </label>
+
+                    <label className="batch-field">
+                        <span>Direction</span>
+                        <select
+                            value={selected.overrides.direction ?? ''}
+                            onChange={(e) => setOverrides(selected, { direction: (e.target.value || undefined) as StretchDirection | undefined })}
+                            className="select-input"
+                        >
+                            <option value="">Same as layer</option>
+                            {STRETCH_DIRECTIONS.map(direction => (
+                                <option key={direction} value={direction}>{direction[0].toUpperCase() + direction.slice(1)}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <label className="batch-field">
+                        <span>Rate</span>
+                        <select
+                            value={selected.overrides.stretchRate ?? ''}
+                            onChange={(e) => setOverrides(selected, { stretchRate: e.target.value ? parseInt(e.target.value) : undefined })}
+                            className="select-input"
+                            disabled={baseSettings.profile.type !== 'fibonacci'}
+                        >
+                            <option value="">Same as layer</option>
+                            {Array.from({ length: 13 }, (_, i) => i + 1).map(rate => (
+                                <option key={rate} value={rate}>{rate}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <label className="checkbox-label">
+                        <input
+                            type="checkbox"
+                            checked={selected.overrides.relativeStart !== undefined}
+                            onChange={(e) => setOverrides(selected, { relativeStart: e.target.checked ? 0.5 : undefined })}
+                        />
+                        Own start position
+                    </label>
+                    {selected.overrides.relativeStart !== undefined && (
+                        <label className="batch-field">
+                            <span>Start: {Math.round(selected.overrides.relativeStart * 100)}%</span>
+                            <input
+                                type="range"
+                                min="0"
+                                max="100"
+                                value={Math.round(selected.overrides.relativeStart * 100)}
+                                onChange={(e) => setOverrides(selected, { relativeStart: parseInt(e.target.value) / 100 })}
+                                className="slider"
+                            />
+                        </label>
+                    )}
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => updateItem(selected.id, { overrides: {} })}
+                            disabled={Object.keys(selected.overrides).length === 0}
+                            className="history-btn flex-1"
+                        >
+                            Reset
+                        </button>
+                        <button onClick={() => removeItem(selected.id)} disabled={isRunning} className="history-btn flex-1">
+                            Remove
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex gap-2 mt-2">
+                <button onClick={() => fileInputRef.current?.click()} disabled={isRunning} className="history-btn flex-1">
+                    Add images
+                </button>
+                <button
+                    onClick={() => {
+                        onItemsChange([]);
+                        setSelectedId(null);
+                    }}
+                    disabled={isRunning || items.length === 0}
+                    className="history-btn flex-1"
+                >
+                    Clear
+                </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={addFiles} style={{ display: 'none' }} />
+
+            {isRunning ? (
+                <div className="flex items-center gap-2 mt-2">
+                    <div
+                        className="progress-track flex-1"
+                        role="progressbar"
+                        aria-label="Batch progress"
+                        aria-valuenow={readyCount}
+                        aria-valuemin={0}
+                        aria-valuemax={includedCount}
+                    >
+                        <div className="progress-bar" style={{ width: `${includedCount ? (readyCount / includedCount) * 100 : 0}%` }} />
+                    </div>
+                    <button onClick={cancel} className="history-btn">
+                        Cancel
+                    </button>
+                </div>
+            ) : (
+                items.length > 0 && (
+                    <div className="flex gap-2 mt-2">
+                        <button onClick={() => run(false)} disabled={staleItems.length === 0} className="history-btn flex-1">
+                            Render{staleItems.length > 0 ? ` ${staleItems.length}` : ''}
+                        </button>
+                        <button onClick={() => run(true)} disabled={includedCount === 0} className="history-btn flex-1">
+                            Download ZIP
+                        </button>
+                    </div>
+                )
+            )}
+
+            {error && <p className="field-error" role="alert">{error}</p>}
+        </details>
+    );
+};
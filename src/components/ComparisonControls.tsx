@@ -0,0 +1,65 @@
+import React from 'react';
+import { COMPARE_MODE_LABELS, COMPARE_MODES, type CompareMode } from '../utils/comparison';
+import './Comparison.css';
+
+interface ComparisonControlsProps {
+    mode: CompareMode;
+    onModeChange: (mode: CompareMode) => void;
+    /** Show the whole original over the result while held */
+    onHoldOriginal: (holding: boolean) => void;
+}
+
+/**
+ * Before/after comparison: a split or side-by-side view, and a button that shows the
+ * original for as long as it is held (by pointer, Space or Enter)
+ */
+export const ComparisonControls: React.FC<ComparisonControlsProps> = ({ mode, onModeChange, onHoldOriginal }) => {
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+        if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+            event.preventDefault();
+            onHoldOriginal(true);
+        }
+    };
+
+    const handleKeyUp = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+        if (event.key === ' ' || event.key === 'Enter') {
+            onHoldOriginal(false);
+        }
+    };
+
+    return (
+        <div className="control-group">
+            <label className="control-label">Compare</label>
+
+            <div className="compare-modes" role="group" aria-label="Comparison view">
+                {COMPARE_MODES.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onModeChange(option)}
+                        className={`history-btn flex-1${mode === option ? ' active' : ''}`}
+                        aria-pressed={mode === option}
+                    >
+                        {COMPARE_MODE_LABELS[option]}
+                    </button>
+                ))}
+            </div>
+
+            <button
+                className="history-btn w-full mt-2"
+                onPointerDown={(event) => {
+                    if (event.button !== 0) return;
+                    event.currentTarget.setPointerCapture(event.pointerId);
+                    onHoldOriginal(true);
+                }}
+                onPointerUp={() => onHoldOriginal(false)}
+                onPointerCancel={() => onHoldOriginal(false)}
+                onKeyDown={handleKeyDown}
+                onKeyUp={handleKeyUp}
+                onBlur={() => onHoldOriginal(false)}
+                title="Shows the original image while held"
+            >
+                Hold to see original
+            </button>
+        </div>
+    );
+};
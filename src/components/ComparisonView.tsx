@@ -0,0 +1,132 @@
+import React, { useEffect, useRef } from 'react';
+import { getCanvasContext } from '../utils/canvasColorSpace';
+import { clampSplitPosition, SPLIT_KEY_STEP } from '../utils/comparison';
+import { NEAREST_NEIGHBOUR_PIXEL_SIZE, type ViewRect } from '../utils/viewport';
+import './Comparison.css';
+
+interface OriginalImageCanvasProps {
+    /** Full-resolution original, drawn on the hidden canvas when the image is loaded */
+    sourceRef: React.RefObject<HTMLCanvasElement | null>;
+    /** Changes whenever a new image is drawn on the source canvas */
+    sourceKey: string;
+    colorSpace: PredefinedColorSpace;
+    imageWidth: number;
+    imageHeight: number;
+    /** Pixel size of the result canvas, so both scale the same way on screen */
+    displayWidth: number;
+    displayHeight: number;
+    /** Where the image sits in the result, in result pixels */
+    offset: { x: number; y: number };
+    /** Zoomed-in part of the result on screen, shared with the result canvas */
+    view: ViewRect;
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+/**
+ * The original image laid out in the result's frame: same canvas size as the result, with
+ * the image placed where the stretch left it, so overlaying or placing both side by side
+ * keeps them aligned
+ */
+export const OriginalImageCanvas: React.FC<OriginalImageCanvasProps> = ({
+    sourceRef,
+    sourceKey,
+    colorSpace,
+    imageWidth,
+    imageHeight,
+    displayWidth,
+    displayHeight,
+    offset,
+    view,
+    className,
+    style
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const source = sourceRef.current;
+        if (!canvas || !source) return;
+
+        canvas.width = displayWidth;
+        canvas.height = displayHeight;
+        const scaleX = displayWidth / view.width;
+        const scaleY = displayHeight / view.height;
+        const ctx = getCanvasContext(canvas, colorSpace);
+        ctx.clearRect(0, 0, displayWidth, displayHeight);
+        // Sampled like the result canvas, so both show the same pixels at any zoom
+        ctx.imageSmoothingEnabled = scaleX < NEAREST_NEIGHBOUR_PIXEL_SIZE;
+        ctx.drawImage(source, (offset.x - view.x) * scaleX, (offset.y - view.y) * scaleY, imageWidth * scaleX, imageHeight * scaleY);
+    }, [sourceRef, sourceKey, colorSpace, imageWidth, imageHeight, displayWidth, displayHeight, offset.x, offset.y, view.x, view.y, view.width, view.height]);
+
+    // Keyed so a new colour space gets a new canvas (and context)
+    return <canvas key={colorSpace} ref={canvasRef} className={className} style={style} aria-hidden="true" />;
+};
+
+interface SplitDividerProps {
+    /** Fraction of the width showing the original, from the left */
+    position: number;
+    onChange: (position: number) => void;
+}
+
+/**
+ * Draggable line splitting the image into the original (left) and the result (right)
+ */
+export const SplitDivider: React.FC<SplitDividerProps> = ({ position, onChange }) => {
+    const draggingRef = useRef(false);
+
+    const moveTo = (event: React.PointerEvent<HTMLDivElement>) => {
+        const stage = event.currentTarget.parentElement;
+        if (!stage) return;
+
+        const rect = stage.getBoundingClientRect();
+        if (rect.width > 0) {
+            onChange(clampSplitPosition((event.clientX - rect.left) / rect.width));
+        }
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (event.button !== 0) return;
+
+        event.currentTarget.setPointerCapture(event.pointerId);
+        draggingRef.current = true;
+        moveTo(event);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        const step = event.shiftKey ? SPLIT_KEY_STEP * 10 : SPLIT_KEY_STEP;
+        const next =
+            event.key === 'ArrowLeft' ? position - step
+            : event.key === 'ArrowRight' ? position + step
+            : event.key === 'Home' ? 0
+            : event.key === 'End' ? 1
+            : null;
+        if (next === null) return;
+
+        event.preventDefault();
+        onChange(clampSplitPosition(next));
+    };
+
+    return (
+        <div className="compare-split">
+            <div
+                className="compare-divider"
+                style={{ left: `${position * 100}%` }}
+                role="slider"
+                tabIndex={0}
+                aria-label="Comparison split"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(position * 100)}
+                aria-valuetext={`${Math.round(position * 100)}% original`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={(event) => draggingRef.current && moveTo(event)}
+                onPointerUp={() => (draggingRef.current = false)}
+                onPointerCancel={() => (draggingRef.current = false)}
+                onKeyDown={handleKeyDown}
+            >
+                <span className="compare-handle" aria-hidden="true">⇔</span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { CANVAS_COLOR_SPACE_LABELS, isDisplayP3Supported } from '../utils/canvasColorSpace';
+import { formatFileSize, ORIENTATION_LABELS, type ImageMetadata } from '../utils/imageMetadata';
+import './ImageDetails.css';
+
+interface ImageDetailsProps {
+    fileName: string;
+    metadata: ImageMetadata;
+    /** Space the image is being processed in */
+    colorSpace: PredefinedColorSpace;
+    onWideGamutChange: (wide: boolean) => void;
+}
+
+/**
+ * What was opened (format, size, orientation, colour profile) and the working colour space
+ */
+export const ImageDetails: React.FC<ImageDetailsProps> = ({ fileName, metadata, colorSpace, onWideGamutChange }) => {
+    const p3Supported = isDisplayP3Supported();
+
+    return (
+        <details className="control-group image-details">
+            <summary className="control-label" title={fileName}>
+                {metadata.width} × {metadata.height} {metadata.format}
+            </summary>
+
+            <dl className="image-details-list">
+                <dt>File</dt>
+                <dd title={fileName}>{fileName}</dd>
+                <dt>Format</dt>
+                <dd>{metadata.format}</dd>
+                <dt>Dimensions</dt>
+                <dd>{metadata.width} × {metadata.height} px</dd>
+                <dt>File size</dt>
+                <dd>{formatFileSize(metadata.fileSize)}</dd>
+                <dt>Orientation</dt>
+                <dd>
+                    {ORIENTATION_LABELS[metadata.orientation]}
+                    {metadata.orientation !== 1 && ' (applied)'}
+                </dd>
+                <dt>Colour profile</dt>
+                <dd title={metadata.colorProfile ?? undefined}>{metadata.colorProfile ?? 'None (treated as sRGB)'}</dd>
+                <dt>Working space</dt>
+                <dd>{CANVAS_COLOR_SPACE_LABELS[colorSpace]}</dd>
+            </dl>
+
+            <label
+                className="checkbox-label mt-2"
+                title={p3Supported
+                    ? 'Decode, stretch and save in Display P3 so wide-gamut colours are not clamped to sRGB'
+                    : 'This browser cannot use Display P3 canvases'}
+            >
+                <input
+                    type="checkbox"
+                    checked={colorSpace === 'display-p3'}
+                    disabled={!p3Supported}
+                    onChange={(e) => onWideGamutChange(e.target.checked)}
+                />
+                Wide colour (Display P3)
+            </label>
+        </details>
+    );
+};
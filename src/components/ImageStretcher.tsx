@@ -1,5 +1,74 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { stretchImage, type StretchParams } from '../utils/imageStretching';
+import { usePanZoom } from '../hooks/usePanZoom';
+import { useStackHistory } from '../hooks/useStackHistory';
+import { INTERPOLATION_LABELS, INTERPOLATION_MODES, type InterpolationMode } from '../utils/interpolation';
+import { DIRECTION_ANGLES, getAngleAxisLength, type RawImageData, type StretchDirection } from '../utils/imageStretching';
+import {
+    DEFAULT_STRETCH_SETTINGS,
+    fromRelativeStart,
+    getAngleModeStart,
+    getImageOffset,
+    getStartAxisLength,
+    toRelativeStart
+} from '../utils/stretchSettings';
+import {
+    createStack,
+    createStackCache,
+    addStep,
+    getSelectedStep,
+    moveStep,
+    removeStep,
+    renderStretchStack,
+    toggleStep,
+    updateAllSettings,
+    type StackCache,
+    type StretchStack
+} from '../utils/stretchStack';
+import { createBatchItem, MAX_BATCH_FILES, type BatchItem } from '../utils/batchStretch';
+import { getCanvasContext, isDisplayP3Supported, toImageData } from '../utils/canvasColorSpace';
+import { getSplitClipPath, type CompareMode } from '../utils/comparison';
+import { DEFAULT_EXPORT_OPTIONS, type ExportOptions } from '../utils/imageExport';
+import {
+    decodeImageBitmap,
+    getImportSource,
+    ImageImportError,
+    readEmbeddedSettings,
+    readImagePixels,
+    resolveImportSource,
+    type ImageImportSource
+} from '../utils/imageImport';
+import { getBasicImageMetadata, readImageMetadata, type ImageMetadata } from '../utils/imageMetadata';
+import {
+    applySelectionMask,
+    DEFAULT_MASK_TOOL_SETTINGS,
+    featherMask,
+    resizeMask,
+    type MaskToolSettings,
+    type SelectionMask
+} from '../utils/selectionMask';
+import { getShortcutAction, getShortcutTarget, isTextInput, type ShortcutAction } from '../utils/keyboardShortcuts';
+import { createPreviewProxy, getPreviewScale, toPreviewSettings } from '../utils/previewProxy';
+import { createSeed, NO_RANDOM_LOCKS, RANDOM_PARAMETERS, randomizeSettings, type RandomLocks } from '../utils/randomize';
+import { createStretchWorkerClient, type StretchWorkerClient } from '../utils/stretchWorkerClient';
+import { createStackFromShared, decodeStackHash, encodeStackHash, type SharedStack } from '../utils/urlState';
+import { FIT_VIEW, getViewRect, NEAREST_NEIGHBOUR_PIXEL_SIZE, ZOOM_STEP } from '../utils/viewport';
+import { AngleDial } from './AngleDial';
+import { BatchPanel } from './BatchPanel';
+import { ComparisonControls } from './ComparisonControls';
+import { OriginalImageCanvas, SplitDivider } from './ComparisonView';
+import { ImageDetails } from './ImageDetails';
+import { OutputSizeControls } from './OutputSizeControls';
+import { PresetPanel } from './PresetPanel';
+import { RandomControls } from './RandomControls';
+import { SaveDialog } from './SaveDialog';
+import { SelectionMaskControls } from './SelectionMaskControls';
+import { SelectionMaskOverlay } from './SelectionMaskOverlay';
+import { StartLineOverlay } from './StartLineOverlay';
+import { ShortcutHelpDialog } from './ShortcutHelpDialog';
+import { StretchProfileControls } from './StretchProfileControls';
+import { StretchStackPanel } from './StretchStackPanel';
+import { SweepExportPanel } from './SweepExportPanel';
+import { ZoomControls } from './ZoomControls';
 import './ImageStretcher.css';
 
 interface ImageInfo {
@@ -7,31 +76,200 @@ interface ImageInfo {
     url: string;
     width: number;
     height: number;
+    /** Space the source pixels are read in and every canvas of the pipeline uses */
+    colorSpace: PredefinedColorSpace;
+    metadata: ImageMetadata;
+}
+
+// Live previews stretch a downscaled proxy; Save always uses the full-resolution render
+type RenderQuality = 'preview' | 'full';
+
+interface PreviewProxy {
+    /** Full-resolution source the proxy was made from */
+    source: RawImageData;
+    scale: number;
+    image: RawImageData;
+}
+
+// How the displayed result is laid out: canvas pixels, and the full-resolution size it stands for
+interface DisplayLayout {
+    width: number;
+    height: number;
+    resultWidth: number;
+    resultHeight: number;
+}
+
+const CANVAS_STYLE: React.CSSProperties = {
+    border: '2px solid #333',
+    display: 'block',
+    maxWidth: '100%',
+    maxHeight: '100%',
+    width: 'auto',
+    height: 'auto'
+};
+
+// Height of the result previews kept in the history strip
+const THUMBNAIL_SIZE = 48;
+
+const INITIAL_STACK: StretchStack = createStack(DEFAULT_STRETCH_SETTINGS);
+
+function describeImportError(error: unknown): string {
+    if (error instanceof ImageImportError) return error.message;
+    console.error('Unexpected error while opening image:', error);
+    return 'The image could not be opened';
 }
 
 export const ImageStretcher: React.FC = () => {
     const [imageInfo, setImageInfo] = useState<ImageInfo | null>(null);
-    const [stretchRate, setStretchRate] = useState(13);
-    const [direction, setDirection] = useState<'up' | 'down' | 'left' | 'right'>('right');
-    const [startingPixel, setStartingPixel] = useState(100);
+    const {
+        stack,
+        entries: historyEntries,
+        index: historyIndex,
+        canUndo,
+        canRedo,
+        apply: applyToStack,
+        update: updateSettings,
+        select: selectStep,
+        undo,
+        redo,
+        jumpTo,
+        reset: resetHistory,
+        setThumbnail
+    } = useStackHistory(INITIAL_STACK);
+    // The controls panel edits the selected step of the layer stack
+    const { stretchRate, direction, startingPixel, premultiplyAlpha, interpolation, profile, angle, outputSize } = getSelectedStep(stack).settings;
+    const steps = stack.steps;
+    // Selections are drawn in image pixels, so they only line up with a same-size result
+    const keepsImageSize = steps.every(step => !step.enabled || step.settings.angle !== null || step.settings.outputSize.mode === 'original');
+    const [stretchError, setStretchError] = useState<string | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
-    const [processedImageUrl, setProcessedImageUrl] = useState<string | null>(null);
+    const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+    const [isHelpOpen, setIsHelpOpen] = useState(false);
+    // Read out by the live region: render results and the effect of keyboard shortcuts
+    const [announcement, setAnnouncement] = useState('');
+    const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+    const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+    // Keep wide-gamut colours by working in Display P3 where the browser supports it
+    const [wideGamut, setWideGamut] = useState(false);
+    const [randomSeed, setRandomSeed] = useState(createSeed);
+    const [randomLocks, setRandomLocks] = useState<RandomLocks>(NO_RANDOM_LOCKS);
+    // Size of the full-resolution result that Save downloads
+    const [resultSize, setResultSize] = useState<{ width: number; height: number } | null>(null);
+    // Set while the displayed result is a preview or outdated, until the full-resolution render lands
+    const [isFullRenderPending, setIsFullRenderPending] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [imageUrlInput, setImageUrlInput] = useState('');
+    // Optional selection limiting the stretch to part of the image; null stretches everything
+    const [selectionMask, setSelectionMask] = useState<SelectionMask | null>(null);
+    const [maskToolSettings, setMaskToolSettings] = useState<MaskToolSettings>(DEFAULT_MASK_TOOL_SETTINGS);
+    const maskFeather = maskToolSettings.feather;
+    const [compareMode, setCompareMode] = useState<CompareMode>('off');
+    // Fraction of the width showing the original in split mode
+    const [splitPosition, setSplitPosition] = useState(0.5);
+    const [isHoldingOriginal, setIsHoldingOriginal] = useState(false);
+    const [displayLayout, setDisplayLayout] = useState<DisplayLayout | null>(null);
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+    // Decoded (upright) image of the open file, and what was last read from it
+    const sourceBitmapRef = useRef<ImageBitmap | null>(null);
+    const drawnSourceRef = useRef<{ bitmap: ImageBitmap; colorSpace: PredefinedColorSpace } | null>(null);
+    const workerClientRef = useRef<StretchWorkerClient | null>(null);
+    const sourceImageRef = useRef<RawImageData | null>(null);
+    const resultImageRef = useRef<RawImageData | null>(null);
+    const stackCacheRef = useRef<StackCache>(createStackCache());
+    const previewProxyRef = useRef<PreviewProxy | null>(null);
+    // Previews have their own cache, keyed to the proxy instead of the full-size source
+    const previewCacheRef = useRef<StackCache>(createStackCache());
+    const previewStateRef = useRef({ running: false, queued: false });
+    // What the canvas shows, so a window resize or zoom can redraw it without stretching again
+    const displayedResultRef = useRef<{
+        image: RawImageData;
+        scale: number;
+        bitmap: HTMLCanvasElement;
+        colorSpace: PredefinedColorSpace;
+    } | null>(null);
+    const canvasWrapperRef = useRef<HTMLDivElement>(null);
+    const {
+        view,
+        setView,
+        zoomBy,
+        fit,
+        actualSize,
+        isPanTool,
+        setIsPanTool,
+        isPanReady,
+        isPanning
+    } = usePanZoom(canvasWrapperRef, () => (
+        displayLayout && canvasRef.current ? { resultWidth: displayLayout.resultWidth, displayWidth: canvasRef.current.clientWidth } : null
+    ));
+    const viewRef = useRef(view);
+    const renderIdRef = useRef(0);
+    // Settings from a shared link, applied once an image is opened
+    const pendingSharedStackRef = useRef<SharedStack | null>(null);
+    // Blurring the mask is costly, so the feathered copy is kept until the mask or feather changes
+    const featheredMaskRef = useRef<{ mask: SelectionMask; feather: number; result: SelectionMask } | null>(null);
+
+    // Own a single stretch worker for the lifetime of the component
+    useEffect(() => {
+        const workerClient = createStretchWorkerClient();
+        workerClientRef.current = workerClient;
+        return () => {
+            workerClient.dispose();
+            workerClientRef.current = null;
+        };
+    }, []);
 
-    // Handle file upload
-    const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) {
-            console.log('No file selected');
-            return;
+    // Free the open image's object URL once another image replaces it or the component unmounts
+    const imageUrl = imageInfo?.url;
+    useEffect(() => {
+        if (!imageUrl) return;
+        return () => URL.revokeObjectURL(imageUrl);
+    }, [imageUrl]);
+
+    // Restore settings from the URL hash, now and whenever a different link is pasted into this tab
+    useEffect(() => {
+        const readHash = () => {
+            const shared = decodeStackHash(window.location.hash);
+            if (!shared) return;
+
+            console.log('Restoring settings from URL:', shared);
+            const source = sourceImageRef.current;
+            if (source) {
+                applyToStack(() => createStackFromShared(shared, source.width, source.height));
+            } else {
+                pendingSharedStackRef.current = shared;
+            }
+        };
+
+        readHash();
+        window.addEventListener('hashchange', readHash);
+        return () => window.removeEventListener('hashchange', readHash);
+    }, [applyToStack]);
+
+    // Keep the URL hash in sync with the stack so the address bar is always a shareable link
+    useEffect(() => {
+        if (!imageInfo) return;
+
+        const hash = encodeStackHash(stack, imageInfo.width, imageInfo.height);
+        if (window.location.hash !== hash) {
+            // replaceState doesn't fire hashchange, so this never feeds back into readHash
+            window.history.replaceState(null, '', hash);
         }
+    }, [stack, imageInfo]);
+
+    // Open an image from any source; every source shares the same validation and error display
+    const openImage = useCallback(async (source: ImageImportSource) => {
+        setImportError(null);
 
-        if (!file.type.startsWith('image/')) {
-            console.error('Invalid file type:', file.type);
-            alert('Please select a valid image file');
+        let file: File;
+        try {
+            file = await resolveImportSource(source);
+        } catch (error) {
+            setImportError(describeImportError(error));
             return;
         }
 
@@ -41,105 +279,253 @@ export const ImageStretcher: React.FC = () => {
             type: file.type
         });
 
-        const url = URL.createObjectURL(file);
-        const img = new Image();
-
-        img.onload = () => {
-            console.log('Image loaded successfully:', {
-                width: img.width,
-                height: img.height,
-                naturalWidth: img.naturalWidth,
-                naturalHeight: img.naturalHeight
-            });
+        // PNGs saved by this app carry their stretch settings; restore them like a shared link
+        const embeddedSettings = await readEmbeddedSettings(file);
+        if (embeddedSettings) {
+            console.log('Found settings embedded in file:', embeddedSettings);
+        }
 
-            setImageInfo({
-                file,
-                url,
-                width: img.width,
-                height: img.height
-            });
+        let bitmap: ImageBitmap;
+        try {
+            bitmap = await decodeImageBitmap(file);
+        } catch (error) {
+            setImportError(describeImportError(error));
+            return;
+        }
 
-            // Use setTimeout to ensure refs are available
-            setTimeout(() => {
-                // Draw original image on hidden canvas
-                if (originalCanvasRef.current) {
-                    const canvas = originalCanvasRef.current;
-                    const ctx = canvas.getContext('2d')!;
-                    canvas.width = img.width;
-                    canvas.height = img.height;
-                    ctx.drawImage(img, 0, 0);
-                    console.log('Original image drawn to hidden canvas:', {
-                        canvasWidth: canvas.width,
-                        canvasHeight: canvas.height
-                    });
+        // The details are only shown, so metadata that can't be read doesn't reject the image
+        let metadata: ImageMetadata;
+        try {
+            metadata = await readImageMetadata(file, bitmap.width, bitmap.height);
+        } catch (error) {
+            console.warn('Could not read image metadata:', error);
+            metadata = getBasicImageMetadata(file, bitmap.width, bitmap.height);
+        }
+        console.log('Image decoded:', metadata);
+
+        const { width, height } = bitmap;
+        const colorSpace: PredefinedColorSpace = wideGamut && isDisplayP3Supported() ? 'display-p3' : 'srgb';
+        sourceBitmapRef.current?.close();
+        sourceBitmapRef.current = bitmap;
+
+        setImageInfo({
+            file,
+            url: URL.createObjectURL(file),
+            width,
+            height,
+            colorSpace,
+            metadata
+        });
+        // Masks are per pixel, so one drawn on the previous image doesn't carry over
+        setSelectionMask(null);
+        setView(FIT_VIEW);
+
+        // Use setTimeout to ensure refs are available
+        setTimeout(() => {
+            // Draw to visible canvas
+            if (canvasRef.current) {
+                const canvas = canvasRef.current;
+                const ctx = getCanvasContext(canvas, colorSpace);
+
+                // Calculate responsive display size based on aspect ratio and available space
+                const containerMaxWidth = window.innerWidth * 0.8; // 80vw
+                const containerMaxHeight = window.innerHeight * 0.8; // 80vh
+                const imageAspectRatio = width / height;
+                const containerAspectRatio = containerMaxWidth / containerMaxHeight;
+
+                let displayWidth: number;
+                let displayHeight: number;
+
+                if (imageAspectRatio > containerAspectRatio) {
+                    // Image is wider than container - fit to width
+                    displayWidth = Math.min(width, containerMaxWidth);
+                    displayHeight = displayWidth / imageAspectRatio;
                 } else {
-                    console.error('Original canvas ref is null');
+                    // Image is taller than container - fit to height
+                    displayHeight = Math.min(height, containerMaxHeight);
+                    displayWidth = displayHeight * imageAspectRatio;
                 }
 
-                // Draw to visible canvas
-                if (canvasRef.current) {
-                    const canvas = canvasRef.current;
-                    const ctx = canvas.getContext('2d')!;
-
-                    // Calculate responsive display size based on aspect ratio and available space
-                    const containerMaxWidth = window.innerWidth * 0.8; // 80vw
-                    const containerMaxHeight = window.innerHeight * 0.8; // 80vh
-                    const imageAspectRatio = img.width / img.height;
-                    const containerAspectRatio = containerMaxWidth / containerMaxHeight;
-
-                    let displayWidth: number;
-                    let displayHeight: number;
-
-                    if (imageAspectRatio > containerAspectRatio) {
-                        // Image is wider than container - fit to width
-                        displayWidth = Math.min(img.width, containerMaxWidth);
-                        displayHeight = displayWidth / imageAspectRatio;
-                    } else {
-                        // Image is taller than container - fit to height
-                        displayHeight = Math.min(img.height, containerMaxHeight);
-                        displayWidth = displayHeight * imageAspectRatio;
-                    }
-
-                    // Ensure we don't exceed the original image dimensions unless necessary
-                    if (displayWidth > img.width && displayHeight > img.height) {
-                        displayWidth = img.width;
-                        displayHeight = img.height;
-                    }
-
-                    canvas.width = Math.floor(displayWidth);
-                    canvas.height = Math.floor(displayHeight);
-
-                    // Clear canvas and draw image
-                    ctx.clearRect(0, 0, displayWidth, displayHeight);
-                    ctx.drawImage(img, 0, 0, displayWidth, displayHeight);
-
-                    console.log('Image drawn to visible canvas:', {
-                        originalSize: `${img.width}x${img.height}`,
-                        displaySize: `${displayWidth}x${displayHeight}`,
-                        canvasSize: `${canvas.width}x${canvas.height}`,
-                        aspectRatio: imageAspectRatio.toFixed(2),
-                        containerSize: `${containerMaxWidth}x${containerMaxHeight}`,
-                        canvasRef: !!canvasRef.current
-                    });
-                } else {
-                    console.error('Visible canvas ref is null');
+                // Ensure we don't exceed the original image dimensions unless necessary
+                if (displayWidth > width && displayHeight > height) {
+                    displayWidth = width;
+                    displayHeight = height;
                 }
 
+                canvas.width = Math.floor(displayWidth);
+                canvas.height = Math.floor(displayHeight);
+
+                // Clear canvas and draw image
+                ctx.clearRect(0, 0, displayWidth, displayHeight);
+                ctx.drawImage(bitmap, 0, 0, displayWidth, displayHeight);
+
+                console.log('Image drawn to visible canvas:', {
+                    originalSize: `${width}x${height}`,
+                    displaySize: `${displayWidth}x${displayHeight}`,
+                    canvasSize: `${canvas.width}x${canvas.height}`,
+                    aspectRatio: imageAspectRatio.toFixed(2),
+                    containerSize: `${containerMaxWidth}x${containerMaxHeight}`,
+                    canvasRef: !!canvasRef.current
+                });
+            } else {
+                console.error('Visible canvas ref is null');
+            }
+            // A new image starts a new history, from its embedded settings or a waiting shared link if there are any
+            const shared = embeddedSettings ?? pendingSharedStackRef.current;
+            pendingSharedStackRef.current = null;
+            if (shared) {
+                resetHistory(() => createStackFromShared(shared, width, height));
+                console.log(embeddedSettings ? 'Applied settings embedded in file' : 'Applied settings from URL');
+            } else {
                 // Set starting pixel to middle of the image (works for all directions)
-                const defaultStartingPixel = Math.floor(Math.min(img.width, img.height) * 0.5);
-                setStartingPixel(defaultStartingPixel);
+                const defaultStartingPixel = Math.floor(Math.min(width, height) * 0.5);
+                resetHistory(current => updateAllSettings(current, { startingPixel: defaultStartingPixel }));
                 console.log('Starting pixel set to:', defaultStartingPixel);
-            }, 100); // Small delay to ensure refs are ready
-        };
+            }
+        }, 100); // Small delay to ensure refs are ready
+    }, [resetHistory, setView, wideGamut]);
+
+    // Read the source pixels from the decoded image whenever a new image or colour space
+    // arrives. Declared before the render effect, so renders always see the current pixels.
+    useEffect(() => {
+        const bitmap = sourceBitmapRef.current;
+        const canvas = originalCanvasRef.current;
+        if (!imageInfo || !bitmap || !canvas) return;
+
+        const drawn = drawnSourceRef.current;
+        if (drawn && drawn.bitmap === bitmap && drawn.colorSpace === imageInfo.colorSpace) return;
+
+        // Keep one stable copy of the source pixels; the layer stack cache is tied to it
+        sourceImageRef.current = readImagePixels(bitmap, canvas, imageInfo.colorSpace);
+        drawnSourceRef.current = { bitmap, colorSpace: imageInfo.colorSpace };
+        console.log('Original image drawn to hidden canvas:', {
+            canvasWidth: canvas.width,
+            canvasHeight: canvas.height,
+            colorSpace: imageInfo.colorSpace
+        });
+    }, [imageInfo]);
+
+    // Switching colour space re-reads the open image; the canvases are remounted (keyed on it)
+    // because a canvas keeps the colour space of its first context. Browsers without P3
+    // canvases stay in sRGB, as openImage does, rather than mislabelling sRGB pixels as P3.
+    const changeColorSpace = (wide: boolean) => {
+        const colorSpace: PredefinedColorSpace = wide && isDisplayP3Supported() ? 'display-p3' : 'srgb';
+        setWideGamut(colorSpace === 'display-p3');
+        setImageInfo(current => current && { ...current, colorSpace });
+    };
+
+    // Animated exports can't carry a colour profile, so they are made from sRGB pixels
+    const getSweepSource = (): RawImageData | null => {
+        const bitmap = sourceBitmapRef.current;
+        if (!imageInfo || imageInfo.colorSpace === 'srgb' || !bitmap) return sourceImageRef.current;
+        return readImagePixels(bitmap, document.createElement('canvas'), 'srgb');
+    };
+
+    // Opening several files at once opens the first and queues them all for batch mode
+    const openFiles = useCallback((files: File[]) => {
+        if (files.length > 1) {
+            console.log('Adding files to batch:', files.length);
+            setBatchItems(current => [...current, ...files.slice(0, Math.max(0, MAX_BATCH_FILES - current.length)).map(createBatchItem)]);
+        }
+        openImage({ kind: 'file', file: files[0] });
+    }, [openImage]);
+
+    // Handle file upload
+    const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        // Clear the input so picking the same file again still fires onChange
+        event.target.value = '';
+        if (files.length === 0) {
+            console.log('No file selected');
+            return;
+        }
+
+        openFiles(files);
+    }, [openFiles]);
+
+    // Leaving angle mode keeps the start line at the same relative position
+    const selectDirection = (nextDirection: StretchDirection) => {
+        if (angle === null || !imageInfo) {
+            updateSettings({ direction: nextDirection });
+            return;
+        }
+        const current = getSelectedStep(stack).settings;
+        const relativeStart = toRelativeStart(current, imageInfo.width, imageInfo.height);
+        updateSettings({
+            direction: nextDirection,
+            angle: null,
+            startingPixel: fromRelativeStart(relativeStart, { direction: nextDirection, angle: null }, imageInfo.width, imageInfo.height)
+        });
+    };
+
+    // Roll the unlocked parameters from a seed; returns the seed, or null if there is nothing to roll
+    const randomize = (seed = createSeed()): number | null => {
+        if (!imageInfo || RANDOM_PARAMETERS.every(parameter => randomLocks[parameter])) return null;
+
+        const patch = randomizeSettings(getSelectedStep(stack).settings, seed, randomLocks, imageInfo.width, imageInfo.height);
+        console.log('Random parameters:', { seed, ...patch });
+        setRandomSeed(seed);
+        updateSettings(patch);
+        return seed;
+    };
+
+    // Entering angle mode starts from the current direction, so the output doesn't change
+    const setAngleMode = (enabled: boolean) => {
+        if (!imageInfo) return;
+        if (enabled) {
+            updateSettings({
+                angle: DIRECTION_ANGLES[direction],
+                startingPixel: getAngleModeStart({ direction, startingPixel }, imageInfo.width, imageInfo.height)
+            });
+        } else {
+            selectDirection(direction);
+        }
+    };
+
+    // Drag-and-drop onto the intro screen or the canvas
+    const dropZoneHandlers = {
+        onDragOver: (event: React.DragEvent) => {
+            event.preventDefault();
+            event.dataTransfer.dropEffect = 'copy';
+            setIsDragging(true);
+        },
+        onDragLeave: (event: React.DragEvent) => {
+            // dragleave also fires when moving onto a child element
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+                setIsDragging(false);
+            }
+        },
+        onDrop: (event: React.DragEvent) => {
+            event.preventDefault();
+            setIsDragging(false);
+
+            const files = Array.from(event.dataTransfer.files);
+            const source = getImportSource(event.dataTransfer);
+            if (files.length > 1) {
+                openFiles(files);
+            } else if (source) {
+                openImage(source);
+            } else {
+                setImportError('Drop an image file or an image link');
+            }
+        }
+    };
+
+    // Ctrl+V of an image or an image URL anywhere outside a text field
+    useEffect(() => {
+        const handlePaste = (event: ClipboardEvent) => {
+            if (isTextInput(event.target) || !event.clipboardData) return;
 
-        img.onerror = (error) => {
-            console.error('Failed to load image:', error);
-            alert('Failed to load image');
+            const source = getImportSource(event.clipboardData);
+            if (!source) return;
+
+            event.preventDefault();
+            openImage(source);
         };
 
-        img.src = url;
-        console.log('Image src set, waiting for load...');
-    }, []);
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [openImage]);
 
     // Get image data from canvas
     const getImageData = useCallback((): ImageData | null => {
@@ -150,153 +536,279 @@ export const ImageStretcher: React.FC = () => {
         return ctx.getImageData(0, 0, canvas.width, canvas.height);
     }, []);
 
-    // Apply stretching effect
-    const applyStretch = useCallback(() => {
+    // Blend the stack result into the original through the feathered selection, if there is one.
+    // Previews use a copy of the mask scaled to the proxy.
+    const applyMask = useCallback((source: RawImageData, stretched: RawImageData): RawImageData => {
+        if (!selectionMask || !keepsImageSize) return stretched;
+
+        const cached = featheredMaskRef.current;
+        let feathered: SelectionMask;
+        if (cached && cached.mask === selectionMask && cached.feather === maskFeather) {
+            feathered = cached.result;
+        } else {
+            feathered = featherMask(selectionMask, maskFeather);
+            featheredMaskRef.current = { mask: selectionMask, feather: maskFeather, result: feathered };
+        }
+        return applySelectionMask(source, stretched, resizeMask(feathered, stretched.width, stretched.height));
+    }, [selectionMask, maskFeather, keepsImageSize]);
+
+    // Downscaled copy of the source for live previews, or null when the image is small enough
+    // to preview at full resolution
+    const getPreviewProxy = useCallback((): PreviewProxy | null => {
+        const source = sourceImageRef.current;
+        const originalCanvas = originalCanvasRef.current;
+        if (!source || !originalCanvas) return null;
+
+        // The canvas shows at most 80vw × 80vh; a finer proxy would only be scaled down again
+        const pixelRatio = window.devicePixelRatio || 1;
+        const scale = getPreviewScale(source.width, source.height, window.innerWidth * 0.8 * pixelRatio, window.innerHeight * 0.8 * pixelRatio);
+        if (scale >= 1) return null;
+
+        const cached = previewProxyRef.current;
+        if (cached && cached.source === source && cached.scale === scale) return cached;
+
+        const image = createPreviewProxy(originalCanvas, source.width, source.height, scale, drawnSourceRef.current?.colorSpace);
+        console.log('Created preview proxy:', { size: `${image.width}x${image.height}`, scale: scale.toFixed(3) });
+        previewProxyRef.current = { source, scale, image };
+        return previewProxyRef.current;
+    }, []);
+
+    // Draw the visible part of the displayed result into the canvas; zoomed far enough in,
+    // pixels are shown as hard-edged blocks instead of being smoothed
+    const paintResult = useCallback(() => {
+        const canvas = canvasRef.current;
+        const displayed = displayedResultRef.current;
+        if (!canvas || !displayed) return;
+
+        const { bitmap } = displayed;
+        const visible = getViewRect(viewRef.current, bitmap.width, bitmap.height);
+        const ctx = getCanvasContext(canvas, displayed.colorSpace);
+        ctx.imageSmoothingEnabled = canvas.width / visible.width < NEAREST_NEIGHBOUR_PIXEL_SIZE;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(bitmap, visible.x, visible.y, visible.width, visible.height, 0, 0, canvas.width, canvas.height);
+    }, []);
+
+    // Zooming and panning only repaint; the result is kept at its own resolution
+    useEffect(() => {
+        viewRef.current = view;
+        paintResult();
+    }, [view, paintResult]);
+
+    // Draw a result scaled to fit the display area. Previews are laid out at the size of the
+    // full-resolution result, so the canvas doesn't jump when it arrives.
+    const drawResult = useCallback((image: RawImageData, scale: number, colorSpace: PredefinedColorSpace): HTMLCanvasElement | null => {
+        const canvas = canvasRef.current;
+        if (!canvas) return null;
+
+        // Set canvas to display the stretched image with responsive sizing
+        const fullWidth = image.width / scale;
+        const fullHeight = image.height / scale;
+        const containerMaxWidth = window.innerWidth * 0.8; // 80vw
+        const containerMaxHeight = window.innerHeight * 0.8; // 80vh
+        const stretchedAspectRatio = fullWidth / fullHeight;
+        const containerAspectRatio = containerMaxWidth / containerMaxHeight;
+
+        let displayWidth: number;
+        let displayHeight: number;
+
+        if (stretchedAspectRatio > containerAspectRatio) {
+            // Stretched image is wider than container - fit to width
+            displayWidth = Math.min(fullWidth, containerMaxWidth);
+            displayHeight = displayWidth / stretchedAspectRatio;
+        } else {
+            // Stretched image is taller than container - fit to height
+            displayHeight = Math.min(fullHeight, containerMaxHeight);
+            displayWidth = displayHeight * stretchedAspectRatio;
+        }
+
+        canvas.width = Math.floor(displayWidth);
+        canvas.height = Math.floor(displayHeight);
+
+        console.log('Canvas display size set to:', canvas.width, 'x', canvas.height);
+
+        // Create a temporary canvas to hold the full-size stretched image
+        const tempCanvas = document.createElement('canvas');
+        const tempCtx = getCanvasContext(tempCanvas, colorSpace);
+        tempCanvas.width = image.width;
+        tempCanvas.height = image.height;
+        tempCtx.putImageData(toImageData(image, colorSpace), 0, 0);
+
+        // Draw the stretched image scaled to fit the display canvas, at the current zoom
+        displayedResultRef.current = { image, scale, bitmap: tempCanvas, colorSpace };
+        paintResult();
+
+        const layout = { width: canvas.width, height: canvas.height, resultWidth: Math.round(fullWidth), resultHeight: Math.round(fullHeight) };
+        // Previews redraw constantly; keep the same object while the layout doesn't change
+        setDisplayLayout(current => (
+            current && current.width === layout.width && current.height === layout.height &&
+            current.resultWidth === layout.resultWidth && current.resultHeight === layout.resultHeight ? current : layout
+        ));
+        return tempCanvas;
+    }, [paintResult]);
+
+    // Apply stretching effect in the worker; a newer call cancels any in-flight job. Previews
+    // stretch the proxy and leave the full-resolution result (what Save downloads) alone.
+    const applyStretch = useCallback(async (quality: RenderQuality) => {
         if (!imageInfo || !canvasRef.current) {
             console.log('Missing imageInfo or canvas ref');
             return;
         }
 
-        setIsProcessing(true);
+        const workerClient = workerClientRef.current;
+        if (!workerClient) {
+            console.error('Stretch worker is not available');
+            return;
+        }
+
+        const sourceImage = sourceImageRef.current;
+        if (!sourceImage) {
+            console.error('Failed to get image data');
+            return;
+        }
+
+        // Images that already fit the display are previewed at full resolution
+        const proxy = quality === 'preview' ? getPreviewProxy() : null;
+        if (!proxy) {
+            // Nothing queued behind a preview may cancel this render
+            previewStateRef.current.queued = false;
+        }
+        const renderSource = proxy?.image ?? sourceImage;
+        const renderSteps = proxy
+            ? steps.map(step => ({ ...step, settings: toPreviewSettings(step.settings, proxy.scale) }))
+            : steps;
+
+        console.log('Got image data:', {
+            quality: proxy ? 'preview' : 'full',
+            width: renderSource.width,
+            height: renderSource.height,
+            dataLength: renderSource.data.length
+        });
+
+        // Any render started after this one makes it stale
+        const renderId = ++renderIdRef.current;
+
+        if (!proxy) {
+            setIsProcessing(true);
+            setProgress(0);
+            setAnnouncement('Stretching at full resolution…');
+        }
+        setStretchError(null);
 
         try {
-            const imageData = getImageData();
-            if (!imageData) {
-                console.error('Failed to get image data');
-                setIsProcessing(false);
+            // Each step runs in the worker; unchanged leading steps come from the stack cache
+            const cache = proxy ? previewCacheRef.current : stackCacheRef.current;
+            const stackResult = await renderStretchStack(renderSource, renderSteps, cache, (input, stepParams, stepIndex, stepCount) => {
+                if (renderId !== renderIdRef.current) return Promise.resolve(null);
+
+                const params = { ...stepParams, colorSpace: imageInfo.colorSpace };
+                console.log('Applying stretch step with params:', params);
+                return workerClient.run(input, params, proxy ? undefined : (stepProgress) => {
+                    setProgress(Math.round(((stepIndex + stepProgress / 100) / stepCount) * 100));
+                });
+            });
+
+            if (!stackResult || renderId !== renderIdRef.current) {
+                // Superseded by a newer job, which owns the processing state now
+                console.log('Stretch job cancelled by newer parameters');
                 return;
             }
 
-            console.log('Got image data:', {
-                width: imageData.width,
-                height: imageData.height,
-                dataLength: imageData.data.length
+            const stretchedImageData = applyMask(renderSource, stackResult);
+
+            console.log('Stretched image data:', {
+                width: stretchedImageData.width,
+                height: stretchedImageData.height,
+                dataLength: stretchedImageData.data.length
             });
 
-            // For left and right directions, invert the starting pixel to fix coordinate mapping
-            let adjustedStartingPixel = startingPixel;
-            if (direction === 'left' || direction === 'right') {
-                adjustedStartingPixel = imageInfo.width - 1 - startingPixel;
+            // Validate result
+            if (stretchedImageData.width <= 0 || stretchedImageData.height <= 0) {
+                console.error('Invalid stretched image dimensions, keeping original');
+                setIsProcessing(false);
+                return;
+            }
+
+            const resultCanvas = drawResult(stretchedImageData, proxy?.scale ?? 1, imageInfo.colorSpace);
+            console.log(proxy ? 'Preview drawn to canvas' : 'Stretched image drawn to canvas');
+
+            if (!proxy && resultCanvas) {
+                setResultSize({ width: stretchedImageData.width, height: stretchedImageData.height });
+
+                // Remember a small preview of this result for the history strip
+                const thumbnailCanvas = document.createElement('canvas');
+                thumbnailCanvas.height = THUMBNAIL_SIZE;
+                thumbnailCanvas.width = Math.max(1, Math.round((THUMBNAIL_SIZE * stretchedImageData.width) / stretchedImageData.height));
+                thumbnailCanvas.getContext('2d')!.drawImage(resultCanvas, 0, 0, thumbnailCanvas.width, thumbnailCanvas.height);
+                setThumbnail(steps, thumbnailCanvas.toDataURL());
+
+                // Keep the full-size result; the save dialog encodes it in the chosen format
+                resultImageRef.current = stretchedImageData;
+                setIsFullRenderPending(false);
+                setAnnouncement(`Stretched image ready, ${stretchedImageData.width} by ${stretchedImageData.height} pixels`);
             }
 
-            const params: StretchParams = {
-                stretchRate,
-                startingPixel: adjustedStartingPixel,
-                direction
-            };
-
-            console.log('Applying stretch with params:', params);
-
-            // Apply stretching
-            setTimeout(() => {
-                try {
-                    if (canvasRef.current) {
-                        const canvas = canvasRef.current;
-                        const ctx = canvas.getContext('2d')!;
-
-                        console.log('Starting stretch process...');
-
-                        // Apply stretching directly (don't draw original first)
-                        const stretchedImageData = stretchImage(imageData, params);
-
-                        console.log('Stretched image data:', {
-                            width: stretchedImageData.width,
-                            height: stretchedImageData.height,
-                            dataLength: stretchedImageData.data.length
-                        });
-
-                        // Validate result
-                        if (stretchedImageData.width <= 0 || stretchedImageData.height <= 0) {
-                            console.error('Invalid stretched image dimensions, keeping original');
-                            setIsProcessing(false);
-                            return;
-                        }
-
-                        // Set canvas to display the stretched image with responsive sizing
-                        const containerMaxWidth = window.innerWidth * 0.8; // 80vw
-                        const containerMaxHeight = window.innerHeight * 0.8; // 80vh
-                        const stretchedAspectRatio = stretchedImageData.width / stretchedImageData.height;
-                        const containerAspectRatio = containerMaxWidth / containerMaxHeight;
-
-                        let displayWidth: number;
-                        let displayHeight: number;
-
-                        if (stretchedAspectRatio > containerAspectRatio) {
-                            // Stretched image is wider than container - fit to width
-                            displayWidth = Math.min(stretchedImageData.width, containerMaxWidth);
-                            displayHeight = displayWidth / stretchedAspectRatio;
-                        } else {
-                            // Stretched image is taller than container - fit to height
-                            displayHeight = Math.min(stretchedImageData.height, containerMaxHeight);
-                            displayWidth = displayHeight * stretchedAspectRatio;
-                        }
-
-                        canvas.width = Math.floor(displayWidth);
-                        canvas.height = Math.floor(displayHeight);
-
-                        console.log('Canvas display size set to:', canvas.width, 'x', canvas.height);
-
-                        // Create ImageData object for the stretched result
-                        const newImageData = ctx.createImageData(stretchedImageData.width, stretchedImageData.height);
-                        newImageData.data.set(stretchedImageData.data);
-
-                        // Create a temporary canvas to hold the full-size stretched image
-                        const tempCanvas = document.createElement('canvas');
-                        const tempCtx = tempCanvas.getContext('2d')!;
-                        tempCanvas.width = stretchedImageData.width;
-                        tempCanvas.height = stretchedImageData.height;
-                        tempCtx.putImageData(newImageData, 0, 0);
-
-                        // Draw the stretched image scaled to fit the display canvas
-                        ctx.clearRect(0, 0, displayWidth, displayHeight);
-                        ctx.drawImage(tempCanvas, 0, 0, displayWidth, displayHeight);
-
-                        console.log('Stretched image drawn to canvas');
-
-                        // Create blob URL for download using the full-size stretched image (tempCanvas)
-                        tempCanvas.toBlob((blob: Blob | null) => {
-                            if (blob) {
-                                if (processedImageUrl) {
-                                    URL.revokeObjectURL(processedImageUrl);
-                                }
-                                const url = URL.createObjectURL(blob);
-                                setProcessedImageUrl(url);
-                            }
-                        });
-                    }
-
-                    setIsProcessing(false);
-                } catch (stretchError) {
-                    console.error('Error in stretching algorithm:', stretchError);
-
-                    // Fallback: just show original image
-                    if (canvasRef.current && imageData) {
-                        const canvas = canvasRef.current;
-                        const ctx = canvas.getContext('2d')!;
-                        canvas.width = imageData.width;
-                        canvas.height = imageData.height;
-                        ctx.putImageData(imageData, 0, 0);
-                        console.log('Showing original image as fallback');
-                    }
-
-                    setIsProcessing(false);
-                }
-            }, 50);
+            if (!proxy) {
+                setIsProcessing(false);
+            }
         } catch (error) {
-            console.error('Error processing image:', error);
+            console.error('Error in stretching algorithm:', error);
+            setStretchError(error instanceof Error ? error.message : String(error));
+
+            // Fallback: just show original image (the transferred imageData is detached, so read it again)
+            const originalImageData = getImageData();
+            if (canvasRef.current && originalImageData) {
+                const canvas = canvasRef.current;
+                const ctx = getCanvasContext(canvas, imageInfo.colorSpace);
+                canvas.width = originalImageData.width;
+                canvas.height = originalImageData.height;
+                ctx.putImageData(originalImageData, 0, 0);
+                displayedResultRef.current = null;
+                console.log('Showing original image as fallback');
+            }
+
             setIsProcessing(false);
+            setIsFullRenderPending(false);
+        }
+    }, [imageInfo, steps, getImageData, getPreviewProxy, drawResult, setThumbnail, applyMask]);
+
+    // Latest applyStretch, for previews that were queued behind a running one
+    const applyStretchRef = useRef(applyStretch);
+    useEffect(() => {
+        applyStretchRef.current = applyStretch;
+    }, [applyStretch]);
+
+    // Previews run back to back rather than cancelling each other: changes made while one
+    // renders are picked up together as soon as it finishes, so dragging stays live
+    const requestPreview = useCallback(() => {
+        const state = previewStateRef.current;
+        if (state.running) {
+            state.queued = true;
+            return;
         }
-    }, [imageInfo, stretchRate, startingPixel, direction, getImageData, processedImageUrl]);
 
-    // Auto-apply stretch when parameters change (with debouncing)
+        state.running = true;
+        applyStretchRef.current('preview').finally(() => {
+            state.running = false;
+            if (state.queued) {
+                state.queued = false;
+                requestPreview();
+            }
+        });
+    }, []);
+
+    // Preview straight away when parameters change, then render at full resolution once they
+    // settle (debounced)
     useEffect(() => {
-        console.log('useEffect triggered with imageInfo:', !!imageInfo, 'isProcessing:', isProcessing);
-        if (!imageInfo || isProcessing) return;
+        console.log('useEffect triggered with imageInfo:', !!imageInfo);
+        if (!imageInfo) return;
+
+        setIsFullRenderPending(true);
+        requestPreview();
 
-        console.log('Scheduling auto-stretch...');
+        console.log('Scheduling full-resolution stretch...');
         const timeoutId = setTimeout(() => {
             console.log('Auto-applying stretch...');
-            applyStretch();
+            applyStretch('full');
         }, 300); // 300ms debounce
 
         return () => {
@@ -304,38 +816,151 @@ export const ImageStretcher: React.FC = () => {
             clearTimeout(timeoutId);
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [imageInfo, stretchRate, startingPixel, direction]);
+    }, [imageInfo, steps, selectionMask, maskFeather]);
 
-    // Handle window resize to update canvas display size
+    // A resize only changes the display size, so redraw the last result instead of stretching
+    // again; the next preview picks a proxy for the new size
     useEffect(() => {
-        if (!imageInfo || !canvasRef.current) return;
+        if (!imageInfo) return;
 
         const handleResize = () => {
-            // Re-apply stretch with new display dimensions
-            applyStretch();
+            const displayed = displayedResultRef.current;
+            if (displayed) {
+                drawResult(displayed.image, displayed.scale, displayed.colorSpace);
+            }
         };
 
         window.addEventListener('resize', handleResize);
         return () => window.removeEventListener('resize', handleResize);
-    }, [imageInfo, applyStretch]);
+    }, [imageInfo, drawResult]);
 
     // Download processed image
     const downloadImage = useCallback(() => {
-        if (!processedImageUrl) return;
+        if (!resultImageRef.current) return;
+
+        console.log('Opening save dialog for result:', resultSize);
+        setIsSaveDialogOpen(true);
+    }, [resultSize]);
+
+    // Carry out a keyboard shortcut; returns false to leave the key to the browser
+    const runShortcut = (action: ShortcutAction): boolean => {
+        // Open dialogs are modal, so their keys are their own
+        if (isSaveDialogOpen || isHelpOpen) return false;
+
+        switch (action.type) {
+            case 'help':
+                setIsHelpOpen(true);
+                return true;
+            case 'open':
+                fileInputRef.current?.click();
+                return true;
+        }
+
+        if (!imageInfo) return false;
+
+        switch (action.type) {
+            case 'undo':
+                undo();
+                return true;
+            case 'redo':
+                redo();
+                return true;
+            case 'direction':
+                selectDirection(action.direction);
+                setAnnouncement(`Direction ${action.direction}`);
+                return true;
+            case 'nudgeStart': {
+                const axisLength = getStartAxisLength({ direction, angle }, imageInfo.width, imageInfo.height);
+                const nextStart = Math.min(Math.max(startingPixel + action.delta, 0), axisLength - 1);
+                updateSettings({ startingPixel: nextStart }, 'startingPixel');
+                setAnnouncement(`Start ${nextStart} of ${axisLength - 1}`);
+                return true;
+            }
+            case 'rate': {
+                if (profile.type !== 'fibonacci') {
+                    setAnnouncement('Stretch rate only applies to the Fibonacci profile');
+                    return true;
+                }
+                const nextRate = Math.min(Math.max(stretchRate + action.delta, 1), 13);
+                updateSettings({ stretchRate: nextRate }, 'stretchRate');
+                setAnnouncement(`Stretch rate ${nextRate}`);
+                return true;
+            }
+            case 'save':
+                downloadImage();
+                return true;
+            case 'random': {
+                const seed = randomize();
+                setAnnouncement(seed === null ? 'Every random parameter is locked' : `Random parameters, seed ${seed}`);
+                return true;
+            }
+            case 'zoom':
+                if (action.zoom === 'in' || action.zoom === 'out') {
+                    zoomBy(action.zoom === 'in' ? ZOOM_STEP : 1 / ZOOM_STEP);
+                } else if (action.zoom === 'fit') {
+                    fit();
+                } else {
+                    actualSize();
+                }
+                return true;
+        }
+    };
 
-        const link = document.createElement('a');
-        link.href = processedImageUrl;
-        link.download = `stretched_${imageInfo?.file.name || 'image.png'}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    }, [processedImageUrl, imageInfo]);
+    // The key listener is registered once and always runs the latest shortcut handler
+    const runShortcutRef = useRef(runShortcut);
+    useEffect(() => {
+        runShortcutRef.current = runShortcut;
+    });
+
+    // Keyboard shortcuts (see KEYBOARD_SHORTCUTS); text fields keep their native keys
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.defaultPrevented) return;
+
+            const action = getShortcutAction(event, getShortcutTarget(event.target));
+            if (action && runShortcutRef.current(action)) {
+                event.preventDefault();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // The original in the displayed result's frame, for the comparison views, and the part of
+    // the result the zoom shows
+    const originalCanvasProps = imageInfo && displayLayout ? {
+        sourceRef: originalCanvasRef,
+        sourceKey: imageInfo.url,
+        colorSpace: imageInfo.colorSpace,
+        imageWidth: imageInfo.width,
+        imageHeight: imageInfo.height,
+        displayWidth: displayLayout.width,
+        displayHeight: displayLayout.height,
+        offset: getImageOffset({ direction, angle }, imageInfo.width, imageInfo.height, displayLayout.resultWidth, displayLayout.resultHeight),
+        view: getViewRect(view, displayLayout.resultWidth, displayLayout.resultHeight)
+    } : null;
+    const viewRect = originalCanvasProps?.view ?? null;
+    const compareOverlay = originalCanvasProps && (isHoldingOriginal || compareMode === 'split') && (
+        <OriginalImageCanvas
+            {...originalCanvasProps}
+            className="compare-original"
+            style={isHoldingOriginal ? undefined : { clipPath: getSplitClipPath(splitPosition) }}
+        />
+    );
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-black dark:to-gray-900">
+            {/* Screen reader announcements of processing state and shortcut results */}
+            <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+            <ShortcutHelpDialog open={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
+
             {!imageInfo ? (
                 // Centered intro section when no image is loaded
-                <div className="min-h-screen flex flex-col items-center justify-center px-4">
+                <div
+                    className={`drop-zone min-h-screen flex flex-col items-center justify-center px-4${isDragging ? ' dragging' : ''}`}
+                    {...dropZoneHandlers}
+                >
                     <div className="text-center">
                         <h1 className="text-4xl md:text-5xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4 pb-2 leading-tight">
                             Image Stretcher
@@ -348,6 +973,7 @@ export const ImageStretcher: React.FC = () => {
                             ref={fileInputRef}
                             onChange={handleFileUpload}
                             accept="image/*"
+                            multiple
                             className="hidden"
                         />
                         <button onClick={() => fileInputRef.current?.click()} className="upload-btn">
@@ -356,6 +982,32 @@ export const ImageStretcher: React.FC = () => {
                             </svg>
                             Open Image
                         </button>
+                        <p className="text-sm text-slate-500 dark:text-gray-400 mt-4">
+                            or drop an image here, paste one with Ctrl+V, or load it from a link
+                        </p>
+                        <p className="text-sm text-slate-500 dark:text-gray-400 mt-1">
+                            Press <kbd>O</kbd> to open an image, <kbd>?</kbd> for all keyboard shortcuts
+                        </p>
+                        <form
+                            className="url-form"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                openImage({ kind: 'url', url: imageUrlInput });
+                            }}
+                        >
+                            <input
+                                type="text"
+                                value={imageUrlInput}
+                                onChange={(e) => setImageUrlInput(e.target.value)}
+                                placeholder="https://… or data:image/…"
+                                aria-label="Image URL"
+                                className="number-input url-input"
+                            />
+                            <button type="submit" className="history-btn" disabled={!imageUrlInput.trim()}>
+                                Load
+                            </button>
+                        </form>
+                        {importError && <p className="field-error" role="alert">{importError}</p>}
                     </div>
                 </div>
             ) : (
@@ -366,50 +1018,88 @@ export const ImageStretcher: React.FC = () => {
                         <div className="flex-1 flex flex-col items-center justify-center p-4 order-1 lg:order-1">
                             <div className="image-container">
                                 {/* Hidden canvas for processing original image */}
-                                <canvas ref={originalCanvasRef} style={{ display: 'none' }} />
+                                <canvas key={imageInfo.colorSpace} ref={originalCanvasRef} style={{ display: 'none' }} />
 
                                 {/* Canvas wrapper */}
-                                <div className="canvas-wrapper">
-                                    <canvas
-                                        ref={canvasRef}
-                                        className="image-canvas"
-                                        title={imageInfo ? `Image: ${imageInfo.file.name}` : 'Upload an image to get started'}
-                                        style={{
-                                            border: '2px solid #333',
-                                            backgroundColor: 'white',
-                                            display: 'block',
-                                            maxWidth: '100%',
-                                            maxHeight: '100%',
-                                            width: 'auto',
-                                            height: 'auto'
-                                        }}
-                                    />
+                                <div
+                                    ref={canvasWrapperRef}
+                                    className={`canvas-wrapper drop-zone${isDragging ? ' dragging' : ''}${compareMode === 'side-by-side' ? ' side-by-side' : ''}${isPanReady ? ' pan-ready' : ''}${isPanning ? ' panning' : ''}`}
+                                    {...dropZoneHandlers}
+                                >
+                                    {compareMode === 'side-by-side' && originalCanvasProps && (
+                                        <div className="mask-stage">
+                                            <OriginalImageCanvas {...originalCanvasProps} className="image-canvas" style={CANVAS_STYLE} />
+                                            <span className="compare-label before">Before</span>
+                                        </div>
+                                    )}
+                                    <div className="mask-stage">
+                                        <canvas
+                                            key={imageInfo.colorSpace}
+                                            ref={canvasRef}
+                                            className="image-canvas"
+                                            role="img"
+                                            aria-label={`${isFullRenderPending ? 'Preview of the stretched' : 'Stretched'} image ${imageInfo.file.name}, ${angle !== null ? `${angle}° angle` : `direction ${direction}`}, start ${startingPixel}${resultSize ? `, ${resultSize.width} by ${resultSize.height} pixels` : ''}`}
+                                            title={imageInfo ? `Image: ${imageInfo.file.name} (drop or paste another image to replace it)` : 'Upload an image to get started'}
+                                            style={CANVAS_STYLE}
+                                        />
+                                        {compareOverlay}
+                                        <StartLineOverlay
+                                            settings={{ startingPixel, direction, angle }}
+                                            onStartChange={(nextStart) => updateSettings({ startingPixel: nextStart }, 'startingPixel')}
+                                            imageWidth={imageInfo.width}
+                                            imageHeight={imageInfo.height}
+                                            resultWidth={displayLayout?.resultWidth ?? imageInfo.width}
+                                            resultHeight={displayLayout?.resultHeight ?? imageInfo.height}
+                                            view={viewRect ?? { x: 0, y: 0, width: imageInfo.width, height: imageInfo.height }}
+                                        />
+                                        <SelectionMaskOverlay
+                                            mask={keepsImageSize ? selectionMask : null}
+                                            onMaskChange={setSelectionMask}
+                                            settings={keepsImageSize ? maskToolSettings : { ...maskToolSettings, tool: null }}
+                                            imageWidth={imageInfo.width}
+                                            imageHeight={imageInfo.height}
+                                            view={viewRect}
+                                        />
+                                        {compareMode === 'split' && !isHoldingOriginal && (
+                                            <>
+                                                <SplitDivider position={splitPosition} onChange={setSplitPosition} />
+                                                <span className="compare-label before">Before</span>
+                                                <span className="compare-label after">After</span>
+                                            </>
+                                        )}
+                                        {compareMode === 'side-by-side' && !isHoldingOriginal && <span className="compare-label after">After</span>}
+                                        {isHoldingOriginal && <span className="compare-label before">Original</span>}
+                                    </div>
                                 </div>
 
                                 {/* Horizontal slider (bottom) for left/right stretching */}
                                 <div className="horizontal-slider-container" style={{
-                                    visibility: direction === 'left' || direction === 'right' ? 'visible' : 'hidden'
+                                    visibility: angle === null && (direction === 'left' || direction === 'right') ? 'visible' : 'hidden'
                                 }}>
                                     <input
                                         type="range"
                                         min="0"
                                         max={imageInfo ? imageInfo.width - 1 : 100}
                                         value={startingPixel}
-                                        onChange={(e) => setStartingPixel(parseInt(e.target.value))}
+                                        onChange={(e) => updateSettings({ startingPixel: parseInt(e.target.value) }, 'startingPixel')}
+                                        aria-label="Start column"
+                                        aria-valuetext={`Column ${startingPixel} of ${imageInfo.width - 1}`}
                                         className="horizontal-slider"
                                     />
                                 </div>
 
                                 {/* Vertical slider (right) for up/down stretching */}
                                 <div className="vertical-slider-container" style={{
-                                    visibility: direction === 'up' || direction === 'down' ? 'visible' : 'hidden'
+                                    visibility: angle === null && (direction === 'up' || direction === 'down') ? 'visible' : 'hidden'
                                 }}>
                                     <input
                                         type="range"
                                         min="0"
                                         max={imageInfo ? imageInfo.height - 1 : 100}
                                         value={startingPixel}
-                                        onChange={(e) => setStartingPixel(parseInt(e.target.value))}
+                                        onChange={(e) => updateSettings({ startingPixel: parseInt(e.target.value) }, 'startingPixel')}
+                                        aria-label="Start row"
+                                        aria-valuetext={`Row ${startingPixel} of ${imageInfo.height - 1}`}
                                         className="vertical-slider"
                                     />
                                 </div>
@@ -423,6 +1113,41 @@ export const ImageStretcher: React.FC = () => {
                                     Controls
                                 </h3>
 
+                                {/* File details and colour space */}
+                                <ImageDetails
+                                    fileName={imageInfo.file.name}
+                                    metadata={imageInfo.metadata}
+                                    colorSpace={imageInfo.colorSpace}
+                                    onWideGamutChange={changeColorSpace}
+                                />
+
+                                {/* Layer Stack */}
+                                <StretchStackPanel
+                                    stack={stack}
+                                    onSelect={selectStep}
+                                    onAdd={() => applyToStack(addStep)}
+                                    onToggle={(id) => applyToStack(current => toggleStep(current, id))}
+                                    onMove={(id, offset) => applyToStack(current => moveStep(current, id, offset))}
+                                    onRemove={(id) => applyToStack(current => removeStep(current, id))}
+                                />
+
+                                {/* Named settings for the selected layer */}
+                                <PresetPanel
+                                    settings={getSelectedStep(stack).settings}
+                                    imageWidth={imageInfo.width}
+                                    imageHeight={imageInfo.height}
+                                    onApply={(settings) => updateSettings(settings)}
+                                />
+
+                                {/* Seeded random parameters */}
+                                <RandomControls
+                                    key={randomSeed}
+                                    seed={randomSeed}
+                                    onRandomize={randomize}
+                                    locks={randomLocks}
+                                    onLocksChange={setRandomLocks}
+                                />
+
                                 {/* Stretch Rate Control */}
                                 <div className="control-group">
                                     <label htmlFor="stretch-rate" className="control-label">
@@ -434,7 +1159,9 @@ export const ImageStretcher: React.FC = () => {
                                         min="1"
                                         max="13"
                                         value={stretchRate}
-                                        onChange={(e) => setStretchRate(parseInt(e.target.value))}
+                                        onChange={(e) => updateSettings({ stretchRate: parseInt(e.target.value) }, 'stretchRate')}
+                                        disabled={profile.type !== 'fibonacci'}
+                                        title={profile.type !== 'fibonacci' ? 'Stretch rate only applies to the Fibonacci profile' : undefined}
                                         className="slider"
                                     />
                                     <div className="flex justify-between text-xs text-slate-500 dark:text-gray-400 mt-1">
@@ -443,20 +1170,54 @@ export const ImageStretcher: React.FC = () => {
                                     </div>
                                 </div>
 
+                                {/* Stretch Profile Control */}
+                                <StretchProfileControls profile={profile} onChange={(nextProfile) => updateSettings({ profile: nextProfile }, 'profile')} />
+
+                                {/* Interpolation Mode Control */}
+                                <div className="control-group">
+                                    <label htmlFor="interpolation" className="control-label">
+                                        Interpolation
+                                    </label>
+                                    <select
+                                        id="interpolation"
+                                        value={interpolation}
+                                        onChange={(e) => updateSettings({ interpolation: e.target.value as InterpolationMode })}
+                                        className="select-input"
+                                    >
+                                        {INTERPOLATION_MODES.map(mode => (
+                                            <option key={mode} value={mode}>{INTERPOLATION_LABELS[mode]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {/* Alpha Blending Control */}
+                                <div className="control-group">
+                                    <label className="checkbox-label" title="Blend colours weighted by transparency to avoid dark fringes around transparent areas">
+                                        <input
+                                            type="checkbox"
+                                            checked={premultiplyAlpha}
+                                            onChange={(e) => updateSettings({ premultiplyAlpha: e.target.checked })}
+                                        />
+                                        Premultiplied alpha
+                                    </label>
+                                </div>
+
                                 {/* Direction Controls */}
                                 <div className="control-group">
-                                    <label className="control-label">Direction</label>
-                                    <div className="direction-controls">
+                                    <label id="direction-label" className="control-label">Direction</label>
+                                    <div className="direction-controls" role="radiogroup" aria-labelledby="direction-label">
                                         {/* Top row */}
                                         <div className="direction-row">
                                             <label className="radio-label direction-up">
                                                 <input
                                                     type="radio"
+                                                    name="direction"
                                                     value="up"
-                                                    checked={direction === 'up'}
-                                                    onChange={(e) => setDirection(e.target.value as 'up')}
+                                                    checked={angle === null && direction === 'up'}
+                                                    onChange={() => selectDirection('up')}
+                                                    aria-label="Up"
                                                 />
-                                                ↑
+                                                <span aria-hidden="true">↑</span>
                                             </label>
                                         </div>
 
@@ -465,26 +1226,30 @@ export const ImageStretcher: React.FC = () => {
                                             <label className="radio-label direction-left">
                                                 <input
                                                     type="radio"
+                                                    name="direction"
                                                     value="left"
-                                                    checked={direction === 'left'}
-                                                    onChange={(e) => setDirection(e.target.value as 'left')}
+                                                    checked={angle === null && direction === 'left'}
+                                                    onChange={() => selectDirection('left')}
+                                                    aria-label="Left"
                                                 />
-                                                ←
+                                                <span aria-hidden="true">←</span>
                                             </label>
 
                                             {/* Processing Spinner box - always visible */}
-                                            <div className="processing-spinner">
+                                            <div className="processing-spinner" aria-hidden="true">
                                                 {isProcessing && <div className="spinner"></div>}
                                             </div>
 
                                             <label className="radio-label direction-right">
                                                 <input
                                                     type="radio"
+                                                    name="direction"
                                                     value="right"
-                                                    checked={direction === 'right'}
-                                                    onChange={(e) => setDirection(e.target.value as 'right')}
+                                                    checked={angle === null && direction === 'right'}
+                                                    onChange={() => selectDirection('right')}
+                                                    aria-label="Right"
                                                 />
-                                                →
+                                                <span aria-hidden="true">→</span>
                                             </label>
                                         </div>
 
@@ -493,16 +1258,179 @@ export const ImageStretcher: React.FC = () => {
                                             <label className="radio-label direction-down">
                                                 <input
                                                     type="radio"
+                                                    name="direction"
                                                     value="down"
-                                                    checked={direction === 'down'}
-                                                    onChange={(e) => setDirection(e.target.value as 'down')}
+                                                    checked={angle === null && direction === 'down'}
+                                                    onChange={() => selectDirection('down')}
+                                                    aria-label="Down"
                                                 />
-                                                ↓
+                                                <span aria-hidden="true">↓</span>
                                             </label>
                                         </div>
                                     </div>
+
+                                    <label className="checkbox-label mt-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={angle !== null}
+                                            onChange={(e) => setAngleMode(e.target.checked)}
+                                        />
+                                        Any angle
+                                    </label>
+
+                                    {angle !== null && imageInfo && (
+                                        <>
+                                            <AngleDial
+                                                angle={angle}
+                                                onChange={(nextAngle) => updateSettings({
+                                                    angle: nextAngle,
+                                                    startingPixel: Math.min(startingPixel, getAngleAxisLength(nextAngle, imageInfo.width, imageInfo.height) - 1)
+                                                }, 'angle')}
+                                            />
+                                            <label htmlFor="start-line" className="control-label">
+                                                Start line: {startingPixel}
+                                            </label>
+                                            <input
+                                                id="start-line"
+                                                type="range"
+                                                min="0"
+                                                max={getAngleAxisLength(angle, imageInfo.width, imageInfo.height) - 1}
+                                                value={startingPixel}
+                                                onChange={(e) => updateSettings({ startingPixel: parseInt(e.target.value) }, 'startingPixel')}
+                                                className="slider"
+                                            />
+                                        </>
+                                    )}
+
+                                    {/* Worker progress for the current stretch job */}
+                                    <div
+                                        className="progress-track"
+                                        style={{ visibility: isProcessing ? 'visible' : 'hidden' }}
+                                        role="progressbar"
+                                        aria-label="Stretch progress"
+                                        aria-valuenow={progress}
+                                        aria-valuemin={0}
+                                        aria-valuemax={100}
+                                        aria-hidden={!isProcessing}
+                                    >
+                                        <div className="progress-bar" style={{ width: `${progress}%` }} />
+                                    </div>
+
+                                    {stretchError && <p className="field-error" role="alert">{stretchError}</p>}
                                 </div>
 
+                                {/* Output Size Control */}
+                                <OutputSizeControls
+                                    outputSize={outputSize}
+                                    onChange={(nextSize) => updateSettings({ outputSize: nextSize }, 'outputSize')}
+                                    angleMode={angle !== null}
+                                    resultSize={resultSize}
+                                    imageWidth={imageInfo.width}
+                                    imageHeight={imageInfo.height}
+                                />
+
+                                {/* Zoom and pan */}
+                                <ZoomControls
+                                    zoom={view.zoom}
+                                    pixelScale={displayLayout ? displayLayout.width / displayLayout.resultWidth : 1}
+                                    onZoomIn={() => zoomBy(ZOOM_STEP)}
+                                    onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+                                    onFit={fit}
+                                    onActualSize={actualSize}
+                                    isPanTool={isPanTool}
+                                    onPanToolChange={setIsPanTool}
+                                />
+
+                                {/* Before/after comparison */}
+                                <ComparisonControls mode={compareMode} onModeChange={setCompareMode} onHoldOriginal={setIsHoldingOriginal} />
+
+                                {/* Selection mask */}
+                                <SelectionMaskControls
+                                    disabledReason={keepsImageSize ? null : 'Selections need every pass to keep the original output size'}
+                                    mask={selectionMask}
+                                    onMaskChange={setSelectionMask}
+                                    settings={maskToolSettings}
+                                    onSettingsChange={(patch) => setMaskToolSettings(current => ({ ...current, ...patch }))}
+                                    imageWidth={imageInfo.width}
+                                    imageHeight={imageInfo.height}
+                                    fileName={imageInfo.file.name}
+                                />
+
+                                {/* History Controls */}
+                                <div className="control-group">
+                                    <label className="control-label">History</label>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={undo}
+                                            disabled={!canUndo}
+                                            className="history-btn flex-1"
+                                            title="Undo (Ctrl+Z)"
+                                        >
+                                            ↶ Undo
+                                        </button>
+                                        <button
+                                            onClick={redo}
+                                            disabled={!canRedo}
+                                            className="history-btn flex-1"
+                                            title="Redo (Ctrl+Shift+Z)"
+                                        >
+                                            Redo ↷
+                                        </button>
+                                    </div>
+                                    {historyEntries.length > 1 && (
+                                        <div className="history-strip">
+                                            {historyEntries.map((entry, index) => (
+                                                <button
+                                                    key={entry.timestamp + '-' + index}
+                                                    onClick={() => jumpTo(index)}
+                                                    className={`history-thumb${index === historyIndex ? ' active' : ''}`}
+                                                    title={`History step ${index + 1}: ${entry.stack.steps.filter(step => step.enabled).length} active layer(s)`}
+                                                >
+                                                    {entry.thumbnail
+                                                        ? <img src={entry.thumbnail} alt={`History step ${index + 1}`} />
+                                                        : <span>{index + 1}</span>}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Animated sweep export */}
+                                <SweepExportPanel
+                                    key={imageInfo.url}
+                                    stack={stack}
+                                    getSource={getSweepSource}
+                                    finishFrame={applyMask}
+                                    imageWidth={imageInfo.width}
+                                    imageHeight={imageInfo.height}
+                                    fileName={imageInfo.file.name}
+                                />
+
+                                {/* Apply the stretch to many images */}
+                                <BatchPanel
+                                    items={batchItems}
+                                    onItemsChange={setBatchItems}
+                                    stack={stack}
+                                    imageWidth={imageInfo.width}
+                                    imageHeight={imageInfo.height}
+                                    exportOptions={exportOptions}
+                                    colorSpace={imageInfo.colorSpace}
+                                />
+
+                                <SaveDialog
+                                    open={isSaveDialogOpen}
+                                    onClose={() => setIsSaveDialogOpen(false)}
+                                    options={exportOptions}
+                                    onOptionsChange={(patch) => setExportOptions(current => ({ ...current, ...patch }))}
+                                    getResult={() => (isFullRenderPending ? null : resultImageRef.current)}
+                                    colorSpace={imageInfo.colorSpace}
+                                    isRendering={isFullRenderPending}
+                                    stack={stack}
+                                    fileName={imageInfo.file.name}
+                                    imageWidth={imageInfo.width}
+                                    imageHeight={imageInfo.height}
+                                />
+
                                 {/* Horizontal Rule */}
                                 <hr className="border-gray-200 dark:border-gray-600 my-4" />
 
@@ -511,6 +1439,7 @@ export const ImageStretcher: React.FC = () => {
                                     <div className="flex gap-2">
                                         <button
                                             onClick={() => fileInputRef.current?.click()}
+                                            title="Open another image (O)"
                                             className="action-btn flex-1"
                                             style={{
                                                 background: 'linear-gradient(to right, rgb(100 116 139), rgb(71 85 105))',
@@ -522,6 +1451,7 @@ export const ImageStretcher: React.FC = () => {
 
                                         <button
                                             onClick={downloadImage}
+                                            title="Save (S)"
                                             className="action-btn flex-1"
                                             style={{
                                                 background: 'linear-gradient(to right, rgb(59 130 246), rgb(37 99 235))',
@@ -529,15 +1459,22 @@ export const ImageStretcher: React.FC = () => {
                                             }}
                                         >
                                             Save
-                                            <img src="/downloadIcon.svg" alt="Download" className="w-4 h-4 ml-2 inline" />
+                                            <img src="/downloadIcon.svg" alt="" className="w-4 h-4 ml-2 inline" />
                                         </button>
                                     </div>
 
+                                    <button onClick={() => setIsHelpOpen(true)} className="history-btn w-full mt-2" aria-haspopup="dialog">
+                                        Keyboard shortcuts (?)
+                                    </button>
+
+                                    {importError && <p className="field-error" role="alert">{importError}</p>}
+
                                     <input
                                         type="file"
                                         ref={fileInputRef}
                                         onChange={handleFileUpload}
                                         accept="image/*"
+                                        multiple
                                         className="hidden"
                                     />
                                 </div>
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import {
+    createDefaultOutputSize,
+    formatOutputSize,
+    MAX_OUTPUT_LENGTH,
+    OUTPUT_SIZE_LABELS,
+    OUTPUT_SIZE_MODES,
+    parseOutputSize,
+    type OutputSize,
+    type OutputSizeMode
+} from '../utils/outputSize';
+
+interface OutputSizeControlsProps {
+    outputSize: OutputSize;
+    onChange: (outputSize: OutputSize) => void;
+    /** Angle mode always keeps the original size */
+    angleMode: boolean;
+    /** Size of the last render, shown so the user knows what Save will download */
+    resultSize: { width: number; height: number } | null;
+    imageWidth: number;
+    imageHeight: number;
+}
+
+// Text shown in the length / aspect field for a size
+function getFieldText(outputSize: OutputSize): string {
+    const spec = formatOutputSize(outputSize);
+    return spec.slice(spec.indexOf(':') + 1);
+}
+
+/**
+ * Output size selector. Length and aspect values are typed as text so that ratios like 16:9
+ * work; invalid drafts stay local and show their validation error inline.
+ */
+export const OutputSizeControls: React.FC<OutputSizeControlsProps> = ({ outputSize, onChange, angleMode, resultSize, imageWidth, imageHeight }) => {
+    const [fieldText, setFieldText] = useState(getFieldText(outputSize));
+    const [syncedSize, setSyncedSize] = useState<OutputSize>(outputSize);
+    const [error, setError] = useState<string | null>(null);
+
+    // Adopt sizes set from outside (e.g. undo or a shared link) without an effect round-trip
+    if (outputSize !== syncedSize) {
+        setSyncedSize(outputSize);
+        setFieldText(getFieldText(outputSize));
+        setError(null);
+    }
+
+    const handleModeChange = (mode: OutputSizeMode) => {
+        const nextSize = createDefaultOutputSize(mode, imageWidth, imageHeight);
+        setError(null);
+        setFieldText(getFieldText(nextSize));
+        setSyncedSize(nextSize);
+        onChange(nextSize);
+    };
+
+    const handleFieldChange = (text: string) => {
+        setFieldText(text);
+        try {
+            const nextSize = parseOutputSize(`${outputSize.mode}:${text}`);
+            setError(null);
+            setSyncedSize(nextSize);
+            onChange(nextSize);
+        } catch (parseError) {
+            setError(parseError instanceof Error ? parseError.message : String(parseError));
+        }
+    };
+
+    return (
+        <div className="control-group">
+            <label htmlFor="output-size" className="control-label">
+                Output Size
+            </label>
+            <select
+                id="output-size"
+                value={outputSize.mode}
+                onChange={(e) => handleModeChange(e.target.value as OutputSizeMode)}
+                disabled={angleMode}
+                title={angleMode ? 'Angle mode always keeps the original size' : undefined}
+                className="select-input"
+            >
+                {OUTPUT_SIZE_MODES.map(mode => (
+                    <option key={mode} value={mode}>{OUTPUT_SIZE_LABELS[mode]}</option>
+                ))}
+            </select>
+
+            {!angleMode && (outputSize.mode === 'length' || outputSize.mode === 'aspect') && (
+                <div className="profile-fields">
+                    <label className="profile-field">
+                        <span>{outputSize.mode === 'length' ? `Length (1-${MAX_OUTPUT_LENGTH}px)` : 'Width:height'}</span>
+                        <input
+                            type="text"
+                            inputMode={outputSize.mode === 'length' ? 'numeric' : 'decimal'}
+                            value={fieldText}
+                            onChange={(e) => handleFieldChange(e.target.value)}
+                            placeholder={outputSize.mode === 'length' ? '1920' : '16:9'}
+                            className="number-input"
+                        />
+                    </label>
+                </div>
+            )}
+
+            {resultSize && (
+                <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">
+                    Result: {resultSize.width}×{resultSize.height}px
+                </p>
+            )}
+
+            {error && <p className="field-error" role="alert">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { downloadBlob } from '../utils/download';
+import {
+    BUILT_IN_PRESETS,
+    createPreset,
+    getPresetSettings,
+    isBuiltInPreset,
+    loadSavedPresets,
+    mergePresets,
+    parsePresets,
+    PresetError,
+    serializePresets,
+    storePresets,
+    type StretchPreset
+} from '../utils/presets';
+import type { StretchSettings } from '../utils/stretchSettings';
+import './PresetPanel.css';
+
+interface PresetPanelProps {
+    /** Settings of the selected layer, which presets are saved from and applied to */
+    settings: StretchSettings;
+    imageWidth: number;
+    imageHeight: number;
+    onApply: (settings: StretchSettings) => void;
+}
+
+const PRESET_FILE_NAME = 'image-stretcher-presets.json';
+
+function describePresetError(error: unknown): string {
+    if (error instanceof PresetError) return error.message;
+    console.error('Unexpected preset error:', error);
+    return 'Something went wrong with the presets';
+}
+
+/**
+ * Built-in looks plus the user's own presets, kept in localStorage and shared as JSON files
+ */
+export const PresetPanel: React.FC<PresetPanelProps> = ({ settings, imageWidth, imageHeight, onApply }) => {
+    const [savedPresets, setSavedPresets] = useState<StretchPreset[]>(() => loadSavedPresets());
+    const [selectedName, setSelectedName] = useState(BUILT_IN_PRESETS[0].name);
+    const [newName, setNewName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const selected = [...BUILT_IN_PRESETS, ...savedPresets].find(preset => preset.name === selectedName) ?? null;
+
+    const report = (message: string | null, problem: string | null = null) => {
+        setStatus(message);
+        setError(problem);
+    };
+
+    const updateSaved = (presets: StretchPreset[]): boolean => {
+        setSavedPresets(presets);
+        if (!storePresets(presets)) {
+            report(null, 'Presets could not be stored in this browser; export them to keep them');
+            return false;
+        }
+        return true;
+    };
+
+    const applySelected = () => {
+        if (!selected) return;
+        console.log('Applying preset:', selected.name);
+        onApply(getPresetSettings(selected, imageWidth, imageHeight));
+        report(null);
+    };
+
+    const saveCurrent = () => {
+        try {
+            const preset = createPreset(newName, settings, imageWidth, imageHeight);
+            const replaces = savedPresets.some(existing => existing.name.toLowerCase() === preset.name.toLowerCase());
+            if (updateSaved(mergePresets(savedPresets, [preset]))) {
+                report(replaces ? `Replaced "${preset.name}"` : `Saved "${preset.name}"`);
+            }
+            setSelectedName(preset.name);
+            setNewName('');
+        } catch (saveError) {
+            report(null, describePresetError(saveError));
+        }
+    };
+
+    const deleteSelected = () => {
+        if (!selected || isBuiltInPreset(selected.name)) return;
+        if (updateSaved(savedPresets.filter(preset => preset !== selected))) {
+            report(`Deleted "${selected.name}"`);
+        }
+        setSelectedName(BUILT_IN_PRESETS[0].name);
+    };
+
+    const exportSaved = () => {
+        downloadBlob(new Blob([serializePresets(savedPresets)], { type: 'application/json' }), PRESET_FILE_NAME);
+        report(`Exported ${savedPresets.length} preset${savedPresets.length === 1 ? '' : 's'}`);
+    };
+
+    const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            const imported = parsePresets(await file.text());
+            // Built-in looks can't be redefined, so presets named after them are left out
+            const accepted = imported.filter(preset => !isBuiltInPreset(preset.name));
+            const skipped = imported.length - accepted.length;
+            if (updateSaved(mergePresets(savedPresets, accepted))) {
+                report(`Imported ${accepted.length} preset${accepted.length === 1 ? '' : 's'}`
+                    + (skipped > 0 ? `; ${skipped} named after a built-in preset ${skipped === 1 ? 'was' : 'were'} skipped` : ''));
+            }
+            console.log('Imported presets:', { file: file.name, imported: accepted.length, skipped });
+        } catch (importError) {
+            report(null, `"${file.name}" could not be imported: ${describePresetError(importError)}`);
+        }
+    };
+
+    return (
+        <details className="control-group preset-panel">
+            <summary className="control-label">Presets</summary>
+
+            <div className="preset-row">
+                <select
+                    value={selectedName}
+                    onChange={(e) => setSelectedName(e.target.value)}
+                    className="select-input"
+                    aria-label="Preset"
+                >
+                    <optgroup label="Built-in">
+                        {BUILT_IN_PRESETS.map(preset => (
+                            <option key={preset.name} value={preset.name}>{preset.name}</option>
+                        ))}
+                    </optgroup>
+                    {savedPresets.length > 0 && (
+                        <optgroup label="Saved">
+                            {savedPresets.map(preset => (
+                                <option key={preset.name} value={preset.name}>{preset.name}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+                <button onClick={applySelected} disabled={!selected} className="history-btn">
+                    Apply
+                </button>
+                <button
+                    onClick={deleteSelected}
+                    disabled={!selected || isBuiltInPreset(selected.name)}
+                    className="history-btn"
+                    title="Built-in presets can't be deleted"
+                >
+                    Delete
+                </button>
+            </div>
+
+            <form
+                className="preset-row"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    saveCurrent();
+                }}
+            >
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="Preset name"
+                    aria-label="New preset name"
+                    className="number-input"
+                />
+                <button type="submit" className="history-btn" title="Save the selected layer's settings; replaces a saved preset with the same name">
+                    Save
+                </button>
+            </form>
+
+            <div className="preset-row">
+                <button onClick={exportSaved} disabled={savedPresets.length === 0} className="history-btn flex-1">
+                    Export
+                </button>
+                <button onClick={() => importInputRef.current?.click()} className="history-btn flex-1">
+                    Import
+                </button>
+            </div>
+            <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={importFile}
+                style={{ display: 'none' }}
+            />
+
+            {status && <p className="preset-status" role="status">{status}</p>}
+            {error && <p className="field-error" role="alert">{error}</p>}
+        </details>
+    );
+};
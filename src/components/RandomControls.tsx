@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { MAX_SEED, parseSeed, RANDOM_PARAMETER_LABELS, RANDOM_PARAMETERS, type RandomLocks } from '../utils/randomize';
+import './RandomControls.css';
+
+interface RandomControlsProps {
+    /** Seed of the last roll, shown so the result can be reproduced */
+    seed: number;
+    /** Roll with the given seed, or a fresh one */
+    onRandomize: (seed?: number) => void;
+    locks: RandomLocks;
+    onLocksChange: (locks: RandomLocks) => void;
+}
+
+/**
+ * Random parameters from an editable seed, with locks for the parameters to keep.
+ * Remount (key on the seed) to show a new seed in the field.
+ */
+export const RandomControls: React.FC<RandomControlsProps> = ({ seed, onRandomize, locks, onLocksChange }) => {
+    const [seedText, setSeedText] = useState(String(seed));
+    const [error, setError] = useState<string | null>(null);
+    const allLocked = RANDOM_PARAMETERS.every(parameter => locks[parameter]);
+
+    const applySeed = () => {
+        const parsed = parseSeed(seedText);
+        if (parsed === null) {
+            setError(`The seed must be a whole number from 0 to ${MAX_SEED}`);
+            return;
+        }
+        setError(null);
+        onRandomize(parsed);
+    };
+
+    return (
+        <div className="control-group random-controls">
+            <label className="control-label">Random</label>
+
+            <button
+                onClick={() => onRandomize()}
+                disabled={allLocked}
+                className="history-btn w-full"
+                title={allLocked ? 'Unlock a parameter to randomize it' : 'Random direction, rate and start (R)'}
+            >
+                🎲 Random
+            </button>
+
+            <form
+                className="random-seed"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    applySeed();
+                }}
+            >
+                <label htmlFor="random-seed">Seed</label>
+                <input
+                    id="random-seed"
+                    type="text"
+                    inputMode="numeric"
+                    value={seedText}
+                    onChange={(e) => setSeedText(e.target.value)}
+                    className="number-input"
+                    spellCheck={false}
+                />
+                <button type="submit" disabled={allLocked} className="history-btn" title="Roll again with this seed">
+                    Use
+                </button>
+            </form>
+
+            <div className="random-locks" role="group" aria-label="Keep when randomizing">
+                <span>Lock:</span>
+                {RANDOM_PARAMETERS.map(parameter => (
+                    <label key={parameter} className="checkbox-label">
+                        <input
+                            type="checkbox"
+                            checked={locks[parameter]}
+                            onChange={(e) => onLocksChange({ ...locks, [parameter]: e.target.checked })}
+                        />
+                        {RANDOM_PARAMETER_LABELS[parameter]}
+                    </label>
+                ))}
+            </div>
+
+            {error && <p className="field-error" role="alert">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadBlob } from '../utils/download';
+import {
+    EXPORT_FORMAT_LABELS,
+    EXPORT_FORMATS,
+    FILENAME_FIELDS,
+    embedPngText,
+    encodeImage,
+    formatFileName,
+    getFileNameValues,
+    type ExportFormat,
+    type ExportOptions
+} from '../utils/imageExport';
+import type { RawImageData } from '../utils/imageStretching';
+import { STRETCH_SETTINGS_KEYWORD } from '../utils/pngText';
+import { getSelectedStep, type StretchStack } from '../utils/stretchStack';
+import { encodeStackHash } from '../utils/urlState';
+import './SaveDialog.css';
+
+interface SaveDialogProps {
+    open: boolean;
+    onClose: () => void;
+    options: ExportOptions;
+    onOptionsChange: (patch: Partial<ExportOptions>) => void;
+    /** Full-resolution result of the last render, or null while it is being rendered */
+    getResult: () => RawImageData | null;
+    /** Space the result's pixels are in; Display P3 results are saved with that profile */
+    colorSpace: PredefinedColorSpace;
+    /** The full-resolution render for the current settings hasn't finished yet */
+    isRendering: boolean;
+    stack: StretchStack;
+    fileName: string;
+    imageWidth: number;
+    imageHeight: number;
+}
+
+/**
+ * Modal for saving the result: format, quality, file name template and embedded settings
+ */
+export const SaveDialog: React.FC<SaveDialogProps> = ({
+    open,
+    onClose,
+    options,
+    onOptionsChange,
+    getResult,
+    colorSpace,
+    isRendering,
+    stack,
+    fileName,
+    imageWidth,
+    imageHeight
+}) => {
+    const dialogRef = useRef<HTMLDialogElement>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const dialog = dialogRef.current;
+        if (!dialog) return;
+
+        if (open && !dialog.open) {
+            setError(null);
+            dialog.showModal();
+        } else if (!open && dialog.open) {
+            dialog.close();
+        }
+    }, [open]);
+
+    const result = open ? getResult() : null;
+    const outputName = formatFileName(
+        options.fileNameTemplate,
+        getFileNameValues(fileName, getSelectedStep(stack).settings, result?.width ?? imageWidth, result?.height ?? imageHeight),
+        options.format
+    );
+
+    const save = async () => {
+        const image = getResult();
+        if (!image) return;
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            let blob = await encodeImage(image, options.format, options.quality, colorSpace);
+            if (options.format === 'png' && options.embedSettings) {
+                // Relative to the source size, like a shared link, so the settings fit any re-opened copy
+                blob = await embedPngText(blob, STRETCH_SETTINGS_KEYWORD, encodeStackHash(stack, imageWidth, imageHeight));
+            }
+            console.log('Saving stretched image:', { name: outputName, size: blob.size, type: blob.type, width: image.width, height: image.height });
+            downloadBlob(blob, outputName);
+            onClose();
+        } catch (saveError) {
+            console.error('Saving failed:', saveError);
+            setError(saveError instanceof Error ? saveError.message : String(saveError));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <dialog ref={dialogRef} className="save-dialog" onClose={onClose} aria-labelledby="save-dialog-title">
+            <h2 id="save-dialog-title" className="save-dialog-title">Save image</h2>
+
+            <div className="save-fields">
+                <label className="save-field">
+                    <span>Format</span>
+                    <select
+                        value={options.format}
+                        onChange={(e) => onOptionsChange({ format: e.target.value as ExportFormat })}
+                        className="select-input"
+                    >
+                        {EXPORT_FORMATS.map(format => (
+                            <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className="save-field">
+                    <span>Quality: {Math.round(options.quality * 100)}%</span>
+                    <input
+                        type="range"
+                        min="10"
+                        max="100"
+                        value={Math.round(options.quality * 100)}
+                        onChange={(e) => onOptionsChange({ quality: parseInt(e.target.value) / 100 })}
+                        disabled={options.format === 'png'}
+                        title={options.format === 'png' ? 'PNG is always lossless' : undefined}
+                        className="slider"
+                    />
+                </label>
+
+                <label className="save-field">
+                    <span>File name</span>
+                    <input
+                        type="text"
+                        value={options.fileNameTemplate}
+                        onChange={(e) => onOptionsChange({ fileNameTemplate: e.target.value })}
+                        className="number-input"
+                        spellCheck={false}
+                    />
+                </label>
+                <p className="save-hint">
+                    Placeholders: {FILENAME_FIELDS.map(field => `{${field}}`).join(' ')}
+                </p>
+                <p className="save-preview" title={outputName}>{outputName}</p>
+
+                <label className="checkbox-label" title={options.format === 'png' ? undefined : 'Only PNG files can carry the settings'}>
+                    <input
+                        type="checkbox"
+                        checked={options.format === 'png' && options.embedSettings}
+                        disabled={options.format !== 'png'}
+                        onChange={(e) => onOptionsChange({ embedSettings: e.target.checked })}
+                    />
+                    Embed settings (re-open the file to restore them)
+                </label>
+            </div>
+
+            {error && <p className="field-error" role="alert">{error}</p>}
+
+            <div className="flex gap-2 mt-4">
+                <button onClick={onClose} className="history-btn flex-1">
+                    Cancel
+                </button>
+                <button onClick={save} disabled={isSaving || !result} className="history-btn flex-1">
+                    {isSaving ? 'Saving…' : isRendering ? 'Rendering…' : 'Save'}
+                </button>
+            </div>
+        </dialog>
+    );
+};
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { downloadBlob, getBaseName } from '../utils/download';
+import { ImageImportError, validateImageFile } from '../utils/imageImport';
+import {
+    createEmptyMask,
+    invertMask,
+    MASK_TOOL_LABELS,
+    MASK_TOOLS,
+    MAX_MASK_FEATHER,
+    maskFromImage,
+    maskToImage,
+    type MaskToolSettings,
+    type SelectionMask
+} from '../utils/selectionMask';
+import './SelectionMask.css';
+
+const MAX_BRUSH_RADIUS = 200;
+
+interface SelectionMaskControlsProps {
+    /** Why the selection can't be used right now, or null when it can */
+    disabledReason: string | null;
+    mask: SelectionMask | null;
+    onMaskChange: (mask: SelectionMask | null) => void;
+    settings: MaskToolSettings;
+    onSettingsChange: (patch: Partial<MaskToolSettings>) => void;
+    imageWidth: number;
+    imageHeight: number;
+    fileName: string;
+}
+
+// Decode an image file and scale it to the open image, since masks are per pixel
+function loadMaskFile(file: File, width: number, height: number): Promise<SelectionMask> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            if (img.width !== width || img.height !== height) {
+                console.warn(`Mask is ${img.width}x${img.height}, scaling it to the image size ${width}x${height}`);
+            }
+
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d')!;
+            ctx.drawImage(img, 0, 0, width, height);
+            resolve(maskFromImage(ctx.getImageData(0, 0, width, height)));
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new ImageImportError(`"${file.name}" could not be decoded as an image`));
+        };
+        img.src = url;
+    });
+}
+
+/**
+ * Selection tools for limiting the stretch to part of the image, plus mask PNG import/export.
+ * Drawing itself happens on the canvas, in SelectionMaskOverlay.
+ */
+export const SelectionMaskControls: React.FC<SelectionMaskControlsProps> = ({
+    disabledReason,
+    mask,
+    onMaskChange,
+    settings,
+    onSettingsChange,
+    imageWidth,
+    imageHeight,
+    fileName
+}) => {
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const exportMask = () => {
+        if (!mask) return;
+
+        const image = maskToImage(mask);
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width;
+        canvas.height = image.height;
+        canvas.getContext('2d')!.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+        canvas.toBlob((blob) => {
+            if (blob) {
+                downloadBlob(blob, `${getBaseName(fileName)}_mask.png`);
+            } else {
+                setError('Could not encode the mask as PNG');
+            }
+        }, 'image/png');
+    };
+
+    const importMask = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        try {
+            validateImageFile(file);
+            const imported = await loadMaskFile(file, imageWidth, imageHeight);
+            console.log('Imported selection mask:', { name: file.name, width: imported.width, height: imported.height });
+            onMaskChange(imported);
+        } catch (importError) {
+            console.error('Mask import failed:', importError);
+            setError(importError instanceof Error ? importError.message : String(importError));
+        }
+    };
+
+    return (
+        <div className="control-group">
+            <label className="control-label">Selection</label>
+
+            {disabledReason && <p className="text-xs text-slate-500 dark:text-gray-400">{disabledReason}</p>}
+
+            <div className="mask-tools" role="group" aria-label="Selection tool">
+                {MASK_TOOLS.map(tool => (
+                    <button
+                        key={tool}
+                        onClick={() => onSettingsChange({ tool: settings.tool === tool ? null : tool })}
+                        disabled={disabledReason !== null}
+                        className={`history-btn flex-1${settings.tool === tool ? ' active' : ''}`}
+                        aria-pressed={settings.tool === tool}
+                    >
+                        {MASK_TOOL_LABELS[tool]}
+                    </button>
+                ))}
+            </div>
+
+            <div className="mask-fields">
+                <label className="checkbox-label" title="Hold Alt while drawing to switch temporarily">
+                    <input type="checkbox" checked={settings.erase} onChange={(e) => onSettingsChange({ erase: e.target.checked })} />
+                    Erase
+                </label>
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={settings.showMask} onChange={(e) => onSettingsChange({ showMask: e.target.checked })} />
+                    Show mask
+                </label>
+
+                {settings.tool === 'brush' && (
+                    <label className="mask-field">
+                        <span>Brush: {settings.brushRadius}px</span>
+                        <input
+                            type="range"
+                            min="1"
+                            max={MAX_BRUSH_RADIUS}
+                            value={settings.brushRadius}
+                            onChange={(e) => onSettingsChange({ brushRadius: parseInt(e.target.value) })}
+                            className="slider"
+                        />
+                    </label>
+                )}
+
+                <label className="mask-field">
+                    <span>Feather: {settings.feather}px</span>
+                    <input
+                        type="range"
+                        min="0"
+                        max={MAX_MASK_FEATHER}
+                        value={settings.feather}
+                        onChange={(e) => onSettingsChange({ feather: parseInt(e.target.value) })}
+                        className="slider"
+                    />
+                </label>
+            </div>
+
+            <div className="mask-tools">
+                <button
+                    onClick={() => onMaskChange(mask ? invertMask(mask) : createEmptyMask(imageWidth, imageHeight))}
+                    className="history-btn flex-1"
+                    title="Swap selected and unselected areas"
+                >
+                    Invert
+                </button>
+                <button onClick={() => onMaskChange(null)} disabled={!mask} className="history-btn flex-1" title="Stretch the whole image again">
+                    Clear
+                </button>
+            </div>
+            <div className="mask-tools">
+                <button onClick={exportMask} disabled={!mask} className="history-btn flex-1">
+                    Save mask
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} className="history-btn flex-1">
+                    Load mask
+                </button>
+                <input ref={fileInputRef} type="file" accept="image/*" onChange={importMask} style={{ display: 'none' }} />
+            </div>
+
+            {error && <p className="field-error" role="alert">{error}</p>}
+        </div>
+    );
+};
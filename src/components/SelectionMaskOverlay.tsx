@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+    cloneMask,
+    createEmptyMask,
+    fillMaskPolygon,
+    fillMaskRect,
+    paintMaskStroke,
+    type MaskPoint,
+    type MaskTool,
+    type MaskToolSettings,
+    type SelectionMask
+} from '../utils/selectionMask';
+import type { ViewRect } from '../utils/viewport';
+import './SelectionMask.css';
+
+interface SelectionMaskOverlayProps {
+    mask: SelectionMask | null;
+    onMaskChange: (mask: SelectionMask) => void;
+    settings: MaskToolSettings;
+    imageWidth: number;
+    imageHeight: number;
+    /** Zoomed-in part of the image on screen, or null for all of it */
+    view: ViewRect | null;
+}
+
+// Shape being drawn, in image pixels; it only becomes part of the mask on pointer up
+interface MaskDraft {
+    tool: MaskTool;
+    erase: boolean;
+    points: MaskPoint[];
+}
+
+const TINT_RGB = [59, 130, 246];
+const TINT_OPACITY = 0.45;
+const ADD_COLOR = `rgba(${TINT_RGB.join(', ')}, ${TINT_OPACITY})`;
+const ERASE_COLOR = `rgba(239, 68, 68, ${TINT_OPACITY})`;
+
+// Full-resolution tint of the mask, scaled onto the overlay on every redraw
+function createTintCanvas(mask: SelectionMask): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const ctx = canvas.getContext('2d')!;
+    const tint = ctx.createImageData(mask.width, mask.height);
+    for (let i = 0; i < mask.data.length; i++) {
+        tint.data[i * 4] = TINT_RGB[0];
+        tint.data[i * 4 + 1] = TINT_RGB[1];
+        tint.data[i * 4 + 2] = TINT_RGB[2];
+        tint.data[i * 4 + 3] = mask.data[i] * TINT_OPACITY;
+    }
+    ctx.putImageData(tint, 0, 0);
+    return canvas;
+}
+
+function commitDraft(mask: SelectionMask | null, draft: MaskDraft, radius: number, width: number, height: number): SelectionMask {
+    let next: SelectionMask;
+    if (mask) {
+        next = cloneMask(mask);
+    } else {
+        // No mask means everything is stretched, so erasing starts from a full selection
+        next = createEmptyMask(width, height);
+        if (draft.erase) next.data.fill(255);
+    }
+
+    const value = draft.erase ? 0 : 255;
+    const { points } = draft;
+    switch (draft.tool) {
+        case 'rectangle': {
+            const start = points[0];
+            const end = points[points.length - 1];
+            fillMaskRect(next, { x: start.x, y: start.y, width: end.x - start.x, height: end.y - start.y }, value);
+            break;
+        }
+        case 'lasso':
+            fillMaskPolygon(next, points, value);
+            break;
+        case 'brush':
+            for (let i = 0; i < points.length; i++) {
+                paintMaskStroke(next, points[Math.max(0, i - 1)], points[i], radius, value);
+            }
+            break;
+    }
+    return next;
+}
+
+/**
+ * Transparent canvas laid over the image: shows the mask while a selection tool is active
+ * and turns pointer drags into rectangle, lasso or brush edits
+ */
+export const SelectionMaskOverlay: React.FC<SelectionMaskOverlayProps> = ({ mask, onMaskChange, settings, imageWidth, imageHeight, view }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const draftRef = useRef<MaskDraft | null>(null);
+
+    const showTint = settings.tool !== null && settings.showMask;
+    const tintCanvas = useMemo(() => (mask && showTint ? createTintCanvas(mask) : null), [mask, showTint]);
+
+    const redraw = useCallback(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        // Draw at the on-screen size; the tint is scaled down from the full-resolution mask
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
+        const visible = view ?? { x: 0, y: 0, width: imageWidth, height: imageHeight };
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+        }
+
+        const ctx = canvas.getContext('2d')!;
+        ctx.clearRect(0, 0, width, height);
+        if (tintCanvas) {
+            ctx.drawImage(tintCanvas, visible.x, visible.y, visible.width, visible.height, 0, 0, width, height);
+        }
+
+        const draft = draftRef.current;
+        if (!draft) return;
+
+        const scaleX = width / visible.width;
+        const scaleY = height / visible.height;
+        const points = draft.points.map(point => ({ x: (point.x - visible.x) * scaleX, y: (point.y - visible.y) * scaleY }));
+        const color = draft.erase ? ERASE_COLOR : ADD_COLOR;
+
+        ctx.fillStyle = color;
+        ctx.strokeStyle = color;
+        switch (draft.tool) {
+            case 'rectangle': {
+                const start = points[0];
+                const end = points[points.length - 1];
+                ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+                break;
+            }
+            case 'lasso':
+                ctx.beginPath();
+                points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+                ctx.closePath();
+                ctx.fill();
+                break;
+            case 'brush':
+                ctx.lineWidth = settings.brushRadius * 2 * scaleX;
+                ctx.lineCap = 'round';
+                ctx.lineJoin = 'round';
+                ctx.beginPath();
+                points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+                // A single click still paints a dot
+                if (points.length === 1) ctx.lineTo(points[0].x, points[0].y);
+                ctx.stroke();
+                break;
+        }
+    }, [tintCanvas, imageWidth, imageHeight, view, settings.brushRadius]);
+
+    useEffect(() => {
+        redraw();
+    }, [redraw]);
+
+    // The image canvas is resized after every render and with the window
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        const observer = new ResizeObserver(() => redraw());
+        observer.observe(canvas);
+        return () => observer.disconnect();
+    }, [redraw]);
+
+    const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>): MaskPoint => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const visible = view ?? { x: 0, y: 0, width: imageWidth, height: imageHeight };
+        return {
+            x: visible.x + ((event.clientX - rect.left) / rect.width) * visible.width,
+            y: visible.y + ((event.clientY - rect.top) / rect.height) * visible.height
+        };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!settings.tool || event.button !== 0) return;
+
+        event.currentTarget.setPointerCapture(event.pointerId);
+        draftRef.current = { tool: settings.tool, erase: settings.erase !== event.altKey, points: [toImagePoint(event)] };
+        redraw();
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const draft = draftRef.current;
+        if (!draft) return;
+
+        const point = toImagePoint(event);
+        draft.points = draft.tool === 'rectangle' ? [draft.points[0], point] : [...draft.points, point];
+        redraw();
+    };
+
+    const handlePointerUp = () => {
+        const draft = draftRef.current;
+        if (!draft) return;
+
+        draftRef.current = null;
+        console.log('Applying selection edit:', { tool: draft.tool, erase: draft.erase, points: draft.points.length });
+        onMaskChange(commitDraft(mask, draft, settings.brushRadius, imageWidth, imageHeight));
+        redraw();
+    };
+
+    const handlePointerCancel = () => {
+        draftRef.current = null;
+        redraw();
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            className={`mask-overlay${settings.tool ? ' drawing' : ''}`}
+            aria-hidden="true"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
+        />
+    );
+};
@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+import { KEYBOARD_SHORTCUTS } from '../utils/keyboardShortcuts';
+import './ShortcutHelpDialog.css';
+
+interface ShortcutHelpDialogProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Modal listing the keyboard shortcuts; Escape or the button closes it
+ */
+export const ShortcutHelpDialog: React.FC<ShortcutHelpDialogProps> = ({ open, onClose }) => {
+    const dialogRef = useRef<HTMLDialogElement>(null);
+
+    useEffect(() => {
+        const dialog = dialogRef.current;
+        if (!dialog) return;
+
+        if (open && !dialog.open) {
+            dialog.showModal();
+        } else if (!open && dialog.open) {
+            dialog.close();
+        }
+    }, [open]);
+
+    return (
+        <dialog ref={dialogRef} className="help-dialog" onClose={onClose} aria-labelledby="help-dialog-title">
+            <h2 id="help-dialog-title" className="help-dialog-title">Keyboard shortcuts</h2>
+
+            <dl className="shortcut-list">
+                {KEYBOARD_SHORTCUTS.map(shortcut => (
+                    <div key={shortcut.description} className="shortcut-item">
+                        <dt>
+                            {shortcut.keys.map(key => <kbd key={key}>{key}</kbd>)}
+                        </dt>
+                        <dd>{shortcut.description}</dd>
+                    </div>
+                ))}
+            </dl>
+
+            <p className="help-dialog-note">Arrow keys adjust a focused slider or option instead.</p>
+
+            <button onClick={onClose} className="history-btn w-full mt-4">
+                Close
+            </button>
+        </dialog>
+    );
+};
@@ -0,0 +1,97 @@
+import React, { useRef } from 'react';
+import { getImageOffset, getStartFromPoint, getStartLine, type StretchSettings } from '../utils/stretchSettings';
+import type { ViewRect } from '../utils/viewport';
+import './StartLineOverlay.css';
+
+interface StartLineOverlayProps {
+    settings: Pick<StretchSettings, 'startingPixel' | 'direction' | 'angle'>;
+    onStartChange: (startingPixel: number) => void;
+    imageWidth: number;
+    imageHeight: number;
+    /** Size of the displayed result, which differs from the image when the output is resized */
+    resultWidth: number;
+    resultHeight: number;
+    /** Zoomed-in part of the result on screen */
+    view: ViewRect;
+}
+
+/**
+ * Guide laid over the image showing the start line and an arrow for the way the stretch
+ * flows; clicking or dragging moves the start line to the pointer. Drawn in result pixels,
+ * so it scales and pans with the canvas like the image does.
+ */
+export const StartLineOverlay: React.FC<StartLineOverlayProps> = ({ settings, onStartChange, imageWidth, imageHeight, resultWidth, resultHeight, view }) => {
+    const draggingRef = useRef(false);
+    const offset = getImageOffset(settings, imageWidth, imageHeight, resultWidth, resultHeight);
+
+    // Pixel centres sit at whole image coordinates, so the line goes through the middle of its pixels
+    const line = getStartLine(settings, imageWidth, imageHeight);
+    const centerX = line.x + offset.x + 0.5;
+    const centerY = line.y + offset.y + 0.5;
+    const reach = resultWidth + resultHeight;
+    // The arrow keeps its on-screen size at any zoom
+    const arrowLength = Math.min(view.width, view.height) * 0.15;
+    const headSize = arrowLength * 0.35;
+    const tipX = centerX + line.dx * arrowLength;
+    const tipY = centerY + line.dy * arrowLength;
+    const head = [
+        [tipX, tipY],
+        [tipX - line.dx * headSize + line.dy * headSize * 0.6, tipY - line.dy * headSize - line.dx * headSize * 0.6],
+        [tipX - line.dx * headSize - line.dy * headSize * 0.6, tipY - line.dy * headSize + line.dx * headSize * 0.6]
+    ].map(point => point.join(',')).join(' ');
+
+    const moveStart = (event: React.PointerEvent<SVGSVGElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return;
+
+        // Display pixels → result pixels → source pixels
+        const x = view.x + ((event.clientX - rect.left) / rect.width) * view.width - 0.5 - offset.x;
+        const y = view.y + ((event.clientY - rect.top) / rect.height) * view.height - 0.5 - offset.y;
+        const startingPixel = getStartFromPoint(settings, x, y, imageWidth, imageHeight);
+        if (startingPixel !== settings.startingPixel) {
+            onStartChange(startingPixel);
+        }
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+        if (event.button !== 0) return;
+
+        event.currentTarget.setPointerCapture(event.pointerId);
+        draggingRef.current = true;
+        moveStart(event);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+        if (draggingRef.current) moveStart(event);
+    };
+
+    const handlePointerUp = () => {
+        draggingRef.current = false;
+    };
+
+    const orientation = settings.angle !== null ? 'angled' : settings.direction === 'left' || settings.direction === 'right' ? 'columns' : 'rows';
+
+    return (
+        <svg
+            className={`start-line-overlay ${orientation}`}
+            viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+            preserveAspectRatio="none"
+            aria-hidden="true"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+        >
+            <title>Click or drag to set where the stretch starts</title>
+            <g className="start-line-shadow">
+                <line x1={centerX - line.dy * reach} y1={centerY + line.dx * reach} x2={centerX + line.dy * reach} y2={centerY - line.dx * reach} />
+                <line x1={centerX} y1={centerY} x2={tipX} y2={tipY} />
+            </g>
+            <g className="start-line-guide">
+                <line x1={centerX - line.dy * reach} y1={centerY + line.dx * reach} x2={centerX + line.dy * reach} y2={centerY - line.dx * reach} />
+                <line x1={centerX} y1={centerY} x2={tipX} y2={tipY} />
+            </g>
+            <polygon className="start-line-arrow" points={head} />
+        </svg>
+    );
+};
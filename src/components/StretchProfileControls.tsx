@@ -0,0 +1,213 @@
+import React, { useState, useRef, useCallback } from 'react';
+import {
+    createDefaultProfile,
+    createProfileGaps,
+    parseGapList,
+    STRETCH_PROFILE_LABELS,
+    STRETCH_PROFILE_TYPES,
+    type StretchProfile,
+    type StretchProfileType
+} from '../utils/stretchProfiles';
+import './StretchProfileControls.css';
+
+interface StretchProfileControlsProps {
+    profile: StretchProfile;
+    onChange: (profile: StretchProfile) => void;
+}
+
+// Curve editor geometry and value range
+const CURVE_WIDTH = 200;
+const CURVE_HEIGHT = 100;
+const CURVE_MAX_GAP = 256;
+
+/**
+ * Validate a draft profile, returning the error message or null if it is usable
+ */
+function getProfileError(profile: StretchProfile): string | null {
+    if (profile.type === 'fibonacci') return null;
+    try {
+        createProfileGaps(profile);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+interface CurveEditorProps {
+    points: number[];
+    onChange: (points: number[]) => void;
+}
+
+/**
+ * Small SVG editor: drag vertically anywhere to move the nearest control point
+ */
+const CurveEditor: React.FC<CurveEditorProps> = ({ points, onChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    const toX = (index: number) => (index / (points.length - 1)) * CURVE_WIDTH;
+    const toY = (value: number) => CURVE_HEIGHT - (Math.min(value, CURVE_MAX_GAP) / CURVE_MAX_GAP) * CURVE_HEIGHT;
+
+    const updateFromPointer = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+        if (!svgRef.current) return;
+
+        const rect = svgRef.current.getBoundingClientRect();
+        const x = ((event.clientX - rect.left) / rect.width) * CURVE_WIDTH;
+        const y = ((event.clientY - rect.top) / rect.height) * CURVE_HEIGHT;
+
+        const index = Math.max(0, Math.min(points.length - 1, Math.round((x / CURVE_WIDTH) * (points.length - 1))));
+        const value = Math.round(Math.max(0, Math.min(1, 1 - y / CURVE_HEIGHT)) * CURVE_MAX_GAP);
+
+        if (points[index] !== value) {
+            const nextPoints = [...points];
+            nextPoints[index] = value;
+            onChange(nextPoints);
+        }
+    }, [points, onChange]);
+
+    const path = points.map((value, index) => `${index === 0 ? 'M' : 'L'}${toX(index)},${toY(value)}`).join(' ');
+
+    return (
+        <svg
+            ref={svgRef}
+            className="curve-editor"
+            viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+            preserveAspectRatio="none"
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                updateFromPointer(e);
+            }}
+            onPointerMove={(e) => {
+                if (e.buttons === 1) updateFromPointer(e);
+            }}
+        >
+            <path d={path} className="curve-line" />
+            {points.map((value, index) => (
+                <circle key={index} cx={toX(index)} cy={toY(value)} r={4} className="curve-point">
+                    <title>{`Point ${index + 1}: gap ${value}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+interface NumberFieldProps {
+    label: string;
+    value: number;
+    step?: number;
+    onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, step = 1, onChange }) => (
+    <label className="profile-field">
+        <span>{label}</span>
+        <input
+            type="number"
+            value={Number.isNaN(value) ? '' : value}
+            step={step}
+            onChange={(e) => onChange(e.target.valueAsNumber)}
+            className="number-input"
+        />
+    </label>
+);
+
+/**
+ * Profile selector with per-type settings. Only valid profiles are passed to onChange;
+ * invalid drafts stay local and show their validation error inline.
+ */
+export const StretchProfileControls: React.FC<StretchProfileControlsProps> = ({ profile, onChange }) => {
+    const [draft, setDraft] = useState<StretchProfile>(profile);
+    const [syncedProfile, setSyncedProfile] = useState<StretchProfile>(profile);
+    const [customText, setCustomText] = useState(profile.type === 'custom' ? profile.gaps.join(', ') : '');
+    const [error, setError] = useState<string | null>(null);
+
+    // Adopt profiles set from outside (e.g. restored settings) without an effect round-trip
+    if (profile !== syncedProfile) {
+        setSyncedProfile(profile);
+        setDraft(profile);
+        setError(null);
+        if (profile.type === 'custom') {
+            setCustomText(profile.gaps.join(', '));
+        }
+    }
+
+    const updateDraft = (nextDraft: StretchProfile) => {
+        setDraft(nextDraft);
+        const nextError = getProfileError(nextDraft);
+        setError(nextError);
+        if (!nextError) {
+            setSyncedProfile(nextDraft);
+            onChange(nextDraft);
+        }
+    };
+
+    const handleTypeChange = (type: StretchProfileType) => {
+        const nextDraft = createDefaultProfile(type);
+        if (nextDraft.type === 'custom') {
+            setCustomText(nextDraft.gaps.join(', '));
+        }
+        updateDraft(nextDraft);
+    };
+
+    const handleCustomTextChange = (text: string) => {
+        setCustomText(text);
+        try {
+            updateDraft({ type: 'custom', gaps: parseGapList(text) });
+        } catch (parseError) {
+            setError(parseError instanceof Error ? parseError.message : String(parseError));
+        }
+    };
+
+    return (
+        <div className="control-group">
+            <label htmlFor="stretch-profile" className="control-label">
+                Profile
+            </label>
+            <select
+                id="stretch-profile"
+                value={draft.type}
+                onChange={(e) => handleTypeChange(e.target.value as StretchProfileType)}
+                className="select-input"
+            >
+                {STRETCH_PROFILE_TYPES.map(type => (
+                    <option key={type} value={type}>{STRETCH_PROFILE_LABELS[type]}</option>
+                ))}
+            </select>
+
+            {draft.type === 'linear' && (
+                <div className="profile-fields">
+                    <NumberField label="Start gap" value={draft.startGap} onChange={(startGap) => updateDraft({ ...draft, startGap })} />
+                    <NumberField label="End gap" value={draft.endGap} onChange={(endGap) => updateDraft({ ...draft, endGap })} />
+                    <NumberField label="Rows" value={draft.length} onChange={(length) => updateDraft({ ...draft, length })} />
+                </div>
+            )}
+
+            {draft.type === 'exponential' && (
+                <div className="profile-fields">
+                    <NumberField label="Start gap" value={draft.startGap} onChange={(startGap) => updateDraft({ ...draft, startGap })} />
+                    <NumberField label="Growth" value={draft.growth} step={0.01} onChange={(growth) => updateDraft({ ...draft, growth })} />
+                    <NumberField label="Rows" value={draft.length} onChange={(length) => updateDraft({ ...draft, length })} />
+                </div>
+            )}
+
+            {draft.type === 'custom' && (
+                <textarea
+                    value={customText}
+                    onChange={(e) => handleCustomTextChange(e.target.value)}
+                    className="profile-textarea"
+                    rows={3}
+                    placeholder="1, 2, 3, 5, 8"
+                    aria-label="Gap sizes, separated by commas"
+                />
+            )}
+
+            {draft.type === 'curve' && (
+                <div className="profile-fields">
+                    <CurveEditor points={draft.points} onChange={(points) => updateDraft({ ...draft, points })} />
+                    <NumberField label="Rows" value={draft.length} onChange={(length) => updateDraft({ ...draft, length })} />
+                </div>
+            )}
+
+            {error && <p className="field-error" role="alert">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { StretchStack, StretchStep } from '../utils/stretchStack';
+import './StretchStackPanel.css';
+
+interface StretchStackPanelProps {
+    stack: StretchStack;
+    onSelect: (id: string) => void;
+    onAdd: () => void;
+    onToggle: (id: string) => void;
+    onMove: (id: string, offset: number) => void;
+    onRemove: (id: string) => void;
+}
+
+const DIRECTION_ARROWS = { up: '↑', down: '↓', left: '←', right: '→' };
+
+function describeStep(step: StretchStep): string {
+    const { direction, stretchRate, startingPixel, profile, angle } = step.settings;
+    const strength = profile.type === 'fibonacci' ? `rate ${stretchRate}` : profile.type;
+    return `${angle !== null ? `∠${angle}°` : DIRECTION_ARROWS[direction]} ${strength} @ ${startingPixel}`;
+}
+
+/**
+ * Ordered list of stretch passes. Each pass stretches the output of the one above it;
+ * the selected pass is the one the controls below edit.
+ */
+export const StretchStackPanel: React.FC<StretchStackPanelProps> = ({ stack, onSelect, onAdd, onToggle, onMove, onRemove }) => {
+    const { steps, selectedStepId } = stack;
+
+    return (
+        <div className="control-group">
+            <div className="flex items-center justify-between mb-2">
+                <label className="control-label" style={{ marginBottom: 0 }}>Layers</label>
+                <button onClick={onAdd} className="stack-add-btn" title="Add a pass after the selected one">
+                    + Add
+                </button>
+            </div>
+
+            <ol className="stack-list">
+                {steps.map((step, index) => (
+                    <li
+                        key={step.id}
+                        className={`stack-step${step.id === selectedStepId ? ' selected' : ''}${step.enabled ? '' : ' disabled'}`}
+                        onClick={() => onSelect(step.id)}
+                    >
+                        <input
+                            type="checkbox"
+                            checked={step.enabled}
+                            onChange={() => onToggle(step.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            title={step.enabled ? 'Disable this pass' : 'Enable this pass'}
+                        />
+                        <span className="stack-step-label">
+                            {index + 1}. {describeStep(step)}
+                        </span>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onMove(step.id, -1); }}
+                            disabled={index === 0}
+                            className="stack-icon-btn"
+                            title="Move up"
+                        >
+                            ▲
+                        </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onMove(step.id, 1); }}
+                            disabled={index === steps.length - 1}
+                            className="stack-icon-btn"
+                            title="Move down"
+                        >
+                            ▼
+                        </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onRemove(step.id); }}
+                            disabled={steps.length === 1}
+                            className="stack-icon-btn"
+                            title="Delete pass"
+                        >
+                            ✕
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
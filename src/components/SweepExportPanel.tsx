@@ -0,0 +1,230 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { downloadBlob, getBaseName } from '../utils/download';
+import type { RawImageData } from '../utils/imageStretching';
+import { getStartAxisLength } from '../utils/stretchSettings';
+import { getSelectedStep, type StretchStack } from '../utils/stretchStack';
+import { createStretchWorkerClient, type StretchWorkerClient } from '../utils/stretchWorkerClient';
+import {
+    exportSweep,
+    MAX_SWEEP_FPS,
+    MAX_SWEEP_FRAMES,
+    MIN_SWEEP_FPS,
+    MIN_SWEEP_FRAMES,
+    SWEEP_PARAMETER_LABELS,
+    SWEEP_PARAMETERS,
+    SweepCancelledError,
+    type SweepFormat,
+    type SweepParameter
+} from '../utils/sweepExport';
+import { isWebmExportSupported } from '../utils/webmEncoder';
+import './SweepExportPanel.css';
+
+interface SweepExportPanelProps {
+    stack: StretchStack;
+    /** Full-resolution source pixels of the open image */
+    getSource: () => RawImageData | null;
+    /** Applied to each rendered frame, e.g. to blend it through the selection mask */
+    finishFrame: (source: RawImageData, stretched: RawImageData) => RawImageData;
+    imageWidth: number;
+    imageHeight: number;
+    fileName: string;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+interface SweepFieldProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    onChange: (value: number) => void;
+}
+
+const SweepField: React.FC<SweepFieldProps> = ({ label, value, min, max, onChange }) => (
+    <label className="sweep-field">
+        <span>{label}</span>
+        <input
+            type="number"
+            value={Number.isNaN(value) ? '' : value}
+            min={min}
+            max={max}
+            onChange={(e) => onChange(e.target.valueAsNumber)}
+            className="number-input"
+        />
+    </label>
+);
+
+/**
+ * Export an animation that sweeps one setting of the selected layer between two values.
+ * Frames are rendered in a worker of its own, so the live preview keeps working meanwhile.
+ */
+export const SweepExportPanel: React.FC<SweepExportPanelProps> = ({ stack, getSource, finishFrame, imageWidth, imageHeight, fileName }) => {
+    const axisLength = getStartAxisLength(getSelectedStep(stack).settings, imageWidth, imageHeight);
+    const parameterRange: { [parameter in SweepParameter]: [number, number] } = {
+        startingPixel: [0, axisLength - 1],
+        stretchRate: [1, 13]
+    };
+
+    const [parameter, setParameter] = useState<SweepParameter>('startingPixel');
+    const [from, setFrom] = useState(0);
+    const [to, setTo] = useState(axisLength - 1);
+    const [frameCount, setFrameCount] = useState(30);
+    const [fps, setFps] = useState(15);
+    const [format, setFormat] = useState<SweepFormat>('gif');
+    const [loop, setLoop] = useState(true);
+    const [pingPong, setPingPong] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    const workerClientRef = useRef<StretchWorkerClient | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const [minValue, maxValue] = parameterRange[parameter];
+    const webmSupported = isWebmExportSupported();
+
+    // Only the Fibonacci table is scaled by the rate; other profiles would render identical frames
+    const rateSweepable = getSelectedStep(stack).settings.profile.type === 'fibonacci';
+    const rateUnavailable = parameter === 'stretchRate' && !rateSweepable;
+
+    useEffect(() => {
+        const workerClient = createStretchWorkerClient();
+        workerClientRef.current = workerClient;
+        return () => {
+            abortControllerRef.current?.abort();
+            workerClient.dispose();
+            workerClientRef.current = null;
+        };
+    }, []);
+
+    const handleParameterChange = (nextParameter: SweepParameter) => {
+        const [min, max] = parameterRange[nextParameter];
+        setParameter(nextParameter);
+        setFrom(min);
+        setTo(max);
+    };
+
+    const startExport = async () => {
+        const source = getSource();
+        const workerClient = workerClientRef.current;
+        if (!source || !workerClient || rateUnavailable) return;
+
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        setIsExporting(true);
+        setProgress(0);
+        setError(null);
+
+        const options = {
+            parameter,
+            from: clamp(Number.isNaN(from) ? minValue : from, minValue, maxValue),
+            to: clamp(Number.isNaN(to) ? maxValue : to, minValue, maxValue),
+            frameCount: clamp(Number.isNaN(frameCount) ? MIN_SWEEP_FRAMES : frameCount, MIN_SWEEP_FRAMES, MAX_SWEEP_FRAMES),
+            fps: clamp(Number.isNaN(fps) ? MIN_SWEEP_FPS : fps, MIN_SWEEP_FPS, MAX_SWEEP_FPS),
+            format,
+            loop,
+            pingPong
+        };
+        console.log('Exporting stretch sweep:', options);
+
+        try {
+            const blob = await exportSweep(
+                source,
+                stack,
+                options,
+                (input, params) => workerClient.run(input, params),
+                finishFrame,
+                setProgress,
+                abortController.signal
+            );
+            console.log('Sweep export finished:', { size: blob.size, type: blob.type });
+            downloadBlob(blob, `${getBaseName(fileName)}_${parameter}_sweep.${format}`);
+        } catch (exportError) {
+            if (exportError instanceof SweepCancelledError) {
+                console.log('Sweep export cancelled');
+            } else {
+                console.error('Sweep export failed:', exportError);
+                setError(exportError instanceof Error ? exportError.message : String(exportError));
+            }
+        } finally {
+            abortControllerRef.current = null;
+            setIsExporting(false);
+        }
+    };
+
+    const cancelExport = () => {
+        abortControllerRef.current?.abort();
+        // Stop the frame that is rendering right now instead of waiting for it
+        workerClientRef.current?.cancel();
+    };
+
+    return (
+        <details className="control-group sweep-panel">
+            <summary className="control-label">Animated export</summary>
+
+            <div className="sweep-fields">
+                <label className="sweep-field">
+                    <span>Sweep</span>
+                    <select
+                        value={parameter}
+                        onChange={(e) => handleParameterChange(e.target.value as SweepParameter)}
+                        className="select-input"
+                        disabled={isExporting}
+                    >
+                        {SWEEP_PARAMETERS.map(option => (
+                            <option key={option} value={option} disabled={option === 'stretchRate' && !rateSweepable}>
+                                {SWEEP_PARAMETER_LABELS[option]}{option === 'stretchRate' && !rateSweepable ? ' (Fibonacci profile only)' : ''}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <SweepField label="From" value={from} min={minValue} max={maxValue} onChange={setFrom} />
+                <SweepField label="To" value={to} min={minValue} max={maxValue} onChange={setTo} />
+                <SweepField label="Frames" value={frameCount} min={MIN_SWEEP_FRAMES} max={MAX_SWEEP_FRAMES} onChange={setFrameCount} />
+                <SweepField label="FPS" value={fps} min={MIN_SWEEP_FPS} max={MAX_SWEEP_FPS} onChange={setFps} />
+                <label className="sweep-field">
+                    <span>Format</span>
+                    <select
+                        value={format}
+                        onChange={(e) => setFormat(e.target.value as SweepFormat)}
+                        className="select-input"
+                        disabled={isExporting}
+                    >
+                        <option value="gif">Animated GIF</option>
+                        <option value="webm" disabled={!webmSupported}>
+                            WebM video{webmSupported ? '' : ' (not supported)'}
+                        </option>
+                    </select>
+                </label>
+                <label className="checkbox-label" title={format === 'gif' ? undefined : 'Video players decide whether to loop'}>
+                    <input type="checkbox" checked={loop} disabled={format !== 'gif'} onChange={(e) => setLoop(e.target.checked)} />
+                    Loop forever
+                </label>
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={pingPong} onChange={(e) => setPingPong(e.target.checked)} />
+                    Ping-pong
+                </label>
+            </div>
+
+            {isExporting ? (
+                <div className="flex items-center gap-2 mt-2">
+                    <div className="progress-track flex-1" role="progressbar" aria-valuenow={progress} aria-valuemin={0} aria-valuemax={100}>
+                        <div className="progress-bar" style={{ width: `${progress}%` }} />
+                    </div>
+                    <button onClick={cancelExport} className="history-btn">
+                        Cancel
+                    </button>
+                </div>
+            ) : (
+                <button onClick={startExport} className="history-btn w-full mt-2" disabled={rateUnavailable}>
+                    Export {format === 'gif' ? 'GIF' : 'WebM'}
+                </button>
+            )}
+
+            {rateUnavailable && <p className="field-error">Stretch rate only applies to the Fibonacci profile; sweep the start instead</p>}
+            {error && <p className="field-error" role="alert">{error}</p>}
+        </details>
+    );
+};
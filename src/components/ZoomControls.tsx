@@ -0,0 +1,54 @@
+import React from 'react';
+import './ZoomControls.css';
+
+interface ZoomControlsProps {
+    /** Zoom relative to fitting the whole result */
+    zoom: number;
+    /** CSS pixels per result pixel when the result fits */
+    pixelScale: number;
+    onZoomIn: () => void;
+    onZoomOut: () => void;
+    onFit: () => void;
+    onActualSize: () => void;
+    isPanTool: boolean;
+    onPanToolChange: (isPanTool: boolean) => void;
+}
+
+/**
+ * Zoom buttons for the result canvas. The wheel, pinching and Space-dragging on the canvas
+ * itself are handled by usePanZoom.
+ */
+export const ZoomControls: React.FC<ZoomControlsProps> = ({
+    zoom,
+    pixelScale,
+    onZoomIn,
+    onZoomOut,
+    onFit,
+    onActualSize,
+    isPanTool,
+    onPanToolChange
+}) => {
+    // Shown as the on-screen size of result pixels, so 100% is 1:1
+    const percent = Math.round(zoom * pixelScale * 100);
+
+    return (
+        <div className="control-group">
+            <label className="control-label">Zoom: {percent}%</label>
+            <div className="zoom-controls" role="group" aria-label="Zoom">
+                <button onClick={onZoomOut} disabled={zoom <= 1} className="history-btn" title="Zoom out ([)" aria-label="Zoom out">−</button>
+                <button onClick={onZoomIn} className="history-btn" title="Zoom in (])" aria-label="Zoom in">+</button>
+                <button onClick={onFit} className="history-btn flex-1" title="Fit the whole image (0)">Fit</button>
+                <button onClick={onActualSize} className="history-btn flex-1" title="One image pixel per screen pixel (1)">1:1</button>
+                <button
+                    onClick={() => onPanToolChange(!isPanTool)}
+                    className={`history-btn${isPanTool ? ' active' : ''}`}
+                    aria-pressed={isPanTool}
+                    title="Drag to pan (or hold Space)"
+                    aria-label="Pan"
+                >
+                    ✋
+                </button>
+            </div>
+        </div>
+    );
+};
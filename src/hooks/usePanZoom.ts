@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getShortcutTarget } from '../utils/keyboardShortcuts';
+import { clampView, FIT_VIEW, getActualSizeZoom, getMaxZoom, panView, zoomViewAt, type ZoomView } from '../utils/viewport';
+
+/**
+ * What the zoom limits are measured against: the full-resolution result and the CSS width of
+ * the canvas showing it
+ */
+export interface PanZoomMetrics {
+    resultWidth: number;
+    displayWidth: number;
+}
+
+// Width of the image canvas border; the visible area is the canvas's content box
+const CANVAS_BORDER = 2;
+
+// Wheel zoom per pixel of scroll (line-based scrolling is scaled up to match)
+const WHEEL_ZOOM_RATE = 0.002;
+const WHEEL_LINE_HEIGHT = 16;
+
+interface Pinch {
+    startDistance: number;
+    startMidX: number;
+    startMidY: number;
+    startView: ZoomView;
+    stage: Element;
+}
+
+// The image stage (canvas plus overlays) under an event, if any
+function getStage(target: EventTarget | null): Element | null {
+    return target instanceof Element ? target.closest('.mask-stage') : null;
+}
+
+// Position within the stage's visible area, as fractions of its size
+function toStageFraction(stage: Element, clientX: number, clientY: number): { x: number; y: number; width: number; height: number } {
+    const rect = stage.getBoundingClientRect();
+    const width = Math.max(1, rect.width - CANVAS_BORDER * 2);
+    const height = Math.max(1, rect.height - CANVAS_BORDER * 2);
+    return { x: (clientX - rect.left - CANVAS_BORDER) / width, y: (clientY - rect.top - CANVAS_BORDER) / height, width, height };
+}
+
+/**
+ * Zoom and pan for the result canvases inside `containerRef`: the wheel and two-finger pinches
+ * zoom at the pointer; dragging with the middle button, with Space held or while the pan tool
+ * is on moves the view. Events used for panning never reach the overlays underneath.
+ */
+export function usePanZoom(containerRef: React.RefObject<HTMLElement | null>, getMetrics: () => PanZoomMetrics | null) {
+    const [view, setViewState] = useState<ZoomView>(FIT_VIEW);
+    const [isPanTool, setIsPanTool] = useState(false);
+    const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+    const [isPanning, setIsPanning] = useState(false);
+
+    const viewRef = useRef(view);
+    const getMetricsRef = useRef(getMetrics);
+    const panReadyRef = useRef(false);
+    useEffect(() => {
+        getMetricsRef.current = getMetrics;
+        panReadyRef.current = isPanTool || isSpaceHeld;
+    });
+
+    const getLimits = useCallback(() => {
+        const metrics = getMetricsRef.current();
+        return metrics
+            ? { maxZoom: getMaxZoom(metrics.resultWidth, metrics.displayWidth), actualZoom: getActualSizeZoom(metrics.resultWidth, metrics.displayWidth) }
+            : { maxZoom: 1, actualZoom: 1 };
+    }, []);
+
+    const setView = useCallback((next: ZoomView) => {
+        const clamped = clampView(next, getLimits().maxZoom);
+        viewRef.current = clamped;
+        setViewState(clamped);
+    }, [getLimits]);
+
+    const zoomBy = useCallback((factor: number) => {
+        setView(zoomViewAt(viewRef.current, viewRef.current.zoom * factor, 0.5, 0.5, getLimits().maxZoom));
+    }, [setView, getLimits]);
+
+    const fit = useCallback(() => setView(FIT_VIEW), [setView]);
+
+    const actualSize = useCallback(() => {
+        setView(zoomViewAt(viewRef.current, getLimits().actualZoom, 0.5, 0.5, getLimits().maxZoom));
+    }, [setView, getLimits]);
+
+    // Wheel and pointer handling on the container, in the capture phase so panning and
+    // pinching take precedence over the start line and selection overlays
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const touches = new Map<number, { x: number; y: number }>();
+        let pinch: Pinch | null = null;
+        let pan: { pointerId: number; lastX: number; lastY: number; stage: Element } | null = null;
+
+        const handleWheel = (event: WheelEvent) => {
+            const stage = getStage(event.target);
+            if (!stage) return;
+
+            event.preventDefault();
+            const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+            const anchor = toStageFraction(stage, event.clientX, event.clientY);
+            const current = viewRef.current;
+            setView(zoomViewAt(current, current.zoom * Math.exp(-delta * WHEEL_ZOOM_RATE), anchor.x, anchor.y, getLimits().maxZoom));
+        };
+
+        const startPinch = () => {
+            const [a, b] = [...touches.values()];
+            const stage = pan?.stage ?? getStage(document.elementFromPoint((a.x + b.x) / 2, (a.y + b.y) / 2));
+            if (!stage) return;
+            pinch = {
+                startDistance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+                startMidX: (a.x + b.x) / 2,
+                startMidY: (a.y + b.y) / 2,
+                startView: viewRef.current,
+                stage
+            };
+            pan = null;
+        };
+
+        const handlePointerDown = (event: PointerEvent) => {
+            const stage = getStage(event.target);
+            if (!stage) return;
+
+            if (event.pointerType === 'touch') {
+                touches.set(event.pointerId, { x: event.clientX, y: event.clientY });
+                if (touches.size === 2) {
+                    event.stopPropagation();
+                    startPinch();
+                    return;
+                }
+            }
+
+            const wantsPan = event.button === 1 || (event.button === 0 && panReadyRef.current);
+            if (!wantsPan || pinch) return;
+
+            event.stopPropagation();
+            event.preventDefault();
+            container.setPointerCapture(event.pointerId);
+            pan = { pointerId: event.pointerId, lastX: event.clientX, lastY: event.clientY, stage };
+            setIsPanning(true);
+        };
+
+        const handlePointerMove = (event: PointerEvent) => {
+            if (touches.has(event.pointerId)) {
+                touches.set(event.pointerId, { x: event.clientX, y: event.clientY });
+            }
+
+            if (pinch && touches.has(event.pointerId)) {
+                event.stopPropagation();
+                if (touches.size < 2) return;
+
+                const [a, b] = [...touches.values()];
+                const scale = Math.hypot(a.x - b.x, a.y - b.y) / pinch.startDistance;
+                const start = toStageFraction(pinch.stage, pinch.startMidX, pinch.startMidY);
+                const { maxZoom } = getLimits();
+                const zoomed = zoomViewAt(pinch.startView, pinch.startView.zoom * scale, start.x, start.y, maxZoom);
+                setView(panView(zoomed, ((a.x + b.x) / 2 - pinch.startMidX) / start.width, ((a.y + b.y) / 2 - pinch.startMidY) / start.height, maxZoom));
+                return;
+            }
+
+            if (pan && event.pointerId === pan.pointerId) {
+                event.stopPropagation();
+                const { width, height } = toStageFraction(pan.stage, event.clientX, event.clientY);
+                setView(panView(viewRef.current, (event.clientX - pan.lastX) / width, (event.clientY - pan.lastY) / height, getLimits().maxZoom));
+                pan.lastX = event.clientX;
+                pan.lastY = event.clientY;
+            }
+        };
+
+        const handlePointerEnd = (event: PointerEvent) => {
+            touches.delete(event.pointerId);
+            if (pinch && touches.size < 2) {
+                pinch = null;
+            }
+            if (pan && event.pointerId === pan.pointerId) {
+                event.stopPropagation();
+                pan = null;
+                setIsPanning(false);
+            }
+        };
+
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        container.addEventListener('pointerdown', handlePointerDown, true);
+        container.addEventListener('pointermove', handlePointerMove, true);
+        container.addEventListener('pointerup', handlePointerEnd, true);
+        container.addEventListener('pointercancel', handlePointerEnd, true);
+        return () => {
+            container.removeEventListener('wheel', handleWheel);
+            container.removeEventListener('pointerdown', handlePointerDown, true);
+            container.removeEventListener('pointermove', handlePointerMove, true);
+            container.removeEventListener('pointerup', handlePointerEnd, true);
+            container.removeEventListener('pointercancel', handlePointerEnd, true);
+        };
+    }, [containerRef, setView, getLimits]);
+
+    // Space turns dragging into panning while held, unless a control wants the key
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== ' ' || event.ctrlKey || event.metaKey || event.altKey) return;
+            if (getShortcutTarget(event.target) !== 'other' || (event.target as Element | null)?.closest?.('button, [role="slider"], a')) return;
+
+            event.preventDefault();
+            setIsSpaceHeld(true);
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.key === ' ') setIsSpaceHeld(false);
+        };
+        const handleBlur = () => setIsSpaceHeld(false);
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+        };
+    }, []);
+
+    return {
+        view,
+        setView,
+        zoomBy,
+        fit,
+        actualSize,
+        isPanTool,
+        setIsPanTool,
+        isPanReady: isPanTool || isSpaceHeld,
+        isPanning
+    };
+}
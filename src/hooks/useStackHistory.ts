@@ -0,0 +1,133 @@
+import { useState, useCallback } from 'react';
+import type { StretchSettings } from '../utils/stretchSettings';
+import { getSelectedStep, selectStep, updateSelectedSettings, type StretchStack, type StretchStep } from '../utils/stretchStack';
+
+export interface StackHistoryEntry {
+    stack: StretchStack;
+    /** Updates sharing a merge key within MERGE_WINDOW_MS collapse into this entry */
+    mergeKey: string | null;
+    timestamp: number;
+    /** Small preview of the result rendered for this stack, once available */
+    thumbnail: string | null;
+}
+
+interface HistoryState {
+    entries: StackHistoryEntry[];
+    index: number;
+}
+
+// Slider drags fire many changes; ones this close together become a single undo step
+const MERGE_WINDOW_MS = 1000;
+const MAX_HISTORY_LENGTH = 100;
+
+function createEntry(stack: StretchStack, mergeKey: string | null): StackHistoryEntry {
+    return { stack, mergeKey, timestamp: Date.now(), thumbnail: null };
+}
+
+function isUnchanged(settings: StretchSettings, patch: Partial<StretchSettings>): boolean {
+    return (Object.keys(patch) as (keyof StretchSettings)[]).every(key => settings[key] === patch[key]);
+}
+
+/**
+ * Undo/redo stack of layer stack snapshots
+ */
+export function useStackHistory(initialStack: StretchStack) {
+    const [history, setHistory] = useState<HistoryState>(() => ({
+        entries: [createEntry(initialStack, null)],
+        index: 0
+    }));
+
+    // Record a new stack produced by transform; returning the same stack records nothing
+    const apply = useCallback((transform: (stack: StretchStack) => StretchStack, mergeKey?: string) => {
+        setHistory(prev => {
+            const current = prev.entries[prev.index];
+            const stack = transform(current.stack);
+            if (stack === current.stack) return prev;
+
+            // Merge keys are scoped to the selected step so edits to different steps stay separate
+            const scopedMergeKey = mergeKey ? `${stack.selectedStepId}:${mergeKey}` : null;
+            const now = Date.now();
+            const isLatest = prev.index === prev.entries.length - 1;
+
+            // Replace the top entry while the same control keeps changing
+            if (mergeKey && isLatest && prev.index > 0 && current.mergeKey === scopedMergeKey && now - current.timestamp < MERGE_WINDOW_MS) {
+                const entries = [...prev.entries];
+                entries[prev.index] = { ...current, stack, timestamp: now, thumbnail: null };
+                return { entries, index: prev.index };
+            }
+
+            const entries = [...prev.entries.slice(0, prev.index + 1), createEntry(stack, scopedMergeKey)];
+            const overflow = Math.max(0, entries.length - MAX_HISTORY_LENGTH);
+            return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+        });
+    }, []);
+
+    // Patch the selected step's settings
+    const update = useCallback((patch: Partial<StretchSettings>, mergeKey?: string) => {
+        apply(stack => {
+            const selected = getSelectedStep(stack);
+            return isUnchanged(selected.settings, patch) ? stack : updateSelectedSettings(stack, patch);
+        }, mergeKey);
+    }, [apply]);
+
+    // Selecting a step is navigation, not an edit: it updates the current entry instead of adding one
+    const select = useCallback((id: string) => {
+        setHistory(prev => {
+            const current = prev.entries[prev.index];
+            const stack = selectStep(current.stack, id);
+            if (stack === current.stack) return prev;
+
+            const entries = [...prev.entries];
+            entries[prev.index] = { ...current, stack };
+            return { ...prev, entries };
+        });
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory(prev => (prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev));
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(prev => (prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev));
+    }, []);
+
+    const jumpTo = useCallback((index: number) => {
+        setHistory(prev => (index >= 0 && index < prev.entries.length ? { ...prev, index } : prev));
+    }, []);
+
+    // Start a fresh history from the stack produced by transform, e.g. when a new image is opened
+    const reset = useCallback((transform: (stack: StretchStack) => StretchStack) => {
+        setHistory(prev => ({
+            entries: [createEntry(transform(prev.entries[prev.index].stack), null)],
+            index: 0
+        }));
+    }, []);
+
+    // Attach a thumbnail to whichever entry still holds the rendered steps
+    const setThumbnail = useCallback((steps: StretchStep[], thumbnail: string) => {
+        setHistory(prev => {
+            const position = prev.entries.findIndex(entry => entry.stack.steps === steps);
+            if (position === -1) return prev;
+
+            const entries = [...prev.entries];
+            entries[position] = { ...entries[position], thumbnail };
+            return { ...prev, entries };
+        });
+    }, []);
+
+    return {
+        stack: history.entries[history.index].stack,
+        entries: history.entries,
+        index: history.index,
+        canUndo: history.index > 0,
+        canRedo: history.index < history.entries.length - 1,
+        apply,
+        update,
+        select,
+        undo,
+        redo,
+        jumpTo,
+        reset,
+        setThumbnail
+    };
+}
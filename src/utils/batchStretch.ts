@@ -0,0 +1,140 @@
+import type { StretchDirection } from './imageStretching';
+import { fromRelativeStart, toRelativeStart } from './stretchSettings';
+import { getSelectedStep, updateSelectedSettings, type StretchStack } from './stretchStack';
+
+/**
+ * Batch mode applies the open image's layer stack to a set of other images. Start positions
+ * carry over as fractions of their axis, so they land at the same relative place in images
+ * of any size, and each image can override the direction, start and rate of the selected
+ * layer (the one the controls edit).
+ */
+
+/** Most images one batch accepts */
+export const MAX_BATCH_FILES = 200;
+
+export interface BatchOverrides {
+    direction?: StretchDirection;
+    /** Start as a 0..1 fraction of its axis */
+    relativeStart?: number;
+    stretchRate?: number;
+}
+
+export type BatchItemStatus = 'pending' | 'rendering' | 'done' | 'error';
+
+export interface BatchOutput {
+    blob: Blob;
+    fileName: string;
+    width: number;
+    height: number;
+}
+
+export interface BatchItem {
+    id: string;
+    file: File;
+    overrides: BatchOverrides;
+    /** Left out of the ZIP when false */
+    included: boolean;
+    status: BatchItemStatus;
+    /** Settings the output was rendered with, to tell when it is out of date */
+    renderKey: string | null;
+    thumbnail: string | null;
+    output: BatchOutput | null;
+    error: string | null;
+}
+
+let nextItemId = 1;
+
+export function createBatchItem(file: File): BatchItem {
+    return {
+        id: `batch-${nextItemId++}`,
+        file,
+        overrides: {},
+        included: true,
+        status: 'pending',
+        renderKey: null,
+        thumbnail: null,
+        output: null,
+        error: null
+    };
+}
+
+/**
+ * Overrides with a patch applied; an undefined value clears that override, so an image set
+ * back to "Same as layer" has no overrides left
+ */
+export function mergeBatchOverrides(overrides: BatchOverrides, patch: BatchOverrides): BatchOverrides {
+    const merged: BatchOverrides = { ...overrides, ...patch };
+    for (const key of Object.keys(merged) as (keyof BatchOverrides)[]) {
+        if (merged[key] === undefined) {
+            delete merged[key];
+        }
+    }
+    return merged;
+}
+
+/**
+ * The same stack for an image of another size, with every start at the same relative position
+ */
+export function resizeStack(stack: StretchStack, fromWidth: number, fromHeight: number, toWidth: number, toHeight: number): StretchStack {
+    if (fromWidth === toWidth && fromHeight === toHeight) return stack;
+
+    return {
+        ...stack,
+        steps: stack.steps.map(step => ({
+            ...step,
+            settings: {
+                ...step.settings,
+                startingPixel: fromRelativeStart(toRelativeStart(step.settings, fromWidth, fromHeight), step.settings, toWidth, toHeight)
+            }
+        }))
+    };
+}
+
+/**
+ * Apply an image's overrides to the selected step of a stack already sized for that image.
+ * A direction override leaves angle mode and keeps the start's relative position.
+ */
+export function applyBatchOverrides(stack: StretchStack, overrides: BatchOverrides, width: number, height: number): StretchStack {
+    const settings = getSelectedStep(stack).settings;
+    const direction = overrides.direction ?? settings.direction;
+    const angle = overrides.direction ? null : settings.angle;
+    const relativeStart = overrides.relativeStart ?? toRelativeStart(settings, width, height);
+
+    return updateSelectedSettings(stack, {
+        direction,
+        angle,
+        startingPixel: fromRelativeStart(relativeStart, { direction, angle }, width, height),
+        stretchRate: overrides.stretchRate ?? settings.stretchRate
+    });
+}
+
+/**
+ * Stack to render one batch image with: the base stack (set up on a baseWidth × baseHeight
+ * image) fitted to the image's size, plus its overrides
+ */
+export function getBatchStack(
+    base: StretchStack,
+    baseWidth: number,
+    baseHeight: number,
+    overrides: BatchOverrides,
+    width: number,
+    height: number
+): StretchStack {
+    return applyBatchOverrides(resizeStack(base, baseWidth, baseHeight, width, height), overrides, width, height);
+}
+
+/**
+ * Name not used yet in the archive: `name.png`, then `name (2).png`, `name (3).png`, ...
+ */
+export function getUniqueFileName(fileName: string, usedNames: Set<string>): string {
+    const dot = fileName.lastIndexOf('.');
+    const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const extension = dot > 0 ? fileName.slice(dot) : '';
+
+    let candidate = fileName;
+    for (let copy = 2; usedNames.has(candidate.toLowerCase()); copy++) {
+        candidate = `${base} (${copy})${extension}`;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+}
@@ -0,0 +1,45 @@
+import type { RawImageData } from './imageStretching';
+
+/**
+ * Canvases default to sRGB, which clamps wide-gamut photos to the sRGB gamut. With Display P3
+ * chosen, every canvas an image passes through (decoding, display, export) is created in P3
+ * and pixels are read and written as P3, so the colours survive from file to file. The
+ * stretch itself only mixes byte values and doesn't care which space they are in.
+ */
+export const CANVAS_COLOR_SPACE_LABELS: { [space in PredefinedColorSpace]: string } = {
+    'srgb': 'sRGB',
+    'display-p3': 'Display P3'
+};
+
+let displayP3Supported: boolean | null = null;
+
+/**
+ * True if canvases can hold Display P3. Worth it even on sRGB screens, since saved files keep
+ * the wider colours.
+ */
+export function isDisplayP3Supported(): boolean {
+    if (displayP3Supported === null) {
+        try {
+            const ctx = document.createElement('canvas').getContext('2d', { colorSpace: 'display-p3' });
+            displayP3Supported = ctx?.getContextAttributes?.().colorSpace === 'display-p3';
+        } catch {
+            displayP3Supported = false;
+        }
+    }
+    return displayP3Supported;
+}
+
+/**
+ * 2D context in the given colour space. A canvas keeps the space of its first context, so
+ * use a fresh canvas to switch.
+ */
+export function getCanvasContext(canvas: HTMLCanvasElement, colorSpace: PredefinedColorSpace): CanvasRenderingContext2D {
+    return canvas.getContext('2d', { colorSpace })!;
+}
+
+/**
+ * Copy of raw pixels as ImageData tagged with the space they were read in
+ */
+export function toImageData(image: RawImageData, colorSpace: PredefinedColorSpace): ImageData {
+    return new ImageData(new Uint8ClampedArray(image.data), image.width, image.height, { colorSpace });
+}
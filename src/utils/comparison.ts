@@ -0,0 +1,26 @@
+/**
+ * Before/after comparison of the original image with the stretched result. The original is
+ * laid out in the result's frame so both line up pixel for pixel wherever they are shown.
+ */
+export const COMPARE_MODES = ['off', 'split', 'side-by-side'] as const;
+export type CompareMode = typeof COMPARE_MODES[number];
+
+export const COMPARE_MODE_LABELS: { [mode in CompareMode]: string } = {
+    off: 'Off',
+    split: 'Split',
+    'side-by-side': 'Side by side'
+};
+
+/** Split position change per arrow key press, as a fraction of the width (Shift moves 10×) */
+export const SPLIT_KEY_STEP = 0.01;
+
+export function clampSplitPosition(position: number): number {
+    return Math.min(1, Math.max(0, position));
+}
+
+/**
+ * CSS clip-path that shows the part of the original left of the split
+ */
+export function getSplitClipPath(position: number): string {
+    return `inset(0 ${((1 - clampSplitPosition(position)) * 100).toFixed(3)}% 0 0)`;
+}
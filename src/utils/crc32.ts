@@ -0,0 +1,28 @@
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+    if (crcTable) return crcTable;
+
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+    }
+    return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE 802.3) as used by PNG chunks and ZIP entries.
+ * Pass the previous result as `crc` to checksum data spread over several buffers.
+ */
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+    const table = getCrcTable();
+    let c = (crc ^ 0xffffffff) >>> 0;
+    for (let i = 0; i < bytes.length; i++) {
+        c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    }
+    return (c ^ 0xffffffff) >>> 0;
+}
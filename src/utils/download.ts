@@ -0,0 +1,29 @@
+/**
+ * Save a URL (usually a blob: URL) under the given file name
+ */
+export function downloadUrl(url: string, fileName: string): void {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+}
+
+/**
+ * Save a Blob under the given file name
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, fileName);
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+/**
+ * File name without its extension, e.g. "photo" for "photo.jpeg"
+ */
+export function getBaseName(fileName: string): string {
+    const dot = fileName.lastIndexOf('.');
+    return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
@@ -0,0 +1,332 @@
+import type { RawImageData } from './imageStretching';
+
+/**
+ * Minimal animated GIF encoder. Each frame gets its own median-cut palette, so frames are
+ * encoded independently and can be reused (e.g. played backwards for ping-pong) without
+ * keeping the raw pixels around. Pixels with alpha below 128 become transparent.
+ */
+
+// Colours are binned at 5 bits per channel before quantization
+const BIN_BITS = 5;
+const BIN_COUNT = 1 << (BIN_BITS * 3);
+
+const MAX_CODE = 4095;
+
+/** An encoded frame: graphic control extension, image descriptor, palette and LZW data */
+export interface GifFrame {
+    bytes: Uint8Array<ArrayBuffer>;
+}
+
+export interface GifOptions {
+    width: number;
+    height: number;
+    /** Repeat forever; otherwise the animation plays once */
+    loop: boolean;
+}
+
+interface ByteWriter {
+    byte(value: number): void;
+    uint16(value: number): void;
+    bytes(values: ArrayLike<number>): void;
+    ascii(text: string): void;
+    toBytes(): Uint8Array<ArrayBuffer>;
+}
+
+function createByteWriter(): ByteWriter {
+    let buffer = new Uint8Array(4096);
+    let length = 0;
+
+    const reserve = (count: number) => {
+        if (length + count <= buffer.length) return;
+        let size = buffer.length * 2;
+        while (size < length + count) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(buffer.subarray(0, length));
+        buffer = next;
+    };
+
+    const writer: ByteWriter = {
+        byte(value) {
+            reserve(1);
+            buffer[length++] = value;
+        },
+        uint16(value) {
+            writer.byte(value & 0xff);
+            writer.byte((value >> 8) & 0xff);
+        },
+        bytes(values) {
+            reserve(values.length);
+            buffer.set(values, length);
+            length += values.length;
+        },
+        ascii(text) {
+            for (let i = 0; i < text.length; i++) writer.byte(text.charCodeAt(i));
+        },
+        toBytes() {
+            return buffer.slice(0, length);
+        }
+    };
+    return writer;
+}
+
+interface ColorBox {
+    bins: number[];
+    count: number;
+    /** Channel (0 = r, 1 = g, 2 = b) with the largest range, and that range */
+    axis: number;
+    range: number;
+}
+
+function binChannel(bin: number, axis: number): number {
+    return (bin >> (BIN_BITS * (2 - axis))) & ((1 << BIN_BITS) - 1);
+}
+
+function createBox(bins: number[], counts: Uint32Array): ColorBox {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    let count = 0;
+    for (const bin of bins) {
+        count += counts[bin];
+        for (let axis = 0; axis < 3; axis++) {
+            const value = binChannel(bin, axis);
+            if (value < min[axis]) min[axis] = value;
+            if (value > max[axis]) max[axis] = value;
+        }
+    }
+
+    let axis = 0;
+    for (let candidate = 1; candidate < 3; candidate++) {
+        if (max[candidate] - min[candidate] > max[axis] - min[axis]) axis = candidate;
+    }
+    return { bins, count, axis, range: max[axis] - min[axis] };
+}
+
+/**
+ * Median-cut the histogram into at most maxColors boxes, splitting the box with the most
+ * pixels times colour spread each time
+ */
+function medianCut(counts: Uint32Array, maxColors: number): ColorBox[] {
+    const used: number[] = [];
+    for (let bin = 0; bin < BIN_COUNT; bin++) {
+        if (counts[bin] > 0) used.push(bin);
+    }
+    if (used.length === 0) return [];
+
+    const boxes = [createBox(used, counts)];
+    while (boxes.length < maxColors) {
+        let target = -1;
+        let bestScore = 0;
+        boxes.forEach((box, index) => {
+            const score = box.count * box.range;
+            if (box.bins.length > 1 && score > bestScore) {
+                bestScore = score;
+                target = index;
+            }
+        });
+        if (target === -1) break;
+
+        const box = boxes[target];
+        const sorted = [...box.bins].sort((a, b) => binChannel(a, box.axis) - binChannel(b, box.axis));
+
+        // Split where half of the box's pixels fall on each side, keeping both halves non-empty
+        let seen = 0;
+        let split = 1;
+        for (; split < sorted.length - 1; split++) {
+            seen += counts[sorted[split - 1]];
+            if (seen >= box.count / 2) break;
+        }
+
+        boxes.splice(target, 1, createBox(sorted.slice(0, split), counts), createBox(sorted.slice(split), counts));
+    }
+    return boxes;
+}
+
+/**
+ * Quantize a frame to a palette and an index per pixel
+ */
+function quantize(image: RawImageData): { palette: Uint8Array; indices: Uint8Array; transparentIndex: number } {
+    const { data } = image;
+    const pixelCount = image.width * image.height;
+
+    const counts = new Uint32Array(BIN_COUNT);
+    const sums = new Float64Array(BIN_COUNT * 3);
+    let hasTransparency = false;
+
+    for (let i = 0, offset = 0; i < pixelCount; i++, offset += 4) {
+        if (data[offset + 3] < 128) {
+            hasTransparency = true;
+            continue;
+        }
+        const bin = ((data[offset] >> 3) << 10) | ((data[offset + 1] >> 3) << 5) | (data[offset + 2] >> 3);
+        counts[bin]++;
+        sums[bin * 3] += data[offset];
+        sums[bin * 3 + 1] += data[offset + 1];
+        sums[bin * 3 + 2] += data[offset + 2];
+    }
+
+    const boxes = medianCut(counts, hasTransparency ? 255 : 256);
+
+    // Palette entries are the pixel-weighted average colour of each box
+    const lookup = new Uint8Array(BIN_COUNT);
+    const colorCount = Math.max(boxes.length + (hasTransparency ? 1 : 0), 2);
+    let tableBits = 1;
+    while (1 << tableBits < colorCount) tableBits++;
+    const palette = new Uint8Array(3 << tableBits);
+
+    boxes.forEach((box, index) => {
+        let r = 0, g = 0, b = 0;
+        for (const bin of box.bins) {
+            lookup[bin] = index;
+            r += sums[bin * 3];
+            g += sums[bin * 3 + 1];
+            b += sums[bin * 3 + 2];
+        }
+        palette[index * 3] = Math.round(r / box.count);
+        palette[index * 3 + 1] = Math.round(g / box.count);
+        palette[index * 3 + 2] = Math.round(b / box.count);
+    });
+
+    const transparentIndex = hasTransparency ? boxes.length : -1;
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0, offset = 0; i < pixelCount; i++, offset += 4) {
+        indices[i] = data[offset + 3] < 128
+            ? transparentIndex
+            : lookup[((data[offset] >> 3) << 10) | ((data[offset + 1] >> 3) << 5) | (data[offset + 2] >> 3)];
+    }
+
+    return { palette, indices, transparentIndex };
+}
+
+/**
+ * GIF-flavoured LZW: variable code width up to 12 bits, LSB-first packing, and a clear code
+ * whenever the table fills up
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteWriter): void {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+
+    // Open-addressing hash table from (prefix code, next index) to code; cheap to clear
+    const tableSize = 5003;
+    const keys = new Int32Array(tableSize).fill(-1);
+    const codes = new Int32Array(tableSize);
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+
+    // Codes are packed into sub-blocks of at most 255 bytes
+    const block = new Uint8Array(255);
+    let blockLength = 0;
+    let bitBuffer = 0;
+    let bitCount = 0;
+
+    const flushBlock = () => {
+        if (blockLength === 0) return;
+        out.byte(blockLength);
+        out.bytes(block.subarray(0, blockLength));
+        blockLength = 0;
+    };
+
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block[blockLength++] = bitBuffer & 0xff;
+            if (blockLength === 255) flushBlock();
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const index = indices[i];
+        const key = (index << 12) | prefix;
+
+        let slot = key % tableSize;
+        while (keys[slot] !== -1 && keys[slot] !== key) {
+            slot = slot + 1 === tableSize ? 0 : slot + 1;
+        }
+
+        if (keys[slot] === key) {
+            prefix = codes[slot];
+            continue;
+        }
+
+        emit(prefix);
+        if (nextCode > MAX_CODE) {
+            emit(clearCode);
+            keys.fill(-1);
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            keys[slot] = key;
+            codes[slot] = nextCode++;
+        }
+        prefix = index;
+    }
+
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) {
+        block[blockLength++] = bitBuffer & 0xff;
+    }
+    flushBlock();
+    out.byte(0);
+}
+
+/**
+ * Encode one frame with its own palette. delayMs is rounded to GIF's 10 ms resolution.
+ */
+export function encodeGifFrame(image: RawImageData, delayMs: number): GifFrame {
+    const { palette, indices, transparentIndex } = quantize(image);
+    const tableBits = Math.log2(palette.length / 3);
+    const out = createByteWriter();
+
+    // Graphic control extension: disposal, delay and transparency
+    const hasTransparency = transparentIndex >= 0;
+    // Restore to background between transparent frames so earlier frames don't show through
+    const disposal = hasTransparency ? 2 : 1;
+    out.bytes([0x21, 0xf9, 0x04, (disposal << 2) | (hasTransparency ? 1 : 0)]);
+    out.uint16(Math.max(2, Math.round(delayMs / 10)));
+    out.byte(hasTransparency ? transparentIndex : 0);
+    out.byte(0);
+
+    // Image descriptor covering the whole canvas, followed by the local colour table
+    out.byte(0x2c);
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(image.width);
+    out.uint16(image.height);
+    out.byte(0x80 | (tableBits - 1));
+    out.bytes(palette);
+
+    const minCodeSize = Math.max(2, tableBits);
+    out.byte(minCodeSize);
+    lzwEncode(indices, minCodeSize, out);
+
+    return { bytes: out.toBytes() };
+}
+
+/**
+ * Wrap encoded frames, in playback order, into a GIF file
+ */
+export function assembleGif(options: GifOptions, frames: GifFrame[]): Blob {
+    const header = createByteWriter();
+    header.ascii('GIF89a');
+    header.uint16(options.width);
+    header.uint16(options.height);
+    // No global colour table; every frame carries its own
+    header.bytes([0, 0, 0]);
+
+    if (options.loop) {
+        // NETSCAPE2.0 application extension, loop count 0 = forever
+        header.bytes([0x21, 0xff, 0x0b]);
+        header.ascii('NETSCAPE2.0');
+        header.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+    }
+
+    return new Blob([header.toBytes(), ...frames.map(frame => frame.bytes), new Uint8Array([0x3b])], { type: 'image/gif' });
+}
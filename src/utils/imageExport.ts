@@ -0,0 +1,140 @@
+import { getCanvasContext, toImageData } from './canvasColorSpace';
+import { getBaseName } from './download';
+import type { RawImageData } from './imageStretching';
+import { insertPngTextChunk } from './pngText';
+import type { StretchSettings } from './stretchSettings';
+
+export const EXPORT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_FORMAT_LABELS: { [format in ExportFormat]: string } = {
+    png: 'PNG (lossless)',
+    jpeg: 'JPEG',
+    webp: 'WebP'
+};
+
+const MIME_TYPES: { [format in ExportFormat]: string } = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp'
+};
+
+const EXTENSIONS: { [format in ExportFormat]: string } = {
+    png: 'png',
+    jpeg: 'jpg',
+    webp: 'webp'
+};
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}_{direction}_{rate}_{start}';
+
+export const FILENAME_FIELDS = ['name', 'direction', 'rate', 'start', 'profile', 'width', 'height'] as const;
+export type FileNameField = typeof FILENAME_FIELDS[number];
+export type FileNameValues = { [field in FileNameField]: string };
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** 0..1, used by JPEG and WebP */
+    quality: number;
+    /** Base name pattern; `{field}` placeholders are filled from FileNameValues */
+    fileNameTemplate: string;
+    /** PNG only: store the stretch settings in a tEXt chunk */
+    embedSettings: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'png',
+    quality: 0.92,
+    fileNameTemplate: DEFAULT_FILENAME_TEMPLATE,
+    embedSettings: true
+};
+
+/**
+ * Thrown when the browser cannot produce the requested file
+ */
+export class ImageExportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImageExportError';
+    }
+}
+
+/**
+ * Placeholder values for a result made from the given file with the given (selected step) settings
+ */
+export function getFileNameValues(fileName: string, settings: StretchSettings, width: number, height: number): FileNameValues {
+    return {
+        name: getBaseName(fileName),
+        direction: settings.angle !== null ? `${settings.angle}deg` : settings.direction,
+        rate: settings.profile.type === 'fibonacci' ? String(settings.stretchRate) : settings.profile.type,
+        start: String(settings.startingPixel),
+        profile: settings.profile.type,
+        width: String(width),
+        height: String(height)
+    };
+}
+
+/**
+ * Fill in the template and add the format's extension. Unknown placeholders are kept as
+ * written and characters that file systems reject are replaced with underscores.
+ */
+export function formatFileName(template: string, values: FileNameValues, format: ExportFormat): string {
+    const base = template
+        .replace(/\{(\w+)\}/g, (placeholder, field: string) =>
+            (FILENAME_FIELDS as readonly string[]).includes(field) ? values[field as FileNameField] : placeholder
+        )
+        .replace(/[\\/:*?"<>|]/g, '_')
+        .trim();
+    return `${base || values.name || 'stretched'}.${EXTENSIONS[format]}`;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+    return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
+/**
+ * Encode the image in the chosen format. JPEG has no alpha channel, so transparent areas
+ * are flattened onto white rather than the browser's default black. Pixels in Display P3
+ * are encoded from a P3 canvas, which tags the file with that profile.
+ */
+export async function encodeImage(
+    image: RawImageData,
+    format: ExportFormat,
+    quality: number,
+    colorSpace: PredefinedColorSpace = 'srgb'
+): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = getCanvasContext(canvas, colorSpace);
+    const imageData = toImageData(image, colorSpace);
+
+    if (format === 'jpeg') {
+        const layer = document.createElement('canvas');
+        layer.width = image.width;
+        layer.height = image.height;
+        getCanvasContext(layer, colorSpace).putImageData(imageData, 0, 0);
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(layer, 0, 0);
+    } else {
+        ctx.putImageData(imageData, 0, 0);
+    }
+
+    const blob = await canvasToBlob(canvas, MIME_TYPES[format], quality);
+    if (!blob) {
+        throw new ImageExportError(`Could not encode a ${image.width}×${image.height} image`);
+    }
+    // Browsers fall back to PNG for types they can't encode
+    if (blob.type !== MIME_TYPES[format]) {
+        throw new ImageExportError(`This browser can't save ${EXPORT_FORMAT_LABELS[format]} files`);
+    }
+    return blob;
+}
+
+/**
+ * Add a tEXt entry to an encoded PNG
+ */
+export async function embedPngText(blob: Blob, keyword: string, text: string): Promise<Blob> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    return new Blob([insertPngTextChunk(bytes, keyword, text)], { type: 'image/png' });
+}
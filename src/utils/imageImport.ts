@@ -0,0 +1,212 @@
+import { getCanvasContext } from './canvasColorSpace';
+import { readPngTextChunks, STRETCH_SETTINGS_KEYWORD } from './pngText';
+import { decodeStackHash, type SharedStack } from './urlState';
+
+/**
+ * Every way of opening an image (file picker, drag-and-drop, clipboard, URL) ends up as a File
+ * and goes through validateImageFile, so all of them accept and reject the same inputs.
+ */
+
+/** Largest file accepted, in bytes */
+export const MAX_IMAGE_FILE_SIZE = 50 * 1024 * 1024;
+
+/** Largest decoded image accepted, in pixels; bigger canvases fail or exhaust memory in most browsers */
+export const MAX_IMAGE_PIXELS = 100_000_000;
+
+const IMAGE_EXTENSIONS = /\.(apng|avif|bmp|gif|ico|jpe?g|png|svg|tiff?|webp)$/i;
+
+const EXTENSIONS_BY_TYPE: { [type: string]: string } = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/bmp': 'bmp',
+    'image/svg+xml': 'svg'
+};
+
+/**
+ * Thrown for inputs that can't be opened; the message is shown to the user as is
+ */
+export class ImageImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImageImportError';
+    }
+}
+
+function formatMegabytes(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Reject files that aren't images or are too large to process
+ */
+export function validateImageFile(file: File): void {
+    // Some platforms leave the type empty for dropped files, so fall back to the extension
+    const isImage = file.type ? file.type.startsWith('image/') : IMAGE_EXTENSIONS.test(file.name);
+    if (!isImage) {
+        throw new ImageImportError(`"${file.name}" is not an image${file.type ? ` (${file.type})` : ''}`);
+    }
+    if (file.size === 0) {
+        throw new ImageImportError(`"${file.name}" is empty`);
+    }
+    if (file.size > MAX_IMAGE_FILE_SIZE) {
+        throw new ImageImportError(`"${file.name}" is ${formatMegabytes(file.size)}; the limit is ${formatMegabytes(MAX_IMAGE_FILE_SIZE)}`);
+    }
+}
+
+/**
+ * Reject decoded images whose pixel count would not fit in a canvas
+ */
+export function validateImageDimensions(name: string, width: number, height: number): void {
+    if (width === 0 || height === 0) {
+        throw new ImageImportError(`"${name}" has no pixels`);
+    }
+    if (width * height > MAX_IMAGE_PIXELS) {
+        throw new ImageImportError(`"${name}" is ${width}×${height}; images are limited to ${MAX_IMAGE_PIXELS / 1_000_000} megapixels`);
+    }
+}
+
+/**
+ * True for text that looks like something fetchImageFile can load
+ */
+export function isImageUrl(text: string): boolean {
+    return /^https?:\/\/\S+$/i.test(text) || /^data:image\/[\w.+-]+[;,]/i.test(text);
+}
+
+function fileNameFromUrl(url: string, type: string): string {
+    const extension = EXTENSIONS_BY_TYPE[type] ?? 'png';
+    if (url.startsWith('data:')) return `pasted-image.${extension}`;
+
+    try {
+        const name = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+        if (name) return IMAGE_EXTENSIONS.test(name) ? name : `${name}.${extension}`;
+    } catch {
+        // Fall through to the generic name
+    }
+    return `image.${extension}`;
+}
+
+/**
+ * Download an http(s) or data: URL into a File
+ */
+export async function fetchImageFile(url: string): Promise<File> {
+    const trimmed = url.trim();
+    if (!isImageUrl(trimmed)) {
+        throw new ImageImportError('Enter an http(s) image URL or a data:image URI');
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(trimmed);
+    } catch (error) {
+        console.error('Failed to fetch image URL:', error);
+        // fetch only rejects for network failures, which for images is almost always CORS
+        throw new ImageImportError('Could not download the image; the server may not allow cross-origin requests. Try saving it and opening the file instead.');
+    }
+    if (!response.ok) {
+        throw new ImageImportError(`Could not download the image (HTTP ${response.status})`);
+    }
+
+    // Check the advertised size before downloading the whole body
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > MAX_IMAGE_FILE_SIZE) {
+        throw new ImageImportError(`The image is ${formatMegabytes(contentLength)}; the limit is ${formatMegabytes(MAX_IMAGE_FILE_SIZE)}`);
+    }
+
+    const blob = await response.blob();
+    return new File([blob], fileNameFromUrl(trimmed, blob.type), { type: blob.type });
+}
+
+export type ImageImportSource = { kind: 'file'; file: File } | { kind: 'url'; url: string };
+
+/**
+ * Find an image in a drop or paste: a file first, otherwise a URL in the text data
+ */
+export function getImportSource(dataTransfer: DataTransfer): ImageImportSource | null {
+    const file = dataTransfer.files[0];
+    if (file) return { kind: 'file', file };
+
+    // Images dragged from another page arrive as a URL
+    const text = (dataTransfer.getData('text/uri-list').split(/\r?\n/).find(line => line && !line.startsWith('#'))
+        ?? dataTransfer.getData('text/plain')).trim();
+    return text && isImageUrl(text) ? { kind: 'url', url: text } : null;
+}
+
+/**
+ * Resolve any import source to a validated File
+ */
+export async function resolveImportSource(source: ImageImportSource): Promise<File> {
+    const file = source.kind === 'file' ? source.file : await fetchImageFile(source.url);
+    validateImageFile(file);
+    return file;
+}
+
+/**
+ * Stretch settings embedded in a PNG saved by this app, or null for any other file
+ */
+export async function readEmbeddedSettings(file: File): Promise<SharedStack | null> {
+    if (file.type !== 'image/png' && !/\.png$/i.test(file.name)) return null;
+
+    const text = readPngTextChunks(new Uint8Array(await file.arrayBuffer())).get(STRETCH_SETTINGS_KEYWORD);
+    return text === undefined ? null : decodeStackHash(text);
+}
+
+/**
+ * Decode an image file with its EXIF orientation applied, so phone photos come out upright.
+ * Falls back to an <img> element for formats createImageBitmap can't read from a Blob (SVG).
+ */
+export async function decodeImageBitmap(file: File): Promise<ImageBitmap> {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (bitmapError) {
+        console.log('createImageBitmap failed, decoding through an image element:', bitmapError);
+        const url = URL.createObjectURL(file);
+        try {
+            const img = new Image();
+            img.src = url;
+            await img.decode();
+            bitmap = await createImageBitmap(img);
+        } catch (error) {
+            console.error('Failed to decode image:', error);
+            throw new ImageImportError(`"${file.name}" could not be decoded as an image`);
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+
+    try {
+        validateImageDimensions(file.name, bitmap.width, bitmap.height);
+    } catch (error) {
+        bitmap.close();
+        throw error;
+    }
+    return bitmap;
+}
+
+/**
+ * Draw a decoded image onto the canvas (resizing it) and read its pixels in the given colour space
+ */
+export function readImagePixels(bitmap: ImageBitmap, canvas: HTMLCanvasElement, colorSpace: PredefinedColorSpace): ImageData {
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = getCanvasContext(canvas, colorSpace);
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height, { colorSpace });
+}
+
+/**
+ * Validate and decode an image file to its pixels, e.g. for batch processing where the
+ * image is never shown on the page
+ */
+export async function decodeImageFile(file: File, colorSpace: PredefinedColorSpace = 'srgb'): Promise<ImageData> {
+    validateImageFile(file);
+    const bitmap = await decodeImageBitmap(file);
+    try {
+        return readImagePixels(bitmap, document.createElement('canvas'), colorSpace);
+    } finally {
+        bitmap.close();
+    }
+}
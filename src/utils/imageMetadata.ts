@@ -0,0 +1,247 @@
+import { isPng } from './pngText';
+
+/**
+ * Facts about an opened image for the sidebar. Browsers apply EXIF orientation and colour
+ * profiles while decoding but don't report them, so both are read from the file's bytes:
+ * the EXIF orientation tag of JPEGs and the embedded ICC profile of JPEGs and PNGs.
+ */
+export interface ImageMetadata {
+    /** Short format name, e.g. "JPEG" */
+    format: string;
+    fileSize: number;
+    /** Size after orientation is applied, i.e. as the image is shown */
+    width: number;
+    height: number;
+    /** EXIF orientation, 1 (as stored) to 8 */
+    orientation: number;
+    /** Name of the embedded colour profile, or null if there is none */
+    colorProfile: string | null;
+}
+
+export const ORIENTATION_LABELS: { [orientation: number]: string } = {
+    1: 'Normal',
+    2: 'Mirrored',
+    3: 'Rotated 180°',
+    4: 'Flipped vertically',
+    5: 'Rotated 90° and mirrored',
+    6: 'Rotated 90° clockwise',
+    7: 'Rotated 90° counter-clockwise and mirrored',
+    8: 'Rotated 90° counter-clockwise'
+};
+
+const FORMATS_BY_TYPE: { [type: string]: string } = {
+    'image/png': 'PNG',
+    'image/apng': 'APNG',
+    'image/jpeg': 'JPEG',
+    'image/gif': 'GIF',
+    'image/webp': 'WebP',
+    'image/avif': 'AVIF',
+    'image/bmp': 'BMP',
+    'image/svg+xml': 'SVG',
+    'image/tiff': 'TIFF',
+    'image/x-icon': 'ICO',
+    'image/vnd.microsoft.icon': 'ICO'
+};
+
+/**
+ * Format name from the file's type, or its extension when the type is missing or unknown
+ */
+export function getImageFormat(file: Pick<File, 'name' | 'type'>): string {
+    const byType = FORMATS_BY_TYPE[file.type];
+    if (byType) return byType;
+
+    const dot = file.name.lastIndexOf('.');
+    const extension = dot > 0 ? file.name.slice(dot + 1).toUpperCase() : '';
+    return extension === 'JPG' ? 'JPEG' : extension || 'Unknown';
+}
+
+/**
+ * File size for display, e.g. "812 KB" or "3.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isJpeg(bytes: Uint8Array): boolean {
+    return bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+function readUint16(bytes: Uint8Array, offset: number, littleEndian = false): number {
+    return littleEndian ? bytes[offset] | (bytes[offset + 1] << 8) : (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32(bytes: Uint8Array, offset: number, littleEndian = false): number {
+    return littleEndian
+        ? (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+        : ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+// Profile names are short; anything longer is cut rather than trusted
+const MAX_PROFILE_NAME_LENGTH = 256;
+
+// Latin-1 text, at most maxLength characters and cut at the first NUL
+function readLatin1(bytes: Uint8Array, maxLength: number): string {
+    const text = bytes.subarray(0, maxLength);
+    const end = text.indexOf(0);
+    return new TextDecoder('latin1').decode(end === -1 ? text : text.subarray(0, end));
+}
+
+function startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+    return offset + text.length <= bytes.length && Array.from(text).every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+}
+
+// Calls visit with the marker and data of each JPEG segment before the image data
+function forEachJpegSegment(bytes: Uint8Array, visit: (marker: number, data: Uint8Array) => void): void {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan and end of image: no metadata follows
+        if (marker === 0xda || marker === 0xd9) return;
+
+        const length = readUint16(bytes, offset + 2);
+        if (length < 2 || offset + 2 + length > bytes.length) return;
+        visit(marker, bytes.subarray(offset + 4, offset + 2 + length));
+        offset += 2 + length;
+    }
+}
+
+/**
+ * EXIF orientation of a JPEG, or 1 when there is none (or the file isn't a JPEG)
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+    if (!isJpeg(bytes)) return 1;
+
+    let orientation = 1;
+    forEachJpegSegment(bytes, (marker, data) => {
+        if (marker !== 0xe1 || !startsWith(data, 0, 'Exif\0\0')) return;
+
+        // TIFF header: byte order, 42, then the offset of the first IFD
+        const tiff = data.subarray(6);
+        if (tiff.length < 8) return;
+        const littleEndian = startsWith(tiff, 0, 'II');
+        if (!littleEndian && !startsWith(tiff, 0, 'MM')) return;
+
+        const ifd = readUint32(tiff, 4, littleEndian);
+        if (ifd + 2 > tiff.length) return;
+        const count = readUint16(tiff, ifd, littleEndian);
+        for (let i = 0; i < count; i++) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > tiff.length) return;
+            if (readUint16(tiff, entry, littleEndian) === 0x0112) {
+                const value = readUint16(tiff, entry + 8, littleEndian);
+                if (value >= 1 && value <= 8) orientation = value;
+                return;
+            }
+        }
+    });
+    return orientation;
+}
+
+/**
+ * Description of an ICC profile ('desc' tag, as text in v2 profiles or Unicode in v4)
+ */
+export function readIccDescription(profile: Uint8Array): string | null {
+    if (profile.length < 132) return null;
+
+    const tagCount = readUint32(profile, 128);
+    for (let i = 0; i < tagCount; i++) {
+        const tag = 132 + i * 12;
+        if (tag + 12 > profile.length) return null;
+        if (!startsWith(profile, tag, 'desc')) continue;
+
+        const start = readUint32(profile, tag + 4);
+        const size = readUint32(profile, tag + 8);
+        if (start + size > profile.length || size < 12) return null;
+        const data = profile.subarray(start, start + size);
+
+        if (startsWith(data, 0, 'desc')) {
+            const length = readUint32(data, 8);
+            return readLatin1(data.subarray(12), Math.min(length, MAX_PROFILE_NAME_LENGTH)).trim() || null;
+        }
+        if (startsWith(data, 0, 'mluc') && data.length >= 28) {
+            // First localized record: language, country, length, offset (from the tag start)
+            const length = readUint32(data, 20);
+            const offset = readUint32(data, 24);
+            if (offset + length > data.length) return null;
+            let text = '';
+            for (let j = 0; j + 1 < Math.min(length, MAX_PROFILE_NAME_LENGTH * 2); j += 2) {
+                text += String.fromCharCode(readUint16(data, offset + j));
+            }
+            return text.replace(/\0+$/, '').trim() || null;
+        }
+        return null;
+    }
+    return null;
+}
+
+/**
+ * Name of the colour profile embedded in a JPEG or PNG, or null if there is none
+ */
+export function readColorProfileName(bytes: Uint8Array): string | null {
+    if (isJpeg(bytes)) {
+        // The profile may be split over several APP2 segments, numbered from 1
+        const chunks: { index: number; data: Uint8Array }[] = [];
+        forEachJpegSegment(bytes, (marker, data) => {
+            if (marker === 0xe2 && startsWith(data, 0, 'ICC_PROFILE\0') && data.length > 14) {
+                chunks.push({ index: data[12], data: data.subarray(14) });
+            }
+        });
+        if (chunks.length === 0) return null;
+
+        chunks.sort((a, b) => a.index - b.index);
+        const profile = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.data.length, 0));
+        let offset = 0;
+        for (const chunk of chunks) {
+            profile.set(chunk.data, offset);
+            offset += chunk.data.length;
+        }
+        return readIccDescription(profile) ?? 'Embedded ICC profile';
+    }
+
+    if (isPng(bytes)) {
+        // Colour chunks come before the image data; the iCCP chunk starts with the profile name
+        let offset = 8;
+        while (offset + 12 <= bytes.length) {
+            const length = readUint32(bytes, offset);
+            const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+            const data = bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + length));
+            if (type === 'IDAT' || type === 'IEND') break;
+
+            if (type === 'iCCP') {
+                // The profile name is 1 to 79 Latin-1 characters
+                return readLatin1(data, 79) || 'Embedded ICC profile';
+            }
+            if (type === 'sRGB') return 'sRGB';
+            offset += 12 + length;
+        }
+    }
+    return null;
+}
+
+/**
+ * What is known of a decoded image without reading its bytes: no orientation or profile
+ */
+export function getBasicImageMetadata(file: File, width: number, height: number): ImageMetadata {
+    return {
+        format: getImageFormat(file),
+        fileSize: file.size,
+        width,
+        height,
+        orientation: 1,
+        colorProfile: null
+    };
+}
+
+/**
+ * Metadata of a decoded image file; width and height are the decoded (oriented) size
+ */
+export async function readImageMetadata(file: File, width: number, height: number): Promise<ImageMetadata> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return {
+        ...getBasicImageMetadata(file, width, height),
+        orientation: readExifOrientation(bytes),
+        colorProfile: readColorProfileName(bytes)
+    };
+}
@@ -1,15 +1,60 @@
+import {
+    decodeColor,
+    easeInterpolation,
+    encodeColor,
+    getInterpolationColorSpace,
+    type InterpolationMode,
+    type PixelColorSpace
+} from './interpolation';
+import { fitIndexListToLength, getOutputLength, MAX_OUTPUT_LENGTH, type OutputSize } from './outputSize';
+import { createProfileGaps, StretchProfileError, type StretchProfile } from './stretchProfiles';
+
+export const STRETCH_DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+
+export type StretchDirection = typeof STRETCH_DIRECTIONS[number];
+
 export interface StretchParams {
     stretchRate: number;
     startingPixel: number;
-    direction: 'up' | 'down' | 'left' | 'right';
+    direction: StretchDirection;
+    /** Blend colours weighted by alpha to avoid dark fringes around transparent areas (default true) */
+    premultiplyAlpha?: boolean;
+    /** How the gap between two source rows is filled (default 'linear') */
+    interpolation?: InterpolationMode;
+    /** Colour space of the pixels, which OKLab blending converts from (default 'srgb') */
+    colorSpace?: PixelColorSpace;
+    /** Gap sizes inserted after each source row (default: Fibonacci table scaled by stretchRate) */
+    profile?: StretchProfile;
+    /**
+     * Stretch along any direction instead: degrees clockwise from pointing right (90 = down).
+     * direction is ignored, and startingPixel is the distance of the start line from the
+     * image's trailing edge, measured along the stretch (see getAngleAxisLength).
+     */
+    angle?: number;
+    /**
+     * Size of the result along the stretch axis (default: cropped to the original size).
+     * Angle mode always keeps the original size.
+     */
+    outputSize?: OutputSize;
 }
 
-export interface StretchedImageData {
+/**
+ * Plain RGBA pixel buffer. Structurally compatible with the DOM ImageData so the
+ * pipeline runs in the browser, in workers and under Node alike.
+ */
+export interface RawImageData {
     data: Uint8ClampedArray;
     width: number;
     height: number;
 }
 
+export type StretchedImageData = RawImageData;
+
+/**
+ * Progress callback invoked once per processed source row (processedRows / totalRows)
+ */
+export type StretchProgressCallback = (processedRows: number, totalRows: number) => void;
+
 /**
  * Create index list based on stretch rate (replicating Python create_index_list)
  * Higher values create faster degradation into uniform color
@@ -42,350 +87,678 @@ export function createIndexList(stretchRate: number = 13): number[] {
 }
 
 /**
- * Create gradient between two rows of pixels (replicating Python create_gradient)
+ * Resolve the index list (gap sizes per source row) for the given params.
+ * Throws StretchProfileError for an invalid profile or stretch rate.
  */
-function createGradient(twoRowArray: Uint8ClampedArray[], gradientSize: number, width: number): Uint8ClampedArray[] {
-    const gradientArray: Uint8ClampedArray[] = [];
+export function resolveIndexList(params: Pick<StretchParams, 'stretchRate' | 'profile'>): number[] {
+    const { stretchRate, profile = { type: 'fibonacci' } } = params;
 
-    // Initialize gradient array
-    for (let i = 0; i < gradientSize + 2; i++) {
-        gradientArray.push(new Uint8ClampedArray(width * 4));
+    if (profile.type === 'fibonacci') {
+        if (!Number.isInteger(stretchRate) || stretchRate < 1 || stretchRate > 13) {
+            throw new StretchProfileError(`Stretch rate must be an integer between 1 and 13, got ${stretchRate}`);
+        }
+        return createIndexList(stretchRate);
     }
 
-    // Set first and last rows
-    gradientArray[0].set(twoRowArray[0]);
-    gradientArray[gradientSize + 1].set(twoRowArray[1]);
+    return createProfileGaps(profile);
+}
 
-    // Create gradient between rows
-    for (let gradientRow = 1; gradientRow <= gradientSize; gradientRow++) {
-        for (let col = 0; col < width; col++) {
-            for (let c = 0; c < 3; c++) { // RGB only, keep A as 255
-                const startVal = gradientArray[0][col * 4 + c];
-                const endVal = gradientArray[gradientSize + 1][col * 4 + c];
-                const step = (endVal - startVal) / (gradientSize + 1);
-                gradientArray[gradientRow][col * 4 + c] = Math.round(startVal + step * gradientRow);
-            }
-            // Keep alpha channel
-            gradientArray[gradientRow][col * 4 + 3] = 255;
-        }
+/**
+ * Convert a start position as seen on screen (the column or row where the stretch begins)
+ * into the startingPixel expected by stretchImage. Left/right are mirrored by the rotation,
+ * so their column has to be inverted.
+ */
+export function resolveStartingPixel(position: number, direction: StretchDirection, imageWidth: number): number {
+    if (direction === 'left' || direction === 'right') {
+        return imageWidth - 1 - position;
     }
+    return position;
+}
+
+/**
+ * Angle in degrees for each direction; clockwise from right, as y points down on screen
+ */
+export const DIRECTION_ANGLES: { [direction in StretchDirection]: number } = {
+    right: 0,
+    down: 90,
+    left: 180,
+    up: 270
+};
+
+export function normalizeAngle(angle: number): number {
+    return ((angle % 360) + 360) % 360;
+}
 
-    return gradientArray;
+/**
+ * The direction an angle points in, if it is exactly horizontal or vertical
+ */
+export function getCardinalDirection(angle: number): StretchDirection | null {
+    const normalized = normalizeAngle(angle);
+    return STRETCH_DIRECTIONS.find(direction => Math.abs(DIRECTION_ANGLES[direction] - normalized) < 1e-9) ?? null;
 }
 
 /**
- * Build new image using index list and gradients (replicating Python build_new_image)
+ * Number of start-line positions for an angle: the image's extent along the stretch direction
  */
-function buildNewImage(indexList: number[], sourceImageData: ImageData, startingPixel: number): StretchedImageData {
-    const width = sourceImageData.width;
-    const height = sourceImageData.height;
-    const sourceData = sourceImageData.data;
+export function getAngleAxisLength(angle: number, width: number, height: number): number {
+    const radians = (normalizeAngle(angle) * Math.PI) / 180;
+    return Math.round((width - 1) * Math.abs(Math.cos(radians)) + (height - 1) * Math.abs(Math.sin(radians))) + 1;
+}
 
-    console.log('Building new image with:', { width, height, startingPixel, indexListLength: indexList.length });
+/**
+ * Options controlling how a gradient fills the gap between two rows
+ */
+export interface GradientOptions {
+    interpolation: InterpolationMode;
+    premultiplyAlpha: boolean;
+    colorSpace?: PixelColorSpace;
+}
 
-    // Calculate new height based on index list (don't constrain yet)
-    let newHeight = startingPixel;
-    for (let i = 0; i < Math.min(indexList.length, height - startingPixel - 1); i++) {
-        newHeight += indexList[i] + 1;
+/**
+ * An image as seen by a downward stretch: `rows` lines of `columns` pixels, addressed through
+ * strides into the RGBA data so that up, left and right read and write the image in place
+ * instead of through rotated copies. Row 0 is the edge the stretch moves away from.
+ */
+export interface StretchView {
+    rows: number;
+    columns: number;
+    /** Index of the first channel of row 0, column 0 */
+    origin: number;
+    rowStride: number;
+    columnStride: number;
+}
+
+/**
+ * View of a width×height image for the given direction; the same view maps a stretched
+ * result back, so the output never needs rotating
+ */
+export function getStretchView(width: number, height: number, direction: StretchDirection): StretchView {
+    const rowBytes = width * 4;
+    switch (direction) {
+        case 'up':
+            // Rotated 180°: bottom row first, read right to left
+            return { rows: height, columns: width, origin: (height * width - 1) * 4, rowStride: -rowBytes, columnStride: -4 };
+        case 'right':
+            // Rotated 90° clockwise: left column first, read bottom to top
+            return { rows: width, columns: height, origin: (height - 1) * rowBytes, rowStride: 4, columnStride: -rowBytes };
+        case 'left':
+            // Rotated 90° counterclockwise: right column first, read top to bottom
+            return { rows: width, columns: height, origin: (width - 1) * 4, rowStride: -4, columnStride: rowBytes };
+        default:
+            return { rows: height, columns: width, origin: 0, rowStride: rowBytes, columnStride: 4 };
     }
+}
 
-    console.log('Calculated new height:', newHeight);
+function copyPixels(
+    source: Uint8ClampedArray,
+    sourceOffset: number,
+    sourceStride: number,
+    target: Uint8ClampedArray,
+    targetOffset: number,
+    targetStride: number,
+    count: number
+): void {
+    if (sourceStride === 4 && targetStride === 4) {
+        target.set(source.subarray(sourceOffset, sourceOffset + count * 4), targetOffset);
+        return;
+    }
+    for (let i = 0; i < count; i++) {
+        const from = sourceOffset + i * sourceStride;
+        const to = targetOffset + i * targetStride;
+        target[to] = source[from];
+        target[to + 1] = source[from + 1];
+        target[to + 2] = source[from + 2];
+        target[to + 3] = source[from + 3];
+    }
+}
 
-    // Create new image data array
-    const newData = new Uint8ClampedArray(newHeight * width * 4);
+/**
+ * Write the first `rowCount` of the `gradientSize` rows between two rows of pixels straight
+ * into the target (replicating Python create_gradient, without the two rows themselves).
+ * Rows are addressed like in a StretchView, so the gradient can land in a rotated image.
+ * Alpha is interpolated like the colour channels. With premultiplyAlpha the colours are
+ * weighted by their alpha while blending, so transparent pixels don't bleed their (usually
+ * black) colour into the edges of opaque ones.
+ */
+function writeGradient(
+    source: Uint8ClampedArray,
+    startOffset: number,
+    endOffset: number,
+    sourceColumnStride: number,
+    target: Uint8ClampedArray,
+    targetOffset: number,
+    targetView: Pick<StretchView, 'rowStride' | 'columnStride'>,
+    columns: number,
+    gradientSize: number,
+    rowCount: number,
+    options: GradientOptions
+): void {
+    const { interpolation, premultiplyAlpha, colorSpace: pixelColorSpace = 'srgb' } = options;
+    const { rowStride, columnStride } = targetView;
+    if (rowCount <= 0) return;
+
+    // Blend weight for each gradient row, shaped by the interpolation curve
+    const weights = new Float32Array(gradientSize + 1);
+    for (let gradientRow = 1; gradientRow <= gradientSize; gradientRow++) {
+        weights[gradientRow] = easeInterpolation(gradientRow / (gradientSize + 1), interpolation);
+    }
 
-    // Copy rows before starting pixel unchanged
-    for (let row = 0; row < startingPixel; row++) {
-        const sourceStart = row * width * 4;
-        const targetStart = row * width * 4;
-        for (let i = 0; i < width * 4; i++) {
-            newData[targetStart + i] = sourceData[sourceStart + i];
+    const colorSpace = getInterpolationColorSpace(interpolation);
+    const startColor = new Float32Array(3);
+    const endColor = new Float32Array(3);
+    const blended = new Float32Array(3);
+
+    // Create gradient between rows
+    for (let col = 0; col < columns; col++) {
+        const first = startOffset + col * sourceColumnStride;
+        const last = endOffset + col * sourceColumnStride;
+        const startAlpha = source[first + 3];
+        const endAlpha = source[last + 3];
+
+        // Premultiplying is a no-op when alpha doesn't change, so keep the exact straight path then
+        const blendPremultiplied = premultiplyAlpha && startAlpha !== endAlpha;
+
+        if (interpolation === 'linear') {
+            // Original byte-exact ramp on gamma-encoded values
+            for (let gradientRow = 1; gradientRow <= rowCount; gradientRow++) {
+                const pixel = targetOffset + (gradientRow - 1) * rowStride + col * columnStride;
+                const alpha = startAlpha + ((endAlpha - startAlpha) / (gradientSize + 1)) * gradientRow;
+
+                for (let c = 0; c < 3; c++) {
+                    const startVal = source[first + c];
+                    const endVal = source[last + c];
+
+                    if (blendPremultiplied) {
+                        const startPremultiplied = startVal * startAlpha;
+                        const endPremultiplied = endVal * endAlpha;
+                        const step = (endPremultiplied - startPremultiplied) / (gradientSize + 1);
+                        const premultiplied = startPremultiplied + step * gradientRow;
+                        target[pixel + c] = alpha > 0 ? Math.round(premultiplied / alpha) : 0;
+                    } else {
+                        const step = (endVal - startVal) / (gradientSize + 1);
+                        target[pixel + c] = Math.round(startVal + step * gradientRow);
+                    }
+                }
+
+                target[pixel + 3] = Math.round(alpha);
+            }
+            continue;
+        }
+
+        encodeColor(colorSpace, source[first], source[first + 1], source[first + 2], startColor, 0, pixelColorSpace);
+        encodeColor(colorSpace, source[last], source[last + 1], source[last + 2], endColor, 0, pixelColorSpace);
+
+        for (let gradientRow = 1; gradientRow <= rowCount; gradientRow++) {
+            const pixel = targetOffset + (gradientRow - 1) * rowStride + col * columnStride;
+            const weight = weights[gradientRow];
+            const alpha = startAlpha + (endAlpha - startAlpha) * weight;
+
+            for (let c = 0; c < 3; c++) {
+                if (blendPremultiplied) {
+                    const startPremultiplied = startColor[c] * startAlpha;
+                    const endPremultiplied = endColor[c] * endAlpha;
+                    const premultiplied = startPremultiplied + (endPremultiplied - startPremultiplied) * weight;
+                    blended[c] = alpha > 0 ? premultiplied / alpha : 0;
+                } else {
+                    blended[c] = startColor[c] + (endColor[c] - startColor[c]) * weight;
+                }
+            }
+
+            decodeColor(colorSpace, blended[0], blended[1], blended[2], target, pixel, pixelColorSpace);
+            target[pixel + 3] = Math.round(alpha);
         }
     }
+}
 
-    let newRowIndex = startingPixel;
-    let indexListIndex = 0;
+/**
+ * Number of rows a stretch from startingPixel produces: the rows before the start, each
+ * stretched source row with its gap, and the source row the last gradient leads up to
+ */
+function getStretchedRowCount(indexList: number[], rows: number, startingPixel: number): number {
+    const totalRows = Math.max(0, Math.min(indexList.length, rows - startingPixel - 1));
+    let stretchedRows = Math.min(startingPixel, rows) + (startingPixel < rows ? 1 : 0);
+    for (let i = 0; i < totalRows; i++) {
+        stretchedRows += indexList[i] + 1;
+    }
+    return stretchedRows;
+}
 
-    // Process rows from starting pixel using index list
-    for (let sourceRow = startingPixel; sourceRow < height - 1 && indexListIndex < indexList.length; sourceRow++) {
-        if (newRowIndex >= newHeight) break;
+/**
+ * Stretch the source view into the target view, writing each row once. Output stops at the
+ * target's row count, so a crop costs nothing; a target longer than the stretch is padded by
+ * repeating the last row. Returns the number of rows the stretch itself produced.
+ */
+export function stretchIntoView(
+    source: Uint8ClampedArray,
+    sourceView: StretchView,
+    target: Uint8ClampedArray,
+    targetView: StretchView,
+    indexList: number[],
+    startingPixel: number,
+    gradientOptions: GradientOptions,
+    onProgress?: StretchProgressCallback
+): number {
+    const { columns } = sourceView;
+    const outputRows = targetView.rows;
+    const sourceRowOffset = (row: number) => sourceView.origin + row * sourceView.rowStride;
+    const targetRowOffset = (row: number) => targetView.origin + row * targetView.rowStride;
+
+    let targetRow = 0;
+    const copySourceRow = (row: number) => {
+        copyPixels(source, sourceRowOffset(row), sourceView.columnStride, target, targetRowOffset(targetRow), targetView.columnStride, columns);
+        targetRow++;
+    };
 
-        const gradientSize = indexList[indexListIndex];
+    // Copy rows before starting pixel unchanged
+    const unchangedRows = Math.min(startingPixel, sourceView.rows, outputRows);
+    for (let row = 0; row < unchangedRows; row++) {
+        copySourceRow(row);
+    }
+
+    // Process rows from starting pixel using index list
+    const totalRows = Math.max(0, Math.min(indexList.length, sourceView.rows - startingPixel - 1));
+    let processedRows = 0;
+    for (; processedRows < totalRows && targetRow < outputRows; processedRows++) {
+        const sourceRow = startingPixel + processedRows;
+        const gradientSize = indexList[processedRows];
+
+        copySourceRow(sourceRow);
+        const gradientRows = Math.min(gradientSize, outputRows - targetRow);
+        writeGradient(
+            source, sourceRowOffset(sourceRow), sourceRowOffset(sourceRow + 1), sourceView.columnStride,
+            target, targetRowOffset(targetRow), targetView,
+            columns, gradientSize, gradientRows, gradientOptions
+        );
+        targetRow += gradientRows;
+
+        onProgress?.(processedRows + 1, totalRows);
+    }
 
-        // Get two adjacent rows
-        const row1 = new Uint8ClampedArray(width * 4);
-        const row2 = new Uint8ClampedArray(width * 4);
+    if (processedRows < totalRows) {
+        // Cut off at the crop bound; the rest of the streak would be thrown away
+        onProgress?.(totalRows, totalRows);
+    } else if (startingPixel < sourceView.rows && targetRow < outputRows) {
+        // Finish on the row the last gradient led up to, so starting on the last row (or an
+        // all-zero profile) leaves the image unchanged instead of dropping a row
+        copySourceRow(startingPixel + processedRows);
+    }
 
-        for (let i = 0; i < width * 4; i++) {
-            row1[i] = sourceData[sourceRow * width * 4 + i];
-            row2[i] = sourceData[(sourceRow + 1) * width * 4 + i];
+    const stretchedRows = targetRow;
+    if (stretchedRows > 0) {
+        while (targetRow < outputRows) {
+            copyPixels(target, targetRowOffset(stretchedRows - 1), targetView.columnStride, target, targetRowOffset(targetRow), targetView.columnStride, columns);
+            targetRow++;
         }
+    }
+    return stretchedRows;
+}
 
-        // Create gradient between the two rows
-        const gradientArray = createGradient([row1, row2], gradientSize, width);
+/**
+ * Build new image using index list and gradients (replicating Python build_new_image).
+ * Gradients are written straight into the result, which is the only allocation.
+ */
+export function buildNewImage(indexList: number[], sourceImageData: RawImageData, startingPixel: number, gradientOptions: GradientOptions, onProgress?: StretchProgressCallback): StretchedImageData {
+    const { width, height } = sourceImageData;
 
-        // Copy gradient rows to new image
-        for (let gradRow = 0; gradRow < gradientArray.length - 1 && newRowIndex < newHeight; gradRow++) {
-            const targetStart = newRowIndex * width * 4;
-            for (let i = 0; i < width * 4; i++) {
-                newData[targetStart + i] = gradientArray[gradRow][i];
-            }
-            newRowIndex++;
-        }
+    console.log('Building new image with:', { width, height, startingPixel, indexListLength: indexList.length });
 
-        indexListIndex++;
-    }
+    const newHeight = getStretchedRowCount(indexList, height, startingPixel);
+    console.log('Calculated new height:', newHeight);
 
-    console.log('Final new image dimensions:', { width, height: newRowIndex });
+    const newData = new Uint8ClampedArray(newHeight * width * 4);
+    stretchIntoView(
+        sourceImageData.data, getStretchView(width, height, 'down'),
+        newData, getStretchView(width, newHeight, 'down'),
+        indexList, startingPixel, gradientOptions, onProgress
+    );
 
     return {
         data: newData,
         width: width,
-        height: newRowIndex
+        height: newHeight
     };
 }
 
 /**
- * Crop stretched image to not exceed original dimensions
+ * Bilinear sample with clamp-to-edge, blended with premultiplied alpha so transparent
+ * neighbours don't darken the result
  */
-function cropToOriginalSize(stretchedData: StretchedImageData, originalWidth: number, originalHeight: number, direction: 'up' | 'down' | 'left' | 'right'): StretchedImageData {
-    const { width, height, data } = stretchedData;
-
-    // Always crop to exact original dimensions
-    const cropWidth = originalWidth;
-    const cropHeight = originalHeight;
+function sampleBilinear(image: RawImageData, x: number, y: number, out: Uint8ClampedArray, offset: number): void {
+    const { data, width, height } = image;
+    const clampedX = Math.min(Math.max(x, 0), width - 1);
+    const clampedY = Math.min(Math.max(y, 0), height - 1);
+    const x0 = Math.floor(clampedX);
+    const y0 = Math.floor(clampedY);
+    const x1 = Math.min(x0 + 1, width - 1);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fx = clampedX - x0;
+    const fy = clampedY - y0;
+
+    const i00 = (y0 * width + x0) * 4;
+    const i10 = (y0 * width + x1) * 4;
+    const i01 = (y1 * width + x0) * 4;
+    const i11 = (y1 * width + x1) * 4;
+
+    // Alpha-weighted tap weights
+    const w00 = data[i00 + 3] * (1 - fx) * (1 - fy);
+    const w10 = data[i10 + 3] * fx * (1 - fy);
+    const w01 = data[i01 + 3] * (1 - fx) * fy;
+    const w11 = data[i11 + 3] * fx * fy;
+
+    const alpha = w00 + w10 + w01 + w11;
+    const r = data[i00] * w00 + data[i10] * w10 + data[i01] * w01 + data[i11] * w11;
+    const g = data[i00 + 1] * w00 + data[i10 + 1] * w10 + data[i01 + 1] * w01 + data[i11 + 1] * w11;
+    const b = data[i00 + 2] * w00 + data[i10 + 2] * w10 + data[i01 + 2] * w01 + data[i11 + 2] * w11;
+
+    out[offset] = alpha > 0 ? Math.round(r / alpha) : 0;
+    out[offset + 1] = alpha > 0 ? Math.round(g / alpha) : 0;
+    out[offset + 2] = alpha > 0 ? Math.round(b / alpha) : 0;
+    out[offset + 3] = Math.round(alpha);
+}
 
-    // If already the correct size, return as-is
-    if (width === cropWidth && height === cropHeight) {
-        return stretchedData;
-    }
+/**
+ * Frame in which the stretch runs straight down: rows follow the stretch direction and
+ * columns run along the start line. Sized to the image's bounding box at that angle, so
+ * no corner of the image is cut off.
+ */
+interface AngleFrame {
+    width: number;
+    height: number;
+    /** Unit vector of the columns (along the start line) in image coordinates */
+    ux: number;
+    uy: number;
+    /** Unit vector of the rows (the stretch direction) in image coordinates */
+    dx: number;
+    dy: number;
+    /** Image coordinates of frame pixel (0, 0) */
+    originX: number;
+    originY: number;
+}
 
-    console.log('Cropping stretched image from', `${width}x${height}`, 'to', `${cropWidth}x${cropHeight}`, 'direction:', direction);
+function createAngleFrame(angle: number, width: number, height: number): AngleFrame {
+    const radians = (normalizeAngle(angle) * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    // Perpendicular chosen so that 90° (down) gives the identity frame
+    const ux = dy;
+    const uy = -dx;
 
-    // Create cropped data
-    const croppedData = new Uint8ClampedArray(cropWidth * cropHeight * 4);
+    const frameWidth = Math.round((width - 1) * Math.abs(ux) + (height - 1) * Math.abs(uy)) + 1;
+    const frameHeight = getAngleAxisLength(angle, width, height);
+    const centerX = (width - 1) / 2;
+    const centerY = (height - 1) / 2;
 
-    // Determine starting positions based on direction
-    let startX = 0;
-    let startY = 0;
+    return {
+        width: frameWidth,
+        height: frameHeight,
+        ux, uy, dx, dy,
+        originX: centerX - ((frameWidth - 1) / 2) * ux - ((frameHeight - 1) / 2) * dx,
+        originY: centerY - ((frameWidth - 1) / 2) * uy - ((frameHeight - 1) / 2) * dy
+    };
+}
 
-    switch (direction) {
-        case 'down':
-            // Keep top part, crop bottom
-            startX = 0;
-            startY = 0;
-            break;
-        case 'up':
-            // Keep bottom part, crop top
-            startX = 0;
-            startY = Math.max(0, height - cropHeight);
-            break;
-        case 'right':
-            // Keep left part, crop right
-            startX = 0;
-            startY = 0;
-            break;
-        case 'left':
-            // Keep right part, crop left
-            startX = Math.max(0, width - cropWidth);
-            startY = 0;
-            break;
+/**
+ * Rows [first, last] of a frame column that lie inside the image, or null if none do
+ */
+function getColumnExtent(frame: AngleFrame, column: number, width: number, height: number): [number, number] | null {
+    const startX = frame.originX + column * frame.ux;
+    const startY = frame.originY + column * frame.uy;
+
+    // Slab intersection of the column's line with the image rectangle (pixel edges at ±0.5)
+    let low = -Infinity;
+    let high = Infinity;
+    for (const [start, step, size] of [[startX, frame.dx, width], [startY, frame.dy, height]]) {
+        if (Math.abs(step) < 1e-12) {
+            if (start < -0.5 || start > size - 0.5) return null;
+            continue;
+        }
+        const a = (-0.5 - start) / step;
+        const b = (size - 0.5 - start) / step;
+        low = Math.max(low, Math.min(a, b));
+        high = Math.min(high, Math.max(a, b));
     }
 
-    // Copy the appropriate portion of the stretched image
-    for (let y = 0; y < cropHeight; y++) {
-        for (let x = 0; x < cropWidth; x++) {
-            const sourceX = Math.min(startX + x, width - 1);
-            const sourceY = Math.min(startY + y, height - 1);
-            const sourceIndex = (sourceY * width + sourceX) * 4;
-            const targetIndex = (y * cropWidth + x) * 4;
+    const first = Math.max(0, Math.ceil(low));
+    const last = Math.min(frame.height - 1, Math.floor(high));
+    return first <= last ? [first, last] : null;
+}
 
-            for (let c = 0; c < 4; c++) {
-                croppedData[targetIndex + c] = data[sourceIndex + c];
-            }
+/**
+ * Resample the image into the frame with each column shifted up by its offset, then stretch
+ * it down from startRow into a second frame-sized buffer, cropped to the frame's height.
+ * Returns the stretched frame and the number of rows the stretch produced.
+ */
+function stretchShiftedFrame(
+    imageData: RawImageData,
+    frame: AngleFrame,
+    offsets: Int32Array,
+    indexList: number[],
+    startRow: number,
+    gradientOptions: GradientOptions,
+    onProgress?: StretchProgressCallback
+): { data: Uint8ClampedArray; stretchedRows: number } {
+    const shifted = new Uint8ClampedArray(frame.width * frame.height * 4);
+    for (let row = 0; row < frame.height; row++) {
+        for (let column = 0; column < frame.width; column++) {
+            const sourceRow = Math.min(row + Math.max(offsets[column], 0), frame.height - 1);
+            const x = frame.originX + column * frame.ux + sourceRow * frame.dx;
+            const y = frame.originY + column * frame.uy + sourceRow * frame.dy;
+            sampleBilinear(imageData, x, y, shifted, (row * frame.width + column) * 4);
         }
     }
 
-    return {
-        data: croppedData,
-        width: cropWidth,
-        height: cropHeight
-    };
+    // Rows past the frame's height are never read back, so they're not written either
+    const frameView = getStretchView(frame.width, frame.height, 'down');
+    const data = new Uint8ClampedArray(frame.width * frame.height * 4);
+    const stretchedRows = stretchIntoView(shifted, frameView, data, frameView, indexList, startRow, gradientOptions, onProgress);
+    return { data, stretchedRows };
 }
 
 /**
- * Rotate image data 90 degrees clockwise or counterclockwise
+ * Stretch along an arbitrary angle: resample the image into the angle's frame, stretch down
+ * from the start line and resample back. Where the start line lies outside the image (near
+ * corners), a column starts stretching where it enters the image instead. Besides the input
+ * and the result, at most two frame-sized buffers are alive at a time.
  */
-function rotateImageData(imageData: ImageData, clockwise: boolean = true): ImageData {
-    const { width, height, data } = imageData;
-    const newWidth = height;
-    const newHeight = width;
-    const newData = new Uint8ClampedArray(newWidth * newHeight * 4);
-
-    for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-            const sourceIndex = (y * width + x) * 4;
+function stretchAtAngle(
+    imageData: RawImageData,
+    indexList: number[],
+    angle: number,
+    startingPixel: number,
+    gradientOptions: GradientOptions,
+    onProgress?: StretchProgressCallback
+): StretchedImageData {
+    const { width, height } = imageData;
+    const frame = createAngleFrame(angle, width, height);
+    const startRow = Math.min(Math.max(Math.round(startingPixel), 0), frame.height - 1);
+
+    console.log('Angle frame:', { angle, frameWidth: frame.width, frameHeight: frame.height, startRow });
+
+    // Per column: how far its content is shifted up so it starts stretching at startRow,
+    // or -1 if the start line is past the image in that column (left unstretched)
+    const offsets = new Int32Array(frame.width);
+    for (let column = 0; column < frame.width; column++) {
+        const extent = getColumnExtent(frame, column, width, height);
+        offsets[column] = extent && startRow <= extent[1] ? Math.max(0, extent[0] - startRow) : -1;
+    }
 
-            let newX, newY;
-            if (clockwise) {
-                newX = height - 1 - y;
-                newY = x;
+    const { data: frameData, stretchedRows } = stretchShiftedFrame(imageData, frame, offsets, indexList, startRow, gradientOptions, onProgress);
+
+    // Undo the shift in place, bottom up so each row is read before it's overwritten; rows
+    // before each column's start are resampled unstretched from the image
+    for (let column = 0; column < frame.width; column++) {
+        const offset = offsets[column];
+        const firstStretchedRow = offset < 0 || stretchedRows === 0 ? frame.height : startRow + offset;
+        for (let row = frame.height - 1; row >= 0; row--) {
+            const index = (row * frame.width + column) * 4;
+            if (row >= firstStretchedRow) {
+                const stretchedIndex = ((row - offset) * frame.width + column) * 4;
+                frameData.copyWithin(index, stretchedIndex, stretchedIndex + 4);
             } else {
-                newX = y;
-                newY = width - 1 - x;
+                const x = frame.originX + column * frame.ux + row * frame.dx;
+                const y = frame.originY + column * frame.uy + row * frame.dy;
+                sampleBilinear(imageData, x, y, frameData, index);
             }
+        }
+    }
 
-            const targetIndex = (newY * newWidth + newX) * 4;
-
-            for (let c = 0; c < 4; c++) {
-                newData[targetIndex + c] = data[sourceIndex + c];
-            }
+    // Resample back to the original image grid
+    const frameImage: RawImageData = { data: frameData, width: frame.width, height: frame.height };
+    const result = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const relativeX = x - frame.originX;
+            const relativeY = y - frame.originY;
+            const column = relativeX * frame.ux + relativeY * frame.uy;
+            const row = relativeX * frame.dx + relativeY * frame.dy;
+            sampleBilinear(frameImage, column, row, result, (y * width + x) * 4);
         }
     }
 
-    return new ImageData(newData, newWidth, newHeight);
+    return { data: result, width, height };
+}
+
+/**
+ * Translate an angle-mode start distance into the startingPixel of the equivalent direction
+ */
+function toDirectionStartingPixel(direction: StretchDirection, distance: number, width: number, height: number): number {
+    switch (direction) {
+        case 'down':
+        case 'left':
+            return distance;
+        case 'up':
+            return height - 1 - distance;
+        case 'right':
+            return width - 1 - distance;
+    }
 }
 
 /**
  * Main stretch function with support for all directions
  */
 export function stretchImage(
-    imageData: ImageData,
-    params: StretchParams
+    imageData: RawImageData,
+    params: StretchParams,
+    onProgress?: StretchProgressCallback
 ): StretchedImageData {
-    const { stretchRate, startingPixel, direction } = params;
+    const {
+        stretchRate,
+        startingPixel,
+        direction,
+        premultiplyAlpha = true,
+        interpolation = 'linear',
+        colorSpace = 'srgb',
+        profile = { type: 'fibonacci' },
+        outputSize = { mode: 'original' }
+    } = params;
 
     console.log('stretchImage called with:', {
         imageWidth: imageData.width,
         imageHeight: imageData.height,
         stretchRate,
         startingPixel,
-        direction
+        direction,
+        angle: params.angle,
+        premultiplyAlpha,
+        interpolation,
+        colorSpace,
+        profile: profile.type,
+        outputSize: outputSize.mode
     });
 
-    try {
-        // Create index list for stretch rate
-        const indexList = createIndexList(stretchRate);
-        console.log('Index list created:', indexList.slice(0, 10));
-
-        let workingImageData = imageData;
-        let workingStartingPixel = startingPixel;
-
-        // Rotate image and adjust starting pixel based on direction
-        switch (direction) {
-            case 'down':
-                // No rotation needed, this is our base case
-                workingStartingPixel = Math.min(startingPixel, imageData.height - 1);
-                console.log('Down direction: no rotation needed');
-                break;
-
-            case 'up':
-                // Rotate 180 degrees (rotate twice)
-                workingImageData = rotateImageData(imageData, true);
-                workingImageData = rotateImageData(workingImageData, true);
-                workingStartingPixel = workingImageData.height - Math.min(startingPixel, imageData.height - 1) - 1;
-                console.log('Up direction: rotated 180 degrees');
-                break;
-
-            case 'right':
-                // Rotate 90 degrees clockwise so right becomes down
-                workingImageData = rotateImageData(imageData, true);
-                workingStartingPixel = workingImageData.height - Math.min(startingPixel, imageData.width - 1) - 1;
-                console.log('Right direction: rotated 90° clockwise');
-                break;
-
-            case 'left':
-                // Rotate 90 degrees counterclockwise so left becomes down
-                workingImageData = rotateImageData(imageData, false);
-                workingStartingPixel = Math.min(startingPixel, imageData.width - 1);
-                console.log('Left direction: rotated 90° counterclockwise');
-                break;
-
-            default:
-                console.log('Unknown direction, using down as default');
-                workingStartingPixel = Math.min(startingPixel, imageData.height - 1);
+    // Build the index list before the fallback below: an invalid profile is the caller's
+    // error and must surface as a StretchProfileError, not as a silently unchanged image
+    const indexList = resolveIndexList(params);
+    console.log('Index list created:', indexList.slice(0, 10));
+
+    if (params.angle !== undefined) {
+        // Horizontal and vertical angles take the exact rotation path
+        const cardinalDirection = getCardinalDirection(params.angle);
+        if (cardinalDirection) {
+            const axisLength = getAngleAxisLength(params.angle, imageData.width, imageData.height);
+            const distance = Math.min(Math.max(Math.round(startingPixel), 0), axisLength - 1);
+            return stretchImage(imageData, {
+                ...params,
+                angle: undefined,
+                direction: cardinalDirection,
+                startingPixel: toDirectionStartingPixel(cardinalDirection, distance, imageData.width, imageData.height)
+            }, onProgress);
         }
 
-        console.log('Working image dimensions:', {
-            width: workingImageData.width,
-            height: workingImageData.height,
-            startingPixel: workingStartingPixel
-        });
-
-        // Apply the stretch (always in downward direction now)
-        if (workingStartingPixel < workingImageData.height) {
-            console.log('Applying stretch from row', workingStartingPixel);
-
-            let stretchedData = buildNewImage(indexList, workingImageData, workingStartingPixel);
-
-            // Rotate back to original orientation
-            switch (direction) {
-                case 'down': {
-                    // No rotation back needed
-                    console.log('Down direction: no rotation back needed');
-                    break;
-                }
-
-                case 'up': {
-                    // Rotate 180 degrees back
-                    const tempImageData1 = new ImageData(new Uint8ClampedArray(stretchedData.data), stretchedData.width, stretchedData.height);
-                    let rotatedBack1 = rotateImageData(tempImageData1, true);
-                    rotatedBack1 = rotateImageData(rotatedBack1, true);
-                    stretchedData = {
-                        data: rotatedBack1.data,
-                        width: rotatedBack1.width,
-                        height: rotatedBack1.height
-                    };
-                    console.log('Up direction: rotated back 180 degrees');
-                    break;
-                }
-
-                case 'right': {
-                    // Rotate 90 degrees counterclockwise back
-                    const tempImageData2 = new ImageData(new Uint8ClampedArray(stretchedData.data), stretchedData.width, stretchedData.height);
-                    const rotatedBack2 = rotateImageData(tempImageData2, false);
-                    stretchedData = {
-                        data: rotatedBack2.data,
-                        width: rotatedBack2.width,
-                        height: rotatedBack2.height
-                    };
-                    console.log('Right direction: rotated back 90° counterclockwise');
-                    break;
-                }
-
-                case 'left': {
-                    // Rotate 90 degrees clockwise back
-                    const tempImageData3 = new ImageData(new Uint8ClampedArray(stretchedData.data), stretchedData.width, stretchedData.height);
-                    const rotatedBack3 = rotateImageData(tempImageData3, true);
-                    stretchedData = {
-                        data: rotatedBack3.data,
-                        width: rotatedBack3.width,
-                        height: rotatedBack3.height
-                    };
-                    console.log('Left direction: rotated back 90° clockwise');
-                    break;
-                }
-            }
-
-            // Crop the stretched result to not exceed original image dimensions
-            stretchedData = cropToOriginalSize(stretchedData, imageData.width, imageData.height, direction);
-
-            console.log('Stretch complete:', {
-                originalDimensions: `${imageData.width}x${imageData.height}`,
-                finalDimensions: `${stretchedData.width}x${stretchedData.height}`,
-                direction
-            });
-
-            return stretchedData;
+        if (outputSize.mode !== 'original') {
+            console.warn(`Output size "${outputSize.mode}" is not supported in angle mode; keeping the original size`);
+        }
 
-        } else {
-            console.log('Invalid starting pixel, returning original');
+        try {
+            return stretchAtAngle(imageData, indexList, params.angle, startingPixel, { interpolation, premultiplyAlpha, colorSpace }, onProgress);
+        } catch (error) {
+            console.error('Error in stretchImage:', error);
             return {
                 data: new Uint8ClampedArray(imageData.data),
                 width: imageData.width,
                 height: imageData.height
             };
         }
+    }
+
+    try {
+        // Read the image as if rotated so the stretch runs downward. Up and right are mirrored
+        // by that rotation, so their starting pixel counts from the other edge.
+        const sourceView = getStretchView(imageData.width, imageData.height, direction);
+        const clampedStartingPixel = Math.max(0, Math.min(startingPixel, sourceView.rows - 1));
+        const workingStartingPixel = direction === 'up' || direction === 'right'
+            ? sourceView.rows - clampedStartingPixel - 1
+            : clampedStartingPixel;
+
+        console.log('Working view:', {
+            rows: sourceView.rows,
+            columns: sourceView.columns,
+            startingPixel: workingStartingPixel
+        });
+
+        // Fixed output sizes rescale the profile so the streak ends exactly at the target length
+        const horizontal = direction === 'left' || direction === 'right';
+        const outputLength = getOutputLength(outputSize, horizontal, imageData.width, imageData.height);
+        const stepIndexList = outputLength === null
+            ? indexList
+            : fitIndexListToLength(indexList, sourceView.rows - workingStartingPixel - 1, outputLength - workingStartingPixel - 1);
+        if (outputLength !== null) {
+            console.log('Index list fitted to output length:', { outputLength, rows: stepIndexList.length });
+        }
+
+        // Only rows up to the crop bound are ever produced. Long custom profiles can stretch
+        // past what a canvas holds, so the full length is cut off like the fixed lengths are.
+        let outputRows = outputLength ?? sourceView.rows;
+        if (outputSize.mode === 'full') {
+            const stretchedRows = getStretchedRowCount(stepIndexList, sourceView.rows, workingStartingPixel);
+            if (stretchedRows > MAX_OUTPUT_LENGTH) {
+                console.warn(`Full stretched length of ${stretchedRows}px is cut off at ${MAX_OUTPUT_LENGTH}px`);
+            }
+            outputRows = Math.min(stretchedRows, MAX_OUTPUT_LENGTH);
+        }
+        const outputWidth = horizontal ? outputRows : imageData.width;
+        const outputHeight = horizontal ? imageData.height : outputRows;
+
+        console.log('Applying stretch from row', workingStartingPixel, 'into', `${outputWidth}x${outputHeight}`);
+
+        const outputData = new Uint8ClampedArray(outputWidth * outputHeight * 4);
+        stretchIntoView(
+            imageData.data, sourceView,
+            outputData, getStretchView(outputWidth, outputHeight, direction),
+            stepIndexList, workingStartingPixel, { interpolation, premultiplyAlpha, colorSpace }, onProgress
+        );
+
+        console.log('Stretch complete:', {
+            originalDimensions: `${imageData.width}x${imageData.height}`,
+            finalDimensions: `${outputWidth}x${outputHeight}`,
+            direction
+        });
+
+        return {
+            data: outputData,
+            width: outputWidth,
+            height: outputHeight
+        };
 
     } catch (error) {
         console.error('Error in stretchImage:', error);
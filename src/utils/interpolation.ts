@@ -0,0 +1,212 @@
+/**
+ * Gradient interpolation modes used when filling the gap between two source rows.
+ * `linear` is the original straight ramp on gamma-encoded sRGB bytes.
+ */
+export const INTERPOLATION_MODES = [
+    'linear',
+    'linear-light',
+    'oklab',
+    'nearest',
+    'smoothstep',
+    'ease-in',
+    'ease-out'
+] as const;
+
+export type InterpolationMode = typeof INTERPOLATION_MODES[number];
+
+export const INTERPOLATION_LABELS: { [mode in InterpolationMode]: string } = {
+    'linear': 'Linear (sRGB bytes)',
+    'linear-light': 'Linear light',
+    'oklab': 'OKLab',
+    'nearest': 'Nearest (hard step)',
+    'smoothstep': 'Smoothstep',
+    'ease-in': 'Ease in',
+    'ease-out': 'Ease out'
+};
+
+type ColorSpace = 'srgb' | 'linear-light' | 'oklab';
+
+/**
+ * Colour space of the pixels being blended, matching the canvas colour spaces. Display P3
+ * shares sRGB's transfer curve, so only OKLab, which depends on the primaries, tells them apart.
+ */
+export type PixelColorSpace = 'srgb' | 'display-p3';
+
+/**
+ * Colour space the blend happens in. The eased and nearest modes only reshape
+ * the ramp and blend the sRGB bytes like `linear`.
+ */
+export function getInterpolationColorSpace(mode: InterpolationMode): ColorSpace {
+    switch (mode) {
+        case 'linear-light':
+            return 'linear-light';
+        case 'oklab':
+            return 'oklab';
+        default:
+            return 'srgb';
+    }
+}
+
+/**
+ * Map linear progress t (0..1) between the two rows onto the mode's curve
+ */
+export function easeInterpolation(t: number, mode: InterpolationMode): number {
+    switch (mode) {
+        case 'nearest':
+            return t < 0.5 ? 0 : 1;
+        case 'smoothstep':
+            return t * t * (3 - 2 * t);
+        case 'ease-in':
+            return t * t;
+        case 'ease-out':
+            return 1 - (1 - t) * (1 - t);
+        default:
+            return t;
+    }
+}
+
+let srgbToLinearTable: Float32Array | null = null;
+let linearToSrgbTable: Uint8Array | null = null;
+
+// 16-bit resolution keeps the dark end of the sRGB curve exact when converting back to bytes
+const LINEAR_TABLE_SIZE = 65536;
+
+function getSrgbToLinearTable(): Float32Array {
+    if (srgbToLinearTable) return srgbToLinearTable;
+
+    srgbToLinearTable = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+        const c = i / 255;
+        srgbToLinearTable[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    }
+    return srgbToLinearTable;
+}
+
+function getLinearToSrgbTable(): Uint8Array {
+    if (linearToSrgbTable) return linearToSrgbTable;
+
+    linearToSrgbTable = new Uint8Array(LINEAR_TABLE_SIZE);
+    for (let i = 0; i < LINEAR_TABLE_SIZE; i++) {
+        const c = i / (LINEAR_TABLE_SIZE - 1);
+        const encoded = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+        linearToSrgbTable[i] = Math.round(encoded * 255);
+    }
+    return linearToSrgbTable;
+}
+
+// Linear RGB -> LMS cone response and back, row-major. sRGB uses Björn Ottosson's reference
+// matrices; Display P3 folds its conversion to linear sRGB (same D65 white) into them.
+const LMS_FROM_LINEAR: { [space in PixelColorSpace]: number[] } = {
+    'srgb': [
+        0.4122214708, 0.5363325363, 0.0514459929,
+        0.2119034982, 0.6806995451, 0.1073969566,
+        0.0883024619, 0.2817188376, 0.6299787005
+    ],
+    'display-p3': [
+        0.4813798544, 0.4621183697, 0.0565017758,
+        0.2288319449, 0.6532168128, 0.1179512422,
+        0.0839457557, 0.2241652689, 0.6918889754
+    ]
+};
+
+const LINEAR_FROM_LMS: { [space in PixelColorSpace]: number[] } = {
+    'srgb': [
+        4.0767416621, -3.3077115913, 0.2309699292,
+        -1.2684380046, 2.6097574011, -0.3413193965,
+        -0.0041960863, -0.7034186147, 1.7076147010
+    ],
+    'display-p3': [
+        3.1277689872, -2.2571357962, 0.1293668090,
+        -1.0910090478, 2.4133317587, -0.3223227108,
+        -0.0260108130, -0.5080413259, 1.5340521389
+    ]
+};
+
+function linearToSrgbByte(value: number): number {
+    const clamped = value <= 0 ? 0 : value >= 1 ? 1 : value;
+    return getLinearToSrgbTable()[Math.round(clamped * (LINEAR_TABLE_SIZE - 1))];
+}
+
+/**
+ * Convert a byte triple in the given pixel colour space into the blend colour space, writing
+ * into `out` at `offset`
+ */
+export function encodeColor(
+    space: ColorSpace,
+    r: number,
+    g: number,
+    b: number,
+    out: Float32Array,
+    offset: number,
+    pixelColorSpace: PixelColorSpace = 'srgb'
+): void {
+    if (space === 'srgb') {
+        out[offset] = r;
+        out[offset + 1] = g;
+        out[offset + 2] = b;
+        return;
+    }
+
+    const table = getSrgbToLinearTable();
+    const lr = table[r];
+    const lg = table[g];
+    const lb = table[b];
+
+    if (space === 'linear-light') {
+        out[offset] = lr;
+        out[offset + 1] = lg;
+        out[offset + 2] = lb;
+        return;
+    }
+
+    // Linear RGB -> OKLab
+    const lms = LMS_FROM_LINEAR[pixelColorSpace];
+    const l = Math.cbrt(lms[0] * lr + lms[1] * lg + lms[2] * lb);
+    const m = Math.cbrt(lms[3] * lr + lms[4] * lg + lms[5] * lb);
+    const s = Math.cbrt(lms[6] * lr + lms[7] * lg + lms[8] * lb);
+
+    out[offset] = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+    out[offset + 1] = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+    out[offset + 2] = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+}
+
+/**
+ * Convert a blend-space colour back to bytes in the given pixel colour space, writing RGB
+ * into `out` at `offset`
+ */
+export function decodeColor(
+    space: ColorSpace,
+    c0: number,
+    c1: number,
+    c2: number,
+    out: Uint8ClampedArray,
+    offset: number,
+    pixelColorSpace: PixelColorSpace = 'srgb'
+): void {
+    if (space === 'srgb') {
+        out[offset] = Math.round(c0);
+        out[offset + 1] = Math.round(c1);
+        out[offset + 2] = Math.round(c2);
+        return;
+    }
+
+    if (space === 'linear-light') {
+        out[offset] = linearToSrgbByte(c0);
+        out[offset + 1] = linearToSrgbByte(c1);
+        out[offset + 2] = linearToSrgbByte(c2);
+        return;
+    }
+
+    // OKLab -> linear RGB, out-of-gamut results are clamped by linearToSrgbByte
+    const l = c0 + 0.3963377774 * c1 + 0.2158037573 * c2;
+    const m = c0 - 0.1055613458 * c1 - 0.0638541728 * c2;
+    const s = c0 - 0.0894841775 * c1 - 1.2914855480 * c2;
+    const l3 = l * l * l;
+    const m3 = m * m * m;
+    const s3 = s * s * s;
+
+    const rgb = LINEAR_FROM_LMS[pixelColorSpace];
+    out[offset] = linearToSrgbByte(rgb[0] * l3 + rgb[1] * m3 + rgb[2] * s3);
+    out[offset + 1] = linearToSrgbByte(rgb[3] * l3 + rgb[4] * m3 + rgb[5] * s3);
+    out[offset + 2] = linearToSrgbByte(rgb[6] * l3 + rgb[7] * m3 + rgb[8] * s3);
+}
@@ -0,0 +1,127 @@
+import type { StretchDirection } from './imageStretching';
+
+/**
+ * App-wide keyboard shortcuts. Keys are mapped to actions here so the help overlay and the
+ * key handler can't drift apart; the component decides what each action does.
+ */
+export type ShortcutAction =
+    | { type: 'direction'; direction: StretchDirection }
+    | { type: 'nudgeStart'; delta: number }
+    | { type: 'rate'; delta: number }
+    | { type: 'zoom'; zoom: 'in' | 'out' | 'fit' | 'actual' }
+    | { type: 'random' }
+    | { type: 'save' }
+    | { type: 'open' }
+    | { type: 'help' }
+    | { type: 'undo' }
+    | { type: 'redo' };
+
+/** What has focus when a key is pressed: text fields keep every key, other form controls keep the arrows */
+export type ShortcutTarget = 'text' | 'control' | 'other';
+
+export interface ShortcutDescription {
+    keys: string[];
+    description: string;
+}
+
+export const KEYBOARD_SHORTCUTS: ShortcutDescription[] = [
+    { keys: ['←', '↑', '→', '↓'], description: 'Stretch direction' },
+    { keys: ['Shift+←', 'Shift+→', 'Shift+↑', 'Shift+↓'], description: 'Move the start by 1 pixel (add Alt for 10)' },
+    { keys: ['+', '−'], description: 'Stretch rate up / down' },
+    { keys: [']', '['], description: 'Zoom in / out (or the mouse wheel)' },
+    { keys: ['0', '1'], description: 'Zoom to fit / actual pixels' },
+    { keys: ['Space+drag'], description: 'Pan the zoomed image' },
+    { keys: ['R'], description: 'Random parameters (new seed)' },
+    { keys: ['S'], description: 'Save the image' },
+    { keys: ['O'], description: 'Open an image' },
+    { keys: ['Ctrl+Z', 'Ctrl+Shift+Z'], description: 'Undo / redo' },
+    { keys: ['?'], description: 'Show these shortcuts' }
+];
+
+const ARROW_DIRECTIONS: { [key: string]: StretchDirection } = {
+    ArrowUp: 'up',
+    ArrowDown: 'down',
+    ArrowLeft: 'left',
+    ArrowRight: 'right'
+};
+
+// Inputs without typed text, which have no native undo or paste either
+const NON_TEXT_INPUT_TYPES = ['range', 'checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'color'];
+
+// Text fields keep their native shortcuts (undo, paste)
+export function isTextInput(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    return !!element && (
+        element.tagName === 'TEXTAREA' ||
+        element.isContentEditable ||
+        (element.tagName === 'INPUT' && !NON_TEXT_INPUT_TYPES.includes((element as HTMLInputElement).type))
+    );
+}
+
+export function getShortcutTarget(target: EventTarget | null): ShortcutTarget {
+    if (isTextInput(target)) return 'text';
+    const element = target as Element | null;
+    return element && (element.tagName === 'INPUT' || element.tagName === 'SELECT' || element.getAttribute?.('role') === 'slider')
+        ? 'control'
+        : 'other';
+}
+
+/**
+ * Action for a key press, or null to leave the key to the browser
+ */
+export function getShortcutAction(
+    event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>,
+    target: ShortcutTarget
+): ShortcutAction | null {
+    if (target === 'text') return null;
+
+    if (event.ctrlKey || event.metaKey) {
+        const key = event.key.toLowerCase();
+        if (key === 'z') return event.shiftKey ? { type: 'redo' } : { type: 'undo' };
+        if (key === 'y') return { type: 'redo' };
+        return null;
+    }
+
+    const arrowDirection = ARROW_DIRECTIONS[event.key];
+    if (arrowDirection) {
+        // Sliders, radios and selects use the arrows themselves
+        if (target === 'control') return null;
+        if (!event.shiftKey) return { type: 'direction', direction: arrowDirection };
+
+        // Right and down move the start towards larger columns and rows
+        const sign = arrowDirection === 'right' || arrowDirection === 'down' ? 1 : -1;
+        return { type: 'nudgeStart', delta: sign * (event.altKey ? 10 : 1) };
+    }
+
+    if (event.altKey) return null;
+
+    switch (event.key) {
+        case '+':
+        case '=':
+            return { type: 'rate', delta: 1 };
+        case '-':
+        case '_':
+            return { type: 'rate', delta: -1 };
+        case ']':
+            return { type: 'zoom', zoom: 'in' };
+        case '[':
+            return { type: 'zoom', zoom: 'out' };
+        case '0':
+            return { type: 'zoom', zoom: 'fit' };
+        case '1':
+            return { type: 'zoom', zoom: 'actual' };
+        case 'r':
+        case 'R':
+            return { type: 'random' };
+        case 's':
+        case 'S':
+            return { type: 'save' };
+        case 'o':
+        case 'O':
+            return { type: 'open' };
+        case '?':
+            return { type: 'help' };
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,158 @@
+/**
+ * How large the stretched result is along the stretch axis. The cross axis always keeps the
+ * image's size.
+ */
+export type OutputSize =
+    | { mode: 'original' }
+    | { mode: 'full' }
+    | { mode: 'length'; length: number }
+    | { mode: 'aspect'; aspect: number };
+
+export type OutputSizeMode = OutputSize['mode'];
+
+export const OUTPUT_SIZE_MODES: OutputSizeMode[] = ['original', 'full', 'length', 'aspect'];
+
+export const OUTPUT_SIZE_LABELS: { [mode in OutputSizeMode]: string } = {
+    original: 'Original size (crop)',
+    full: 'Full stretched length',
+    length: 'Fixed length',
+    aspect: 'Fixed aspect ratio'
+};
+
+/** Longest output along the stretch axis for every mode but the original; canvases get unreliable past this */
+export const MAX_OUTPUT_LENGTH = 16384;
+
+/**
+ * Thrown for output size specs that cannot be parsed or are out of range
+ */
+export class OutputSizeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OutputSizeError';
+    }
+}
+
+export function createDefaultOutputSize(mode: OutputSizeMode, width: number, height: number): OutputSize {
+    switch (mode) {
+        case 'original':
+        case 'full':
+            return { mode };
+        case 'length':
+            return { mode, length: Math.min(Math.max(width, height) * 2, MAX_OUTPUT_LENGTH) };
+        case 'aspect':
+            return { mode, aspect: 16 / 9 };
+    }
+}
+
+export function validateOutputSize(outputSize: OutputSize): void {
+    if (outputSize.mode === 'length') {
+        const { length } = outputSize;
+        if (!Number.isInteger(length) || length < 1 || length > MAX_OUTPUT_LENGTH) {
+            throw new OutputSizeError(`Output length must be an integer between 1 and ${MAX_OUTPUT_LENGTH}, got ${length}`);
+        }
+    } else if (outputSize.mode === 'aspect') {
+        const { aspect } = outputSize;
+        if (!Number.isFinite(aspect) || aspect <= 0) {
+            throw new OutputSizeError(`Aspect ratio must be a positive number, got ${aspect}`);
+        }
+    }
+}
+
+/**
+ * Target length along the stretch axis, or null when the stretch decides it (original and
+ * full). An aspect ratio is width / height of the whole output.
+ */
+export function getOutputLength(outputSize: OutputSize, horizontal: boolean, width: number, height: number): number | null {
+    let length: number;
+    switch (outputSize.mode) {
+        case 'original':
+        case 'full':
+            return null;
+        case 'length':
+            length = outputSize.length;
+            break;
+        case 'aspect':
+            length = horizontal ? height * outputSize.aspect : width / outputSize.aspect;
+            break;
+    }
+    return Math.min(Math.max(Math.round(length), 1), MAX_OUTPUT_LENGTH);
+}
+
+/**
+ * Rescale the gaps of the first `sourceRows` entries so the stretched rows add up to exactly
+ * `targetRows` (each source row yields its gap + 1 rows). Cumulative rounding keeps the
+ * profile's shape while hitting the total exactly. When the target is shorter than one row
+ * per source row, only the first `targetRows` rows are used, unstretched.
+ */
+export function fitIndexListToLength(indexList: number[], sourceRows: number, targetRows: number): number[] {
+    const count = Math.min(indexList.length, Math.max(0, sourceRows));
+    if (count === 0 || targetRows <= 0) return [];
+    if (targetRows <= count) return new Array(targetRows).fill(0);
+
+    const gaps = indexList.slice(0, count);
+    const targetGaps = targetRows - count;
+    const totalGaps = gaps.reduce((sum, gap) => sum + gap, 0);
+
+    // A flat profile has no shape to keep, so spread the rows evenly
+    const weights = totalGaps > 0 ? gaps : gaps.map(() => 1);
+    const totalWeight = totalGaps > 0 ? totalGaps : count;
+
+    const fitted: number[] = [];
+    let cumulativeWeight = 0;
+    let placed = 0;
+    for (const weight of weights) {
+        cumulativeWeight += weight;
+        const end = Math.round((cumulativeWeight / totalWeight) * targetGaps);
+        fitted.push(end - placed);
+        placed = end;
+    }
+    return fitted;
+}
+
+/**
+ * Parse an output size spec: `original`, `full`, `length:<px>` or `aspect:<ratio>`, where the
+ * ratio is a number or `<width>:<height>`
+ */
+export function parseOutputSize(spec: string): OutputSize {
+    const [mode, ...args] = spec.split(':');
+    const number = (text: string | undefined): number => {
+        const value = Number(text);
+        if (text === undefined || text.trim() === '' || Number.isNaN(value)) {
+            throw new OutputSizeError(`Invalid number "${text ?? ''}" in output size "${spec}"`);
+        }
+        return value;
+    };
+
+    let outputSize: OutputSize;
+    switch (mode) {
+        case 'original':
+        case 'full':
+            outputSize = { mode };
+            break;
+        case 'length':
+            outputSize = { mode, length: number(args[0]) };
+            break;
+        case 'aspect':
+            outputSize = { mode, aspect: args.length === 2 ? number(args[0]) / number(args[1]) : number(args[0]) };
+            break;
+        default:
+            throw new OutputSizeError(`Unknown output size "${mode}"; expected one of ${OUTPUT_SIZE_MODES.join(', ')}`);
+    }
+    validateOutputSize(outputSize);
+    return outputSize;
+}
+
+/**
+ * Inverse of parseOutputSize
+ */
+export function formatOutputSize(outputSize: OutputSize): string {
+    switch (outputSize.mode) {
+        case 'original':
+        case 'full':
+            return outputSize.mode;
+        case 'length':
+            return `length:${outputSize.length}`;
+        case 'aspect':
+            return `aspect:${Number(outputSize.aspect.toFixed(4))}`;
+    }
+}
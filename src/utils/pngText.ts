@@ -0,0 +1,91 @@
+import { crc32 } from './crc32';
+
+/**
+ * Read and write PNG tEXt chunks (Latin-1 keyword/text pairs) without decoding the image,
+ * so stretch settings can travel inside saved files.
+ */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/** tEXt keyword holding the settings of the stretch that produced the file */
+export const STRETCH_SETTINGS_KEYWORD = 'ImageStretcher';
+
+export function isPng(bytes: Uint8Array): boolean {
+    return bytes.length >= 8 && PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = value >>> 24;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+}
+
+function toLatin1(text: string): Uint8Array {
+    // Characters outside Latin-1 can't be stored in tEXt; they are replaced rather than mangled
+    return Uint8Array.from(text, char => (char.charCodeAt(0) <= 0xff ? char.charCodeAt(0) : 0x3f));
+}
+
+/**
+ * All tEXt entries of a PNG by keyword. Returns an empty map for anything that isn't a PNG;
+ * damaged chunks end the scan instead of throwing, since the text is only a bonus.
+ */
+export function readPngTextChunks(bytes: Uint8Array): Map<string, string> {
+    const entries = new Map<string, string>();
+    if (!isPng(bytes)) return entries;
+
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = readUint32(bytes, offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const dataStart = offset + 8;
+        const dataEnd = dataStart + length;
+        if (dataEnd + 4 > bytes.length || type === 'IEND') break;
+
+        if (type === 'tEXt' && crc32(bytes.subarray(offset + 4, dataEnd)) === readUint32(bytes, dataEnd)) {
+            const data = bytes.subarray(dataStart, dataEnd);
+            const separator = data.indexOf(0);
+            if (separator > 0) {
+                entries.set(
+                    String.fromCharCode(...data.subarray(0, separator)),
+                    Array.from(data.subarray(separator + 1), byte => String.fromCharCode(byte)).join('')
+                );
+            }
+        }
+        offset = dataEnd + 4;
+    }
+    return entries;
+}
+
+/**
+ * Copy of the PNG with a tEXt chunk inserted straight after the header
+ */
+export function insertPngTextChunk(bytes: Uint8Array, keyword: string, text: string): Uint8Array<ArrayBuffer> {
+    if (!isPng(bytes)) {
+        throw new Error('Not a PNG file (bad signature)');
+    }
+    if (keyword.length === 0 || keyword.length > 79) {
+        throw new Error(`PNG text keywords must be 1-79 characters, got ${keyword.length}`);
+    }
+
+    const keywordBytes = toLatin1(keyword);
+    const textBytes = toLatin1(text);
+    const chunk = new Uint8Array(12 + keywordBytes.length + 1 + textBytes.length);
+    writeUint32(chunk, 0, chunk.length - 12);
+    chunk.set(toLatin1('tEXt'), 4);
+    chunk.set(keywordBytes, 8);
+    chunk.set(textBytes, 8 + keywordBytes.length + 1);
+    writeUint32(chunk, chunk.length - 4, crc32(chunk.subarray(4, chunk.length - 4)));
+
+    // IHDR always comes first: signature, then length + type + 13 data bytes + CRC
+    const headerEnd = 8 + 12 + readUint32(bytes, 8);
+    const output = new Uint8Array(bytes.length + chunk.length);
+    output.set(bytes.subarray(0, headerEnd), 0);
+    output.set(chunk, headerEnd);
+    output.set(bytes.subarray(headerEnd), headerEnd + chunk.length);
+    return output;
+}
@@ -0,0 +1,316 @@
+import { normalizeAngle, STRETCH_DIRECTIONS, type StretchDirection } from './imageStretching';
+import { INTERPOLATION_MODES, type InterpolationMode } from './interpolation';
+import { formatOutputSize, OutputSizeError, parseOutputSize } from './outputSize';
+import { createProfileGaps, formatStretchProfile, parseStretchProfile, StretchProfileError } from './stretchProfiles';
+import {
+    DEFAULT_STRETCH_SETTINGS,
+    fromRelativeStart,
+    MAX_STRETCH_RATE,
+    MIN_STRETCH_RATE,
+    toRelativeStart,
+    type StretchSettings
+} from './stretchSettings';
+
+/**
+ * Presets are named settings for one layer. Like shared links they store the start as a
+ * fraction of its axis, so a preset fits any image. Saved presets live in localStorage and
+ * are shared as JSON files:
+ *
+ *     {
+ *       "format": "image-stretcher-presets",
+ *       "version": 1,
+ *       "presets": [
+ *         {
+ *           "name": "Slow drip",
+ *           "direction": "down",
+ *           "stretchRate": 6,
+ *           "relativeStart": 0.3,
+ *           "interpolation": "linear",
+ *           "premultiplyAlpha": true,
+ *           "profile": "fibonacci",
+ *           "angle": null,
+ *           "outputSize": "original"
+ *         }
+ *       ]
+ *     }
+ *
+ * Profiles and output sizes use the same compact specs as shared links. Unlike links, files
+ * are validated strictly: anything invalid rejects the whole file with a message saying where.
+ */
+export const PRESET_FILE_FORMAT = 'image-stretcher-presets';
+export const PRESET_FILE_VERSION = 1;
+
+/** Most presets the library keeps, so an imported file can't fill up localStorage */
+export const MAX_PRESETS = 200;
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+const STORAGE_KEY = 'imageStretcher.presets';
+
+export interface StretchPreset {
+    name: string;
+    settings: Omit<StretchSettings, 'startingPixel'>;
+    /** Starting pixel as a 0..1 fraction of its axis */
+    relativeStart: number;
+}
+
+/**
+ * Thrown for preset names and files that can't be used
+ */
+export class PresetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PresetError';
+    }
+}
+
+function withoutStart(settings: StretchSettings): StretchPreset['settings'] {
+    return {
+        stretchRate: settings.stretchRate,
+        direction: settings.direction,
+        premultiplyAlpha: settings.premultiplyAlpha,
+        interpolation: settings.interpolation,
+        profile: settings.profile,
+        angle: settings.angle,
+        outputSize: settings.outputSize
+    };
+}
+
+function createBuiltInPreset(name: string, relativeStart: number, settings: Partial<StretchPreset['settings']>): StretchPreset {
+    return { name, relativeStart, settings: { ...withoutStart(DEFAULT_STRETCH_SETTINGS), ...settings } };
+}
+
+/** Looks the README describes, always available and never saved */
+export const BUILT_IN_PRESETS: readonly StretchPreset[] = [
+    // Long smooth streaks pouring down from the upper third
+    createBuiltInPreset('Waterfall', 0.3, { direction: 'down', stretchRate: 6, interpolation: 'linear-light' }),
+    // Gaps that widen steadily, so the lower half slumps and smears
+    createBuiltInPreset('Melt', 0.55, {
+        direction: 'down',
+        interpolation: 'smoothstep',
+        profile: { type: 'exponential', startGap: 1, growth: 1.08, length: 80 }
+    }),
+    // Hard-edged horizontal bands from a single column
+    createBuiltInPreset('Glitch streak', 0.62, { direction: 'right', stretchRate: 2, interpolation: 'nearest' })
+];
+
+export function isBuiltInPreset(name: string): boolean {
+    return BUILT_IN_PRESETS.some(preset => isSameName(preset.name, name));
+}
+
+function isSameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Trimmed preset name, or a PresetError saying why it can't be used
+ */
+export function validatePresetName(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed.length === 0) {
+        throw new PresetError('Give the preset a name');
+    }
+    if (trimmed.length > MAX_PRESET_NAME_LENGTH) {
+        throw new PresetError(`Preset names can be at most ${MAX_PRESET_NAME_LENGTH} characters`);
+    }
+    if (isBuiltInPreset(trimmed)) {
+        throw new PresetError(`"${trimmed}" is a built-in preset; pick another name`);
+    }
+    return trimmed;
+}
+
+/**
+ * Capture a layer's settings, with its start made relative to the image it was set up on
+ */
+export function createPreset(name: string, settings: StretchSettings, width: number, height: number): StretchPreset {
+    return {
+        name: validatePresetName(name),
+        settings: withoutStart(settings),
+        relativeStart: Number(toRelativeStart(settings, width, height).toFixed(4))
+    };
+}
+
+/**
+ * A preset's settings for an image of the given size
+ */
+export function getPresetSettings(preset: StretchPreset, width: number, height: number): StretchSettings {
+    return {
+        ...preset.settings,
+        startingPixel: fromRelativeStart(preset.relativeStart, preset.settings, width, height)
+    };
+}
+
+/**
+ * Add or replace (by name, ignoring case) presets in a library, keeping its order
+ */
+export function mergePresets(library: StretchPreset[], added: StretchPreset[]): StretchPreset[] {
+    const merged = [...library];
+    for (const preset of added) {
+        const index = merged.findIndex(existing => isSameName(existing.name, preset.name));
+        if (index === -1) {
+            merged.push(preset);
+        } else {
+            merged[index] = preset;
+        }
+    }
+    if (merged.length > MAX_PRESETS) {
+        throw new PresetError(`The library can hold at most ${MAX_PRESETS} presets`);
+    }
+    return merged;
+}
+
+function toJson(preset: StretchPreset) {
+    const { settings } = preset;
+    return {
+        name: preset.name,
+        direction: settings.direction,
+        stretchRate: settings.stretchRate,
+        relativeStart: preset.relativeStart,
+        interpolation: settings.interpolation,
+        premultiplyAlpha: settings.premultiplyAlpha,
+        profile: formatStretchProfile(settings.profile),
+        angle: settings.angle,
+        outputSize: formatOutputSize(settings.outputSize)
+    };
+}
+
+/**
+ * Serialize presets into the shareable JSON file format
+ */
+export function serializePresets(presets: StretchPreset[]): string {
+    return JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets: presets.map(toJson) }, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Validate one preset object, throwing a PresetError that names the offending field
+function readPreset(value: unknown, path: string): StretchPreset {
+    if (!isRecord(value)) {
+        throw new PresetError(`${path} must be an object`);
+    }
+
+    const field = <T>(key: string, check: (fieldValue: unknown) => fieldValue is T, expected: string): T => {
+        const fieldValue = value[key];
+        if (!check(fieldValue)) {
+            throw new PresetError(`${path}.${key} must be ${expected}`);
+        }
+        return fieldValue;
+    };
+    const isString = (fieldValue: unknown): fieldValue is string => typeof fieldValue === 'string';
+    const isNumber = (fieldValue: unknown): fieldValue is number => typeof fieldValue === 'number' && Number.isFinite(fieldValue);
+
+    const name = field('name', isString, 'a string');
+    if (name.trim().length === 0 || name.trim().length > MAX_PRESET_NAME_LENGTH) {
+        throw new PresetError(`${path}.name must be 1 to ${MAX_PRESET_NAME_LENGTH} characters`);
+    }
+
+    const direction = field('direction', (fieldValue): fieldValue is StretchDirection =>
+        (STRETCH_DIRECTIONS as readonly unknown[]).includes(fieldValue), `one of ${STRETCH_DIRECTIONS.join(', ')}`);
+
+    const stretchRate = field('stretchRate', (fieldValue): fieldValue is number =>
+        Number.isInteger(fieldValue) && (fieldValue as number) >= MIN_STRETCH_RATE && (fieldValue as number) <= MAX_STRETCH_RATE,
+        `an integer from ${MIN_STRETCH_RATE} to ${MAX_STRETCH_RATE}`);
+
+    const relativeStart = field('relativeStart', (fieldValue): fieldValue is number =>
+        isNumber(fieldValue) && fieldValue >= 0 && fieldValue <= 1, 'a number from 0 to 1');
+
+    const interpolation = field('interpolation', (fieldValue): fieldValue is InterpolationMode =>
+        (INTERPOLATION_MODES as readonly unknown[]).includes(fieldValue), `one of ${INTERPOLATION_MODES.join(', ')}`);
+
+    const premultiplyAlpha = field('premultiplyAlpha', (fieldValue): fieldValue is boolean => typeof fieldValue === 'boolean', 'true or false');
+
+    const angle = field('angle', (fieldValue): fieldValue is number | null => fieldValue === null || isNumber(fieldValue), 'a number or null');
+
+    let profile;
+    try {
+        profile = parseStretchProfile(field('profile', isString, 'a profile spec such as "fibonacci"'));
+        if (profile.type !== 'fibonacci') {
+            createProfileGaps(profile);
+        }
+    } catch (error) {
+        if (!(error instanceof StretchProfileError)) throw error;
+        throw new PresetError(`${path}.profile is invalid: ${error.message}`);
+    }
+
+    let outputSize;
+    try {
+        outputSize = parseOutputSize(field('outputSize', isString, 'an output size spec such as "original"'));
+    } catch (error) {
+        if (!(error instanceof OutputSizeError)) throw error;
+        throw new PresetError(`${path}.outputSize is invalid: ${error.message}`);
+    }
+
+    return {
+        name: name.trim(),
+        relativeStart,
+        settings: {
+            direction,
+            stretchRate,
+            interpolation,
+            premultiplyAlpha,
+            profile,
+            angle: angle === null ? null : normalizeAngle(angle),
+            outputSize
+        }
+    };
+}
+
+/**
+ * Read presets from the JSON file format. Throws a PresetError describing the first problem.
+ */
+export function parsePresets(text: string): StretchPreset[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new PresetError('The file is not valid JSON');
+    }
+
+    if (!isRecord(data) || data.format !== PRESET_FILE_FORMAT) {
+        throw new PresetError('The file is not an Image Stretcher preset library');
+    }
+    if (typeof data.version !== 'number' || data.version > PRESET_FILE_VERSION) {
+        throw new PresetError(`Preset file version ${String(data.version)} is not supported; this app reads version ${PRESET_FILE_VERSION}`);
+    }
+    if (!Array.isArray(data.presets)) {
+        throw new PresetError('presets must be a list');
+    }
+    if (data.presets.length > MAX_PRESETS) {
+        throw new PresetError(`The file has ${data.presets.length} presets; at most ${MAX_PRESETS} can be imported`);
+    }
+
+    const presets = data.presets.map((preset, index) => readPreset(preset, `presets[${index}]`));
+    for (let i = 1; i < presets.length; i++) {
+        if (presets.slice(0, i).some(preset => isSameName(preset.name, presets[i].name))) {
+            throw new PresetError(`presets[${i}].name "${presets[i].name}" appears more than once`);
+        }
+    }
+    return presets;
+}
+
+/**
+ * Saved presets from localStorage. A missing or damaged library reads as empty.
+ */
+export function loadSavedPresets(storage: Storage = localStorage): StretchPreset[] {
+    try {
+        const text = storage.getItem(STORAGE_KEY);
+        return text === null ? [] : parsePresets(text);
+    } catch (error) {
+        console.warn('Ignoring saved presets:', error instanceof Error ? error.message : error);
+        return [];
+    }
+}
+
+/**
+ * Write the saved presets to localStorage. Returns false if storage is unavailable or full.
+ */
+export function storePresets(presets: StretchPreset[], storage: Storage = localStorage): boolean {
+    try {
+        storage.setItem(STORAGE_KEY, serializePresets(presets));
+        return true;
+    } catch (error) {
+        console.warn('Could not save presets:', error);
+        return false;
+    }
+}
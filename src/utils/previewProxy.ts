@@ -0,0 +1,96 @@
+import { getCanvasContext } from './canvasColorSpace';
+import { resolveIndexList, type RawImageData } from './imageStretching';
+import type { StretchSettings } from './stretchSettings';
+
+/**
+ * Live previews stretch a downscaled copy of the source (the proxy) that is about as large
+ * as the canvas shows it, and the full-resolution render follows once the input settles.
+ * Settings are scaled so the preview matches the final result at display size.
+ */
+
+/** Above this scale the proxy saves too little to be worth a second render */
+export const MAX_PREVIEW_SCALE = 0.75;
+
+/**
+ * Scale at which the image fits the display area (in device pixels), or 1 when the image
+ * is small enough to always render at full resolution
+ */
+export function getPreviewScale(width: number, height: number, displayWidth: number, displayHeight: number): number {
+    const scale = Math.min(displayWidth / width, displayHeight / height);
+    return scale > 0 && scale < MAX_PREVIEW_SCALE ? scale : 1;
+}
+
+/**
+ * Downscaled copy of an image, resampled by the browser, with pixels in the given colour space
+ */
+export function createPreviewProxy(
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    scale: number,
+    colorSpace: PredefinedColorSpace = 'srgb'
+): RawImageData {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = getCanvasContext(canvas, colorSpace);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height, { colorSpace });
+}
+
+/**
+ * Resample a gap list for an image scaled by `scale`: each proxy row stands for 1 / scale
+ * source rows, so it gets the rows those would have produced, times scale. Cumulative
+ * rounding keeps the total length of the streak.
+ */
+export function scaleIndexList(indexList: number[], scale: number): number[] {
+    if (scale >= 1) return indexList;
+
+    const cumulative = new Float64Array(indexList.length + 1);
+    indexList.forEach((gap, i) => {
+        cumulative[i + 1] = cumulative[i] + gap + 1;
+    });
+
+    // Rows produced by the first `row` source rows, for fractional rows too
+    const rowsUpTo = (row: number) => {
+        const whole = Math.min(Math.floor(row), indexList.length);
+        return whole < indexList.length ? cumulative[whole] + (row - whole) * (indexList[whole] + 1) : cumulative[whole];
+    };
+
+    const count = Math.max(1, Math.ceil(indexList.length * scale));
+    const scaled: number[] = [];
+    let placed = 0;
+    for (let row = 0; row < count; row++) {
+        const end = Math.round(rowsUpTo(Math.min((row + 1) / scale, indexList.length)) * scale);
+        scaled.push(Math.max(0, end - placed - 1));
+        placed = Math.max(end, placed + 1);
+    }
+    return scaled;
+}
+
+/**
+ * Settings for stretching the proxy: the start and fixed output length are scaled, and the
+ * profile becomes the resampled gap list
+ */
+export function toPreviewSettings(settings: StretchSettings, scale: number): StretchSettings {
+    if (scale >= 1) return settings;
+
+    let indexList: number[];
+    try {
+        indexList = resolveIndexList(settings);
+    } catch {
+        // Leave invalid profiles alone so the render reports them like at full resolution
+        return settings;
+    }
+
+    const { outputSize } = settings;
+    return {
+        ...settings,
+        startingPixel: Math.round(settings.startingPixel * scale),
+        profile: { type: 'custom', gaps: scaleIndexList(indexList, scale) },
+        outputSize: outputSize.mode === 'length'
+            ? { mode: 'length', length: Math.max(1, Math.round(outputSize.length * scale)) }
+            : outputSize
+    };
+}
@@ -0,0 +1,84 @@
+import { STRETCH_DIRECTIONS } from './imageStretching';
+import { fromRelativeStart, MAX_STRETCH_RATE, MIN_STRETCH_RATE, toRelativeStart, type StretchSettings } from './stretchSettings';
+
+/**
+ * The Random button draws direction, stretch rate and start position from a seeded PRNG, so
+ * the seed alone reproduces a result. Every parameter is drawn on each roll, locked or not,
+ * which keeps the unlocked ones the same for a given seed whatever is locked.
+ */
+export const RANDOM_PARAMETERS = ['direction', 'stretchRate', 'start'] as const;
+export type RandomParameter = typeof RANDOM_PARAMETERS[number];
+
+export const RANDOM_PARAMETER_LABELS: { [parameter in RandomParameter]: string } = {
+    direction: 'Direction',
+    stretchRate: 'Rate',
+    start: 'Start'
+};
+
+/** Parameters the Random button leaves alone */
+export type RandomLocks = { [parameter in RandomParameter]: boolean };
+
+export const NO_RANDOM_LOCKS: RandomLocks = { direction: false, stretchRate: false, start: false };
+
+/** Seeds are unsigned 32-bit integers */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Mulberry32: a small, fast PRNG with a 32-bit state. Returns numbers in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A fresh seed for the next roll
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Seed typed by the user, or null if it isn't a whole number from 0 to MAX_SEED
+ */
+export function parseSeed(text: string): number | null {
+    const trimmed = text.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+
+    const seed = Number(trimmed);
+    return seed <= MAX_SEED ? seed : null;
+}
+
+/**
+ * Settings patch for one roll of the dice on an image of the given size. A new direction
+ * leaves angle mode; a locked start keeps its relative position when the direction changes.
+ */
+export function randomizeSettings(
+    settings: StretchSettings,
+    seed: number,
+    locks: RandomLocks,
+    width: number,
+    height: number
+): Partial<StretchSettings> {
+    const random = createRandom(seed);
+    const randomDirection = STRETCH_DIRECTIONS[Math.floor(random() * STRETCH_DIRECTIONS.length)];
+    const randomRate = MIN_STRETCH_RATE + Math.floor(random() * (MAX_STRETCH_RATE - MIN_STRETCH_RATE + 1));
+    const randomStart = random();
+
+    const direction = locks.direction ? settings.direction : randomDirection;
+    const angle = locks.direction ? settings.angle : null;
+    const relativeStart = locks.start ? toRelativeStart(settings, width, height) : randomStart;
+
+    return {
+        direction,
+        angle,
+        stretchRate: locks.stretchRate ? settings.stretchRate : randomRate,
+        startingPixel: fromRelativeStart(relativeStart, { direction, angle }, width, height)
+    };
+}
@@ -0,0 +1,279 @@
+import type { RawImageData } from './imageStretching';
+
+/**
+ * Selection masks limit the stretch to part of the image. A mask holds one coverage byte
+ * per pixel (0 = keep the original, 255 = use the stretched result); the stack result is
+ * blended into the original through a feathered copy of the mask.
+ */
+export interface SelectionMask {
+    width: number;
+    height: number;
+    data: Uint8Array<ArrayBuffer>;
+}
+
+export interface MaskPoint {
+    x: number;
+    y: number;
+}
+
+export interface MaskRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const MASK_TOOLS = ['rectangle', 'lasso', 'brush'] as const;
+export type MaskTool = typeof MASK_TOOLS[number];
+
+export const MASK_TOOL_LABELS: { [tool in MaskTool]: string } = {
+    rectangle: 'Rectangle',
+    lasso: 'Lasso',
+    brush: 'Brush'
+};
+
+export const MAX_MASK_FEATHER = 100;
+
+/**
+ * How the canvas edits the mask
+ */
+export interface MaskToolSettings {
+    /** Active drawing tool, or null to leave the canvas alone */
+    tool: MaskTool | null;
+    /** Remove from the selection instead of adding (Alt flips this while drawing) */
+    erase: boolean;
+    /** Brush radius in image pixels */
+    brushRadius: number;
+    /** Blend distance in image pixels on each side of the mask edge */
+    feather: number;
+    /** Tint the selected area on the canvas */
+    showMask: boolean;
+}
+
+export const DEFAULT_MASK_TOOL_SETTINGS: MaskToolSettings = {
+    tool: null,
+    erase: false,
+    brushRadius: 20,
+    feather: 8,
+    showMask: true
+};
+
+export function createEmptyMask(width: number, height: number): SelectionMask {
+    return { width, height, data: new Uint8Array(width * height) };
+}
+
+export function cloneMask(mask: SelectionMask): SelectionMask {
+    return { width: mask.width, height: mask.height, data: mask.data.slice() };
+}
+
+export function invertMask(mask: SelectionMask): SelectionMask {
+    const inverted = cloneMask(mask);
+    for (let i = 0; i < inverted.data.length; i++) {
+        inverted.data[i] = 255 - inverted.data[i];
+    }
+    return inverted;
+}
+
+export function isMaskEmpty(mask: SelectionMask): boolean {
+    return mask.data.every(value => value === 0);
+}
+
+/**
+ * Set every pixel whose centre lies inside the rectangle (corners may be given in any order)
+ */
+export function fillMaskRect(mask: SelectionMask, rect: MaskRect, value: number): void {
+    const left = Math.max(0, Math.round(Math.min(rect.x, rect.x + rect.width)));
+    const right = Math.min(mask.width, Math.round(Math.max(rect.x, rect.x + rect.width)));
+    const top = Math.max(0, Math.round(Math.min(rect.y, rect.y + rect.height)));
+    const bottom = Math.min(mask.height, Math.round(Math.max(rect.y, rect.y + rect.height)));
+
+    for (let y = top; y < bottom; y++) {
+        mask.data.fill(value, y * mask.width + left, y * mask.width + right);
+    }
+}
+
+/**
+ * Scanline fill of a closed polygon using the even-odd rule, sampling at pixel centres
+ */
+export function fillMaskPolygon(mask: SelectionMask, points: MaskPoint[], value: number): void {
+    if (points.length < 3) return;
+
+    const crossings: number[] = [];
+    for (let y = 0; y < mask.height; y++) {
+        const sampleY = y + 0.5;
+        crossings.length = 0;
+
+        for (let i = 0; i < points.length; i++) {
+            const a = points[i];
+            const b = points[(i + 1) % points.length];
+            // Half-open test so a vertex on the scanline is counted once
+            if ((a.y <= sampleY) !== (b.y <= sampleY)) {
+                crossings.push(a.x + ((sampleY - a.y) / (b.y - a.y)) * (b.x - a.x));
+            }
+        }
+        crossings.sort((a, b) => a - b);
+
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+            const left = Math.max(0, Math.ceil(crossings[i] - 0.5));
+            const right = Math.min(mask.width, Math.ceil(crossings[i + 1] - 0.5));
+            if (right > left) {
+                mask.data.fill(value, y * mask.width + left, y * mask.width + right);
+            }
+        }
+    }
+}
+
+function stampCircle(mask: SelectionMask, center: MaskPoint, radius: number, value: number): void {
+    const top = Math.max(0, Math.floor(center.y - radius));
+    const bottom = Math.min(mask.height - 1, Math.ceil(center.y + radius));
+    for (let y = top; y <= bottom; y++) {
+        const dy = y + 0.5 - center.y;
+        const halfWidth = Math.sqrt(Math.max(0, radius * radius - dy * dy));
+        const left = Math.max(0, Math.ceil(center.x - halfWidth - 0.5));
+        const right = Math.min(mask.width, Math.floor(center.x + halfWidth - 0.5) + 1);
+        if (right > left) {
+            mask.data.fill(value, y * mask.width + left, y * mask.width + right);
+        }
+    }
+}
+
+/**
+ * Paint a round brush along a segment, stamping often enough to leave no gaps
+ */
+export function paintMaskStroke(mask: SelectionMask, from: MaskPoint, to: MaskPoint, radius: number, value: number): void {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const stamps = Math.max(1, Math.ceil(distance / Math.max(1, radius / 2)));
+    for (let i = 0; i <= stamps; i++) {
+        const t = i / stamps;
+        stampCircle(mask, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, radius, value);
+    }
+}
+
+// One box blur pass along rows (stride 1) or columns (stride = width), clamping at the edges
+function boxBlurPass(input: Float32Array, output: Float32Array, count: number, length: number, stride: number, lineStride: number, radius: number): void {
+    const scale = 1 / (radius * 2 + 1);
+    for (let line = 0; line < count; line++) {
+        const base = line * lineStride;
+        const at = (i: number) => input[base + Math.min(length - 1, Math.max(0, i)) * stride];
+
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) {
+            sum += at(i);
+        }
+        for (let i = 0; i < length; i++) {
+            output[base + i * stride] = sum * scale;
+            sum += at(i + radius + 1) - at(i - radius);
+        }
+    }
+}
+
+/**
+ * Soften the mask edge: three box blurs approximate a Gaussian with sigma ≈ feather / 2,
+ * so the blend fades over roughly `feather` pixels on each side of the edge
+ */
+export function featherMask(mask: SelectionMask, feather: number): SelectionMask {
+    const radius = Math.round(feather / 2);
+    if (radius < 1) return mask;
+
+    const { width, height } = mask;
+    const current = Float32Array.from(mask.data);
+    const scratch = new Float32Array(current.length);
+    for (let pass = 0; pass < 3; pass++) {
+        boxBlurPass(current, scratch, height, width, 1, width, radius);
+        boxBlurPass(scratch, current, width, height, width, 1, radius);
+    }
+
+    const data = new Uint8Array(current.length);
+    for (let i = 0; i < data.length; i++) {
+        data[i] = Math.round(current[i]);
+    }
+    return { width, height, data };
+}
+
+/**
+ * Nearest-neighbour copy of the mask at another size, e.g. for a downscaled preview
+ */
+export function resizeMask(mask: SelectionMask, width: number, height: number): SelectionMask {
+    if (mask.width === width && mask.height === height) return mask;
+
+    const resized = createEmptyMask(width, height);
+    for (let y = 0; y < height; y++) {
+        const sourceRow = Math.min(Math.floor(((y + 0.5) * mask.height) / height), mask.height - 1) * mask.width;
+        for (let x = 0; x < width; x++) {
+            resized.data[y * width + x] = mask.data[sourceRow + Math.min(Math.floor(((x + 0.5) * mask.width) / width), mask.width - 1)];
+        }
+    }
+    return resized;
+}
+
+/**
+ * Blend the stretched result into the original through the mask, weighting colour by alpha
+ * so transparent pixels on either side don't darken the transition
+ */
+export function applySelectionMask(original: RawImageData, stretched: RawImageData, mask: SelectionMask): RawImageData {
+    if (
+        original.width !== stretched.width || original.height !== stretched.height ||
+        mask.width !== stretched.width || mask.height !== stretched.height
+    ) {
+        console.warn('Selection mask does not match the image size, ignoring it:', {
+            original: `${original.width}x${original.height}`,
+            stretched: `${stretched.width}x${stretched.height}`,
+            mask: `${mask.width}x${mask.height}`
+        });
+        return stretched;
+    }
+
+    const data = new Uint8ClampedArray(stretched.data.length);
+    for (let i = 0; i < mask.data.length; i++) {
+        const offset = i * 4;
+        const weight = mask.data[i] / 255;
+
+        if (weight === 1 || weight === 0) {
+            const source = weight === 1 ? stretched.data : original.data;
+            data[offset] = source[offset];
+            data[offset + 1] = source[offset + 1];
+            data[offset + 2] = source[offset + 2];
+            data[offset + 3] = source[offset + 3];
+            continue;
+        }
+
+        const originalAlpha = original.data[offset + 3] * (1 - weight);
+        const stretchedAlpha = stretched.data[offset + 3] * weight;
+        const alpha = originalAlpha + stretchedAlpha;
+        data[offset + 3] = alpha;
+        if (alpha === 0) continue;
+
+        for (let channel = 0; channel < 3; channel++) {
+            data[offset + channel] =
+                (original.data[offset + channel] * originalAlpha + stretched.data[offset + channel] * stretchedAlpha) / alpha;
+        }
+    }
+
+    return { data, width: stretched.width, height: stretched.height };
+}
+
+/**
+ * Opaque greyscale image of the mask, for saving as PNG
+ */
+export function maskToImage(mask: SelectionMask): RawImageData {
+    const data = new Uint8ClampedArray(mask.data.length * 4);
+    for (let i = 0; i < mask.data.length; i++) {
+        data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = mask.data[i];
+        data[i * 4 + 3] = 255;
+    }
+    return { data, width: mask.width, height: mask.height };
+}
+
+/**
+ * Read a mask from an image: white selects, black keeps the original, and transparent
+ * pixels count as unselected
+ */
+export function maskFromImage(image: RawImageData): SelectionMask {
+    const mask = createEmptyMask(image.width, image.height);
+    for (let i = 0; i < mask.data.length; i++) {
+        const offset = i * 4;
+        const luminance = 0.2126 * image.data[offset] + 0.7152 * image.data[offset + 1] + 0.0722 * image.data[offset + 2];
+        mask.data[i] = Math.round((luminance * image.data[offset + 3]) / 255);
+    }
+    return mask;
+}
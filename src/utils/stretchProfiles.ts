@@ -0,0 +1,224 @@
+/**
+ * Stretch profiles describe how many gradient rows are inserted after each source row,
+ * starting at the starting pixel. The original behaviour is the Fibonacci table scaled
+ * by the stretch rate; the other profiles generate the gap list directly.
+ */
+export type StretchProfile =
+    | { type: 'fibonacci' }
+    | { type: 'linear'; startGap: number; endGap: number; length: number }
+    | { type: 'exponential'; startGap: number; growth: number; length: number }
+    | { type: 'custom'; gaps: number[] }
+    | { type: 'curve'; points: number[]; length: number };
+
+export type StretchProfileType = StretchProfile['type'];
+
+export const STRETCH_PROFILE_TYPES: StretchProfileType[] = ['fibonacci', 'linear', 'exponential', 'custom', 'curve'];
+
+export const STRETCH_PROFILE_LABELS: { [type in StretchProfileType]: string } = {
+    fibonacci: 'Fibonacci (rate)',
+    linear: 'Linear',
+    exponential: 'Exponential',
+    custom: 'Custom list',
+    curve: 'Drawn curve'
+};
+
+/** Longest gap list a profile may produce */
+export const MAX_PROFILE_LENGTH = 4096;
+
+/** Largest number of gradient rows between two source rows */
+export const MAX_PROFILE_GAP = 4096;
+
+/**
+ * Thrown for profiles that cannot be turned into a valid gap list
+ */
+export class StretchProfileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StretchProfileError';
+    }
+}
+
+/**
+ * Default settings used when switching the profile type in the UI
+ */
+export function createDefaultProfile(type: StretchProfileType): StretchProfile {
+    switch (type) {
+        case 'fibonacci':
+            return { type };
+        case 'linear':
+            return { type, startGap: 1, endGap: 60, length: 80 };
+        case 'exponential':
+            return { type, startGap: 1, growth: 1.1, length: 60 };
+        case 'custom':
+            return { type, gaps: [1, 1, 2, 3, 5, 8, 13, 21, 34, 55] };
+        case 'curve':
+            return { type, points: [1, 2, 4, 8, 16, 32, 64, 128], length: 80 };
+    }
+}
+
+function assertLength(length: number, label: string): void {
+    if (!Number.isInteger(length) || length < 1 || length > MAX_PROFILE_LENGTH) {
+        throw new StretchProfileError(`${label} length must be an integer between 1 and ${MAX_PROFILE_LENGTH}, got ${length}`);
+    }
+}
+
+/**
+ * Check every gap is a non-negative integer within bounds and the list isn't too long
+ */
+export function validateProfileGaps(gaps: number[]): void {
+    if (gaps.length === 0) {
+        throw new StretchProfileError('Profile must contain at least one gap');
+    }
+    if (gaps.length > MAX_PROFILE_LENGTH) {
+        throw new StretchProfileError(`Profile has ${gaps.length} gaps; the maximum is ${MAX_PROFILE_LENGTH}`);
+    }
+
+    gaps.forEach((gap, index) => {
+        if (!Number.isInteger(gap)) {
+            throw new StretchProfileError(`Profile gap ${index + 1} must be a whole number, got ${gap}`);
+        }
+        if (gap < 0) {
+            throw new StretchProfileError(`Profile gap ${index + 1} must not be negative, got ${gap}`);
+        }
+        if (gap > MAX_PROFILE_GAP) {
+            throw new StretchProfileError(`Profile gap ${index + 1} is ${gap}; the maximum is ${MAX_PROFILE_GAP}`);
+        }
+    });
+}
+
+/**
+ * Sample a piecewise-linear curve through evenly spaced control points
+ */
+function sampleCurve(points: number[], length: number): number[] {
+    const gaps: number[] = [];
+    for (let i = 0; i < length; i++) {
+        const position = length === 1 ? 0 : (i / (length - 1)) * (points.length - 1);
+        const index = Math.min(Math.floor(position), points.length - 2);
+        const t = position - index;
+        gaps.push(Math.round(points[index] + (points[index + 1] - points[index]) * t));
+    }
+    return gaps;
+}
+
+/**
+ * Generate and validate the gap list for a non-Fibonacci profile
+ */
+export function createProfileGaps(profile: Exclude<StretchProfile, { type: 'fibonacci' }>): number[] {
+    let gaps: number[];
+
+    switch (profile.type) {
+        case 'linear': {
+            assertLength(profile.length, 'Linear profile');
+            const { startGap, endGap, length } = profile;
+            gaps = Array.from({ length }, (_, i) =>
+                Math.round(length === 1 ? startGap : startGap + ((endGap - startGap) * i) / (length - 1))
+            );
+            break;
+        }
+
+        case 'exponential': {
+            assertLength(profile.length, 'Exponential profile');
+            const { startGap, growth, length } = profile;
+            if (!Number.isFinite(growth) || growth <= 0) {
+                throw new StretchProfileError(`Exponential growth must be a positive number, got ${growth}`);
+            }
+            if (!Number.isFinite(startGap) || startGap < 0) {
+                throw new StretchProfileError(`Exponential start gap must not be negative, got ${startGap}`);
+            }
+            gaps = Array.from({ length }, (_, i) => Math.round(startGap * Math.pow(growth, i)));
+            break;
+        }
+
+        case 'custom':
+            gaps = profile.gaps;
+            break;
+
+        case 'curve': {
+            assertLength(profile.length, 'Curve profile');
+            if (profile.points.length < 2) {
+                throw new StretchProfileError('Curve profile needs at least two control points');
+            }
+            if (profile.points.some(point => !Number.isFinite(point) || point < 0)) {
+                throw new StretchProfileError('Curve control points must be non-negative numbers');
+            }
+            gaps = sampleCurve(profile.points, profile.length);
+            break;
+        }
+    }
+
+    validateProfileGaps(gaps);
+    return gaps;
+}
+
+/**
+ * Parse a comma/whitespace separated gap list such as "1, 2, 3, 5"
+ */
+export function parseGapList(text: string): number[] {
+    const tokens = text.split(/[\s,]+/).filter(token => token.length > 0);
+    return tokens.map((token, index) => {
+        const value = Number(token);
+        if (Number.isNaN(value)) {
+            throw new StretchProfileError(`Profile gap ${index + 1} is not a number: "${token}"`);
+        }
+        return value;
+    });
+}
+
+/**
+ * Parse a compact profile description, e.g. `fibonacci`, `linear:1:60:80`,
+ * `exponential:1:1.1:60`, `custom:1,2,3,5` or `curve:80:1,4,16,64`
+ */
+export function parseStretchProfile(spec: string): StretchProfile {
+    const [type, ...args] = spec.split(':');
+    const numbers = (count: number): number[] => {
+        if (args.length !== count) {
+            throw new StretchProfileError(`"${type}" profile expects ${count} values separated by ":", got "${spec}"`);
+        }
+        return args.map(arg => {
+            const value = Number(arg);
+            if (arg.trim() === '' || Number.isNaN(value)) {
+                throw new StretchProfileError(`Invalid number "${arg}" in profile "${spec}"`);
+            }
+            return value;
+        });
+    };
+
+    switch (type) {
+        case 'fibonacci':
+            return { type };
+        case 'linear': {
+            const [startGap, endGap, length] = numbers(3);
+            return { type, startGap, endGap, length };
+        }
+        case 'exponential': {
+            const [startGap, growth, length] = numbers(3);
+            return { type, startGap, growth, length };
+        }
+        case 'custom':
+            return { type, gaps: parseGapList(args.join(':')) };
+        case 'curve': {
+            const [lengthText, pointsText = ''] = args;
+            return { type, length: Number(lengthText), points: parseGapList(pointsText) };
+        }
+        default:
+            throw new StretchProfileError(`Unknown profile type "${type}"; expected one of ${STRETCH_PROFILE_TYPES.join(', ')}`);
+    }
+}
+
+/**
+ * Inverse of parseStretchProfile
+ */
+export function formatStretchProfile(profile: StretchProfile): string {
+    switch (profile.type) {
+        case 'fibonacci':
+            return 'fibonacci';
+        case 'linear':
+            return `linear:${profile.startGap}:${profile.endGap}:${profile.length}`;
+        case 'exponential':
+            return `exponential:${profile.startGap}:${profile.growth}:${profile.length}`;
+        case 'custom':
+            return `custom:${profile.gaps.join(',')}`;
+        case 'curve':
+            return `curve:${profile.length}:${profile.points.join(',')}`;
+    }
+}
@@ -0,0 +1,171 @@
+import { DIRECTION_ANGLES, getAngleAxisLength, normalizeAngle, resolveStartingPixel, type StretchDirection, type StretchParams } from './imageStretching';
+import type { InterpolationMode } from './interpolation';
+import type { OutputSize } from './outputSize';
+import type { StretchProfile } from './stretchProfiles';
+
+/**
+ * Everything the user can tweak about a stretch, as shown in the UI.
+ * Unlike StretchParams, startingPixel is the on-screen column/row (no left/right inversion).
+ */
+export interface StretchSettings {
+    stretchRate: number;
+    direction: StretchDirection;
+    startingPixel: number;
+    premultiplyAlpha: boolean;
+    interpolation: InterpolationMode;
+    profile: StretchProfile;
+    /**
+     * Stretch along this angle (degrees clockwise from right) instead of direction.
+     * startingPixel is then the start line's distance along the stretch, as in StretchParams.
+     */
+    angle: number | null;
+    outputSize: OutputSize;
+}
+
+/** Stretch rates the controls offer; 1 stretches the most */
+export const MIN_STRETCH_RATE = 1;
+export const MAX_STRETCH_RATE = 13;
+
+export const DEFAULT_STRETCH_SETTINGS: StretchSettings = {
+    stretchRate: 13,
+    direction: 'right',
+    startingPixel: 100,
+    premultiplyAlpha: true,
+    interpolation: 'linear',
+    profile: { type: 'fibonacci' },
+    angle: null,
+    outputSize: { mode: 'original' }
+};
+
+/**
+ * Convert UI settings into the params stretchImage expects for an image of the given width
+ */
+export function toStretchParams(settings: StretchSettings, imageWidth: number): StretchParams {
+    if (settings.angle !== null) {
+        return {
+            stretchRate: settings.stretchRate,
+            startingPixel: settings.startingPixel,
+            direction: settings.direction,
+            premultiplyAlpha: settings.premultiplyAlpha,
+            interpolation: settings.interpolation,
+            profile: settings.profile,
+            angle: settings.angle,
+            outputSize: settings.outputSize
+        };
+    }
+
+    return {
+        stretchRate: settings.stretchRate,
+        startingPixel: resolveStartingPixel(settings.startingPixel, settings.direction, imageWidth),
+        direction: settings.direction,
+        premultiplyAlpha: settings.premultiplyAlpha,
+        interpolation: settings.interpolation,
+        profile: settings.profile,
+        outputSize: settings.outputSize
+    };
+}
+
+/**
+ * Number of positions the starting pixel can take: width for left/right, height for
+ * up/down, and the image's extent along the stretch in angle mode
+ */
+export function getStartAxisLength(settings: Pick<StretchSettings, 'direction' | 'angle'>, width: number, height: number): number {
+    if (settings.angle !== null) {
+        return getAngleAxisLength(settings.angle, width, height);
+    }
+    return settings.direction === 'left' || settings.direction === 'right' ? width : height;
+}
+
+/**
+ * Start distance for switching a direction into angle mode without moving the start line
+ */
+export function getAngleModeStart(settings: Pick<StretchSettings, 'startingPixel' | 'direction'>, width: number, height: number): number {
+    switch (settings.direction) {
+        case 'right':
+        case 'down':
+            return settings.startingPixel;
+        case 'left':
+            return width - 1 - settings.startingPixel;
+        case 'up':
+            return height - 1 - settings.startingPixel;
+    }
+}
+
+/**
+ * Starting pixel as a 0..1 fraction of its axis, so settings carry over to images of other sizes
+ */
+export function toRelativeStart(settings: Pick<StretchSettings, 'startingPixel' | 'direction' | 'angle'>, width: number, height: number): number {
+    const axisLength = getStartAxisLength(settings, width, height);
+    return axisLength > 1 ? Math.min(1, Math.max(0, settings.startingPixel / (axisLength - 1))) : 0;
+}
+
+/**
+ * Inverse of toRelativeStart for an image of the given size
+ */
+export function fromRelativeStart(relativeStart: number, settings: Pick<StretchSettings, 'direction' | 'angle'>, width: number, height: number): number {
+    const axisLength = getStartAxisLength(settings, width, height);
+    return Math.round(Math.min(1, Math.max(0, relativeStart)) * (axisLength - 1));
+}
+
+/**
+ * Start line of a stretch in image pixel coordinates (pixel centres at whole numbers): a point
+ * on the line and the unit vector the stretch flows along; the line is perpendicular to it
+ */
+export interface StartLine {
+    x: number;
+    y: number;
+    dx: number;
+    dy: number;
+}
+
+export function getStartLine(settings: Pick<StretchSettings, 'startingPixel' | 'direction' | 'angle'>, width: number, height: number): StartLine {
+    const angle = settings.angle ?? DIRECTION_ANGLES[settings.direction];
+    const radians = (normalizeAngle(angle) * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+
+    if (settings.angle === null) {
+        // The on-screen column or row, whichever way the stretch flows
+        const horizontal = settings.direction === 'left' || settings.direction === 'right';
+        return horizontal
+            ? { x: settings.startingPixel, y: (height - 1) / 2, dx: Math.round(dx), dy: 0 }
+            : { x: (width - 1) / 2, y: settings.startingPixel, dx: 0, dy: Math.round(dy) };
+    }
+
+    // Same frame as the angle stretch: distance 0 is the image's first point along the stretch
+    const offset = settings.startingPixel - (getAngleAxisLength(angle, width, height) - 1) / 2;
+    return { x: (width - 1) / 2 + offset * dx, y: (height - 1) / 2 + offset * dy, dx, dy };
+}
+
+/**
+ * Starting pixel that puts the start line through a point given in image pixel coordinates
+ */
+export function getStartFromPoint(settings: Pick<StretchSettings, 'direction' | 'angle'>, x: number, y: number, width: number, height: number): number {
+    const axisLength = getStartAxisLength(settings, width, height);
+    let start: number;
+    if (settings.angle === null) {
+        start = settings.direction === 'left' || settings.direction === 'right' ? x : y;
+    } else {
+        const radians = (normalizeAngle(settings.angle) * Math.PI) / 180;
+        start = (x - (width - 1) / 2) * Math.cos(radians) + (y - (height - 1) / 2) * Math.sin(radians) + (axisLength - 1) / 2;
+    }
+    return Math.min(Math.max(Math.round(start), 0), axisLength - 1);
+}
+
+/**
+ * Where the source image sits in a result of the given size: up and left stretches grow (or
+ * crop) the result at its start, so the image ends up aligned to the bottom or right edge
+ */
+export function getImageOffset(
+    settings: Pick<StretchSettings, 'direction' | 'angle'>,
+    width: number,
+    height: number,
+    resultWidth: number,
+    resultHeight: number
+): { x: number; y: number } {
+    if (settings.angle !== null) return { x: 0, y: 0 };
+    return {
+        x: settings.direction === 'left' ? resultWidth - width : 0,
+        y: settings.direction === 'up' ? resultHeight - height : 0
+    };
+}
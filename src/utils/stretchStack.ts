@@ -0,0 +1,177 @@
+import type { RawImageData, StretchParams } from './imageStretching';
+import { toStretchParams, type StretchSettings } from './stretchSettings';
+
+/**
+ * One pass in the layer stack. Each enabled step stretches the output of the previous one.
+ */
+export interface StretchStep {
+    id: string;
+    enabled: boolean;
+    settings: StretchSettings;
+}
+
+export interface StretchStack {
+    steps: StretchStep[];
+    /** Step edited by the controls panel */
+    selectedStepId: string;
+}
+
+let nextStepId = 1;
+
+export function createStep(settings: StretchSettings): StretchStep {
+    return { id: `step-${Date.now().toString(36)}-${nextStepId++}`, enabled: true, settings };
+}
+
+export function createStack(settings: StretchSettings): StretchStack {
+    const step = createStep(settings);
+    return { steps: [step], selectedStepId: step.id };
+}
+
+export function getSelectedStep(stack: StretchStack): StretchStep {
+    return stack.steps.find(step => step.id === stack.selectedStepId) ?? stack.steps[0];
+}
+
+export function updateSelectedSettings(stack: StretchStack, patch: Partial<StretchSettings>): StretchStack {
+    const selected = getSelectedStep(stack);
+    return {
+        ...stack,
+        steps: stack.steps.map(step => (step === selected ? { ...step, settings: { ...step.settings, ...patch } } : step))
+    };
+}
+
+/**
+ * Patch the settings of every step, e.g. to re-centre the start position for a new image
+ */
+export function updateAllSettings(stack: StretchStack, patch: Partial<StretchSettings>): StretchStack {
+    return {
+        ...stack,
+        steps: stack.steps.map(step => ({ ...step, settings: { ...step.settings, ...patch } }))
+    };
+}
+
+/**
+ * Append a step after the selected one (copying its settings) and select it
+ */
+export function addStep(stack: StretchStack): StretchStack {
+    const selected = getSelectedStep(stack);
+    const step = createStep(selected.settings);
+    const position = stack.steps.indexOf(selected) + 1;
+    return {
+        steps: [...stack.steps.slice(0, position), step, ...stack.steps.slice(position)],
+        selectedStepId: step.id
+    };
+}
+
+/**
+ * Remove a step; the last remaining step cannot be removed
+ */
+export function removeStep(stack: StretchStack, id: string): StretchStack {
+    if (stack.steps.length <= 1) return stack;
+
+    const position = stack.steps.findIndex(step => step.id === id);
+    if (position === -1) return stack;
+
+    const steps = stack.steps.filter(step => step.id !== id);
+    const selectedStepId = stack.selectedStepId === id
+        ? steps[Math.min(position, steps.length - 1)].id
+        : stack.selectedStepId;
+    return { steps, selectedStepId };
+}
+
+export function moveStep(stack: StretchStack, id: string, offset: number): StretchStack {
+    const position = stack.steps.findIndex(step => step.id === id);
+    const target = position + offset;
+    if (position === -1 || target < 0 || target >= stack.steps.length) return stack;
+
+    const steps = [...stack.steps];
+    const [step] = steps.splice(position, 1);
+    steps.splice(target, 0, step);
+    return { ...stack, steps };
+}
+
+export function toggleStep(stack: StretchStack, id: string): StretchStack {
+    return {
+        ...stack,
+        steps: stack.steps.map(step => (step.id === id ? { ...step, enabled: !step.enabled } : step))
+    };
+}
+
+export function selectStep(stack: StretchStack, id: string): StretchStack {
+    return stack.steps.some(step => step.id === id) ? { ...stack, selectedStepId: id } : stack;
+}
+
+interface StackCacheEntry {
+    key: string;
+    result: RawImageData;
+}
+
+/**
+ * Results of each enabled step, keyed by the settings of that step and every step before it
+ */
+export interface StackCache {
+    source: RawImageData | null;
+    entries: StackCacheEntry[];
+}
+
+export function createStackCache(): StackCache {
+    return { source: null, entries: [] };
+}
+
+/**
+ * Run one step. Receives a buffer the callee may keep or detach; resolves null when cancelled.
+ */
+export type StackStepRunner = (
+    input: RawImageData,
+    params: StretchParams,
+    stepIndex: number,
+    stepCount: number
+) => Promise<RawImageData | null>;
+
+/**
+ * Render the enabled steps in order, feeding each result into the next. Steps whose settings
+ * (and predecessors) are unchanged since the last render are taken from the cache, so editing
+ * the last step only recomputes that step. Resolves null if a step was cancelled; results
+ * finished before the cancellation stay cached.
+ */
+export async function renderStretchStack(
+    source: RawImageData,
+    steps: StretchStep[],
+    cache: StackCache,
+    runStep: StackStepRunner
+): Promise<RawImageData | null> {
+    if (cache.source !== source) {
+        cache.source = source;
+        cache.entries = [];
+    }
+
+    const enabledSteps = steps.filter(step => step.enabled);
+
+    // Cumulative keys: a step's result depends on its own settings and all earlier ones
+    const keys: string[] = [];
+    enabledSteps.forEach((step, index) => {
+        keys.push(`${index > 0 ? keys[index - 1] : ''}|${JSON.stringify(step.settings)}`);
+    });
+
+    let reused = 0;
+    while (reused < keys.length && cache.entries[reused]?.key === keys[reused]) {
+        reused++;
+    }
+    cache.entries.length = reused;
+
+    console.log('Rendering stretch stack:', { steps: enabledSteps.length, cachedSteps: reused });
+
+    let current = reused > 0 ? cache.entries[reused - 1].result : source;
+    for (let index = reused; index < enabledSteps.length; index++) {
+        // Hand the runner a copy so cached buffers are never detached by a worker transfer
+        const input: RawImageData = { data: current.data.slice(), width: current.width, height: current.height };
+        const params = toStretchParams(enabledSteps[index].settings, input.width);
+
+        const result = await runStep(input, params, index - reused, enabledSteps.length - reused);
+        if (!result) return null;
+
+        cache.entries[index] = { key: keys[index], result };
+        current = result;
+    }
+
+    return current;
+}
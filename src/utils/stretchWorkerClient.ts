@@ -0,0 +1,123 @@
+import type { RawImageData, StretchedImageData, StretchParams } from './imageStretching';
+import type { StretchJobRequest, StretchWorkerMessage } from '../workers/stretchWorker';
+
+export interface StretchWorkerClient {
+    /**
+     * Run a stretch job in the worker. Resolves with null if a newer job cancelled this one.
+     */
+    run(imageData: RawImageData, params: StretchParams, onProgress?: (progress: number) => void): Promise<StretchedImageData | null>;
+    /** Cancel the in-flight job, if any */
+    cancel(): void;
+    /** Terminate the worker for good */
+    dispose(): void;
+}
+
+interface PendingJob {
+    jobId: number;
+    resolve: (result: StretchedImageData | null) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: number) => void;
+}
+
+function spawnWorker(): Worker {
+    return new Worker(new URL('../workers/stretchWorker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Create a client for the stretch worker. Only one job runs at a time: starting a new job
+ * terminates the worker mid-computation so a stale result can never reach the preview.
+ */
+export function createStretchWorkerClient(): StretchWorkerClient {
+    let worker: Worker | null = null;
+    let pending: PendingJob | null = null;
+    let nextJobId = 1;
+
+    const handleMessage = (event: MessageEvent<StretchWorkerMessage>) => {
+        const message = event.data;
+        if (!pending || message.jobId !== pending.jobId) {
+            console.log('Ignoring message from stale stretch job', message.jobId);
+            return;
+        }
+
+        switch (message.type) {
+            case 'progress':
+                pending.onProgress?.(message.progress);
+                break;
+            case 'result': {
+                const job = pending;
+                pending = null;
+                job.resolve({
+                    data: new Uint8ClampedArray(message.buffer),
+                    width: message.width,
+                    height: message.height
+                });
+                break;
+            }
+            case 'error': {
+                const job = pending;
+                pending = null;
+                job.reject(new Error(message.message));
+                break;
+            }
+        }
+    };
+
+    const ensureWorker = (): Worker => {
+        if (!worker) {
+            worker = spawnWorker();
+            worker.onmessage = handleMessage;
+            worker.onerror = (event) => {
+                console.error('Stretch worker error:', event.message);
+                if (pending) {
+                    const job = pending;
+                    pending = null;
+                    job.reject(new Error(event.message || 'Stretch worker failed'));
+                }
+                worker?.terminate();
+                worker = null;
+            };
+        }
+        return worker;
+    };
+
+    const cancel = () => {
+        if (!pending) return;
+
+        console.log('Cancelling stretch job', pending.jobId);
+        const job = pending;
+        pending = null;
+
+        // The worker is busy in a synchronous loop, so terminating it is the only way to stop it
+        worker?.terminate();
+        worker = null;
+        job.resolve(null);
+    };
+
+    return {
+        run(imageData, params, onProgress) {
+            cancel();
+
+            const jobId = nextJobId++;
+            return new Promise<StretchedImageData | null>((resolve, reject) => {
+                pending = { jobId, resolve, reject, onProgress };
+
+                const request: StretchJobRequest = {
+                    jobId,
+                    buffer: imageData.data.buffer as ArrayBuffer,
+                    width: imageData.width,
+                    height: imageData.height,
+                    params
+                };
+                ensureWorker().postMessage(request, [request.buffer]);
+            });
+        },
+
+        cancel,
+
+        dispose() {
+            cancel();
+            worker?.terminate();
+            worker = null;
+        }
+    };
+}
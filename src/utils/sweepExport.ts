@@ -0,0 +1,138 @@
+import { assembleGif, encodeGifFrame, type GifFrame } from './gifEncoder';
+import type { RawImageData } from './imageStretching';
+import { renderStretchStack, updateSelectedSettings, createStackCache, type StackStepRunner, type StretchStack } from './stretchStack';
+import { createWebmEncoder, type WebmEncoder } from './webmEncoder';
+
+/**
+ * Sweep export: render the layer stack once per frame while one setting of the selected
+ * step moves between two values, then encode the frames as an animated GIF or WebM video.
+ */
+
+export const SWEEP_PARAMETERS = ['startingPixel', 'stretchRate'] as const;
+export type SweepParameter = typeof SWEEP_PARAMETERS[number];
+
+export const SWEEP_PARAMETER_LABELS: { [parameter in SweepParameter]: string } = {
+    startingPixel: 'Start pixel',
+    stretchRate: 'Stretch rate'
+};
+
+export const SWEEP_FORMATS = ['gif', 'webm'] as const;
+export type SweepFormat = typeof SWEEP_FORMATS[number];
+
+export const MIN_SWEEP_FRAMES = 2;
+export const MAX_SWEEP_FRAMES = 300;
+export const MIN_SWEEP_FPS = 1;
+export const MAX_SWEEP_FPS = 50;
+
+export interface SweepOptions {
+    parameter: SweepParameter;
+    from: number;
+    to: number;
+    frameCount: number;
+    fps: number;
+    format: SweepFormat;
+    /** GIF only: repeat forever instead of playing once */
+    loop: boolean;
+    /** Play the sweep forwards then backwards */
+    pingPong: boolean;
+}
+
+/**
+ * Thrown when the export is cancelled through its AbortSignal
+ */
+export class SweepCancelledError extends Error {
+    constructor() {
+        super('Export cancelled');
+        this.name = 'SweepCancelledError';
+    }
+}
+
+/**
+ * Parameter value for each distinct frame, evenly spaced from `from` to `to` and rounded
+ * to whole pixels / rates
+ */
+export function createSweepValues(options: Pick<SweepOptions, 'from' | 'to' | 'frameCount'>): number[] {
+    const { from, to, frameCount } = options;
+    return Array.from({ length: frameCount }, (_, i) => Math.round(from + ((to - from) * i) / (frameCount - 1)));
+}
+
+/**
+ * Indices into the distinct frames in playback order; ping-pong walks back without
+ * repeating the two end frames, so a looping animation doesn't stutter
+ */
+export function createPlaybackOrder(frameCount: number, pingPong: boolean): number[] {
+    const forward = Array.from({ length: frameCount }, (_, i) => i);
+    return pingPong ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+}
+
+/**
+ * Render the sweep and encode it. runStep is the same per-step runner the preview uses and
+ * finishFrame post-processes each stack result (e.g. the selection mask); progress is
+ * reported as 0..100 over all frames rendered.
+ */
+export async function exportSweep(
+    source: RawImageData,
+    stack: StretchStack,
+    options: SweepOptions,
+    runStep: StackStepRunner,
+    finishFrame: (source: RawImageData, stretched: RawImageData) => RawImageData,
+    onProgress: (progress: number) => void,
+    signal: AbortSignal
+): Promise<Blob> {
+    const values = createSweepValues(options);
+    const order = createPlaybackOrder(values.length, options.pingPong);
+    const frameDurationMs = 1000 / options.fps;
+
+    // Steps before the swept one are identical in every frame, so they're rendered only once
+    const cache = createStackCache();
+    // Animations need one frame size; the full-length output size changes with the settings
+    let frameSize: { width: number; height: number } | null = null;
+
+    const renderFrame = async (frameIndex: number, renderIndex: number, renderCount: number): Promise<RawImageData> => {
+        if (signal.aborted) throw new SweepCancelledError();
+
+        const frameStack = updateSelectedSettings(stack, { [options.parameter]: values[frameIndex] });
+        const result = await renderStretchStack(source, frameStack.steps, cache, (input, params, stepIndex, stepCount) =>
+            runStep(input, params, stepIndex, stepCount).then(output => {
+                onProgress(Math.round(((renderIndex + (stepIndex + 1) / stepCount) / renderCount) * 100));
+                return output;
+            })
+        );
+
+        if (!result || signal.aborted) throw new SweepCancelledError();
+
+        frameSize ??= { width: result.width, height: result.height };
+        if (result.width !== frameSize.width || result.height !== frameSize.height) {
+            throw new Error(
+                `Frames differ in size (${frameSize.width}x${frameSize.height} and ${result.width}x${result.height}); ` +
+                'use the original or a fixed output size for animated export'
+            );
+        }
+        return finishFrame(source, result);
+    };
+
+    if (options.format === 'gif') {
+        // Encoded GIF frames are self-contained, so ping-pong reuses them instead of re-rendering
+        const frames: GifFrame[] = [];
+        let size = { width: source.width, height: source.height };
+        for (let i = 0; i < values.length; i++) {
+            const image = await renderFrame(i, i, values.length);
+            size = { width: image.width, height: image.height };
+            frames.push(encodeGifFrame(image, frameDurationMs));
+        }
+        return assembleGif({ ...size, loop: options.loop }, order.map(index => frames[index]));
+    }
+
+    // Video frames depend on each other, so the way back is rendered again
+    let encoder: WebmEncoder | null = null;
+    try {
+        for (let i = 0; i < order.length; i++) {
+            const image = await renderFrame(order[i], i, order.length);
+            encoder ??= await createWebmEncoder({ width: image.width, height: image.height, fps: options.fps });
+            await encoder.addFrame(image);
+        }
+        return await encoder!.finish();
+    } finally {
+        encoder?.close();
+    }
+}
@@ -0,0 +1,232 @@
+import { normalizeAngle, STRETCH_DIRECTIONS, type StretchDirection } from './imageStretching';
+import { INTERPOLATION_MODES, type InterpolationMode } from './interpolation';
+import { formatOutputSize, OutputSizeError, parseOutputSize, type OutputSize } from './outputSize';
+import {
+    createProfileGaps,
+    formatStretchProfile,
+    parseStretchProfile,
+    StretchProfileError,
+    type StretchProfile
+} from './stretchProfiles';
+import {
+    DEFAULT_STRETCH_SETTINGS,
+    fromRelativeStart,
+    MAX_STRETCH_RATE,
+    MIN_STRETCH_RATE,
+    toRelativeStart,
+    type StretchSettings
+} from './stretchSettings';
+import { createStep, type StretchStack } from './stretchStack';
+
+/**
+ * The layer stack is shared through the URL hash, one `step=` entry per pass:
+ *
+ *     #v=1&sel=0&step=dir:right;rate:13;start:0.5;interp:linear;alpha:pm;profile:fibonacci
+ *
+ * Angle mode adds `angle:<degrees>` and other output sizes add `size:<spec>`. Fields are `key:value` pairs so new options can be
+ * added without breaking old links; unknown keys are ignored and missing ones fall back to
+ * the defaults. The starting pixel is stored as a fraction of its axis so a link works for
+ * images of any size.
+ */
+export const URL_STATE_VERSION = 1;
+
+/** Upper bound on passes read from a link, so a crafted URL can't queue endless work */
+export const MAX_SHARED_STEPS = 16;
+
+export interface SharedStep {
+    enabled: boolean;
+    settings: Omit<StretchSettings, 'startingPixel'>;
+    /** Starting pixel as a 0..1 fraction of its axis */
+    relativeStart: number;
+}
+
+/**
+ * Stack settings decoded from a link, waiting for an image to give them pixel positions
+ */
+export interface SharedStack {
+    steps: SharedStep[];
+    selectedIndex: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function encodeStep(settings: StretchSettings, enabled: boolean, width: number, height: number): string {
+    const fields = [
+        `dir:${settings.direction}`,
+        `rate:${settings.stretchRate}`,
+        `start:${Number(toRelativeStart(settings, width, height).toFixed(4))}`,
+        `interp:${settings.interpolation}`,
+        `alpha:${settings.premultiplyAlpha ? 'pm' : 'straight'}`,
+        `profile:${formatStretchProfile(settings.profile)}`
+    ];
+    if (settings.angle !== null) {
+        fields.push(`angle:${settings.angle}`);
+    }
+    if (settings.outputSize.mode !== 'original') {
+        fields.push(`size:${formatOutputSize(settings.outputSize)}`);
+    }
+    if (!enabled) {
+        fields.push('on:0');
+    }
+    return fields.join(';');
+}
+
+/**
+ * Serialize a stack into a URL hash (including the leading `#`) for an image of the given size
+ */
+export function encodeStackHash(stack: StretchStack, width: number, height: number): string {
+    const selectedIndex = Math.max(0, stack.steps.findIndex(step => step.id === stack.selectedStepId));
+    const parts = [`v=${URL_STATE_VERSION}`, `sel=${selectedIndex}`];
+    for (const step of stack.steps) {
+        // Profile specs only contain [a-z0-9.,:-], all of which are legal in a fragment
+        parts.push(`step=${encodeStep(step.settings, step.enabled, width, height)}`);
+    }
+    return `#${parts.join('&')}`;
+}
+
+function parseDirection(value: string | undefined): StretchDirection {
+    if (value === undefined) return DEFAULT_STRETCH_SETTINGS.direction;
+    if ((STRETCH_DIRECTIONS as readonly string[]).includes(value)) return value as StretchDirection;
+
+    console.warn(`Ignoring unknown direction "${value}" in URL`);
+    return DEFAULT_STRETCH_SETTINGS.direction;
+}
+
+function parseInterpolation(value: string | undefined): InterpolationMode {
+    if (value === undefined) return DEFAULT_STRETCH_SETTINGS.interpolation;
+    if ((INTERPOLATION_MODES as readonly string[]).includes(value)) return value as InterpolationMode;
+
+    console.warn(`Ignoring unknown interpolation "${value}" in URL`);
+    return DEFAULT_STRETCH_SETTINGS.interpolation;
+}
+
+function parseNumber(value: string | undefined, fallback: number, min: number, max: number, label: string): number {
+    if (value === undefined) return fallback;
+
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number)) {
+        console.warn(`Ignoring invalid ${label} "${value}" in URL`);
+        return fallback;
+    }
+    return clamp(number, min, max);
+}
+
+function parseProfile(value: string | undefined): StretchProfile {
+    if (value === undefined) return DEFAULT_STRETCH_SETTINGS.profile;
+
+    try {
+        const profile = parseStretchProfile(value);
+        if (profile.type !== 'fibonacci') {
+            createProfileGaps(profile);
+        }
+        return profile;
+    } catch (error) {
+        if (!(error instanceof StretchProfileError)) throw error;
+        console.warn(`Ignoring invalid profile in URL: ${error.message}`);
+        return DEFAULT_STRETCH_SETTINGS.profile;
+    }
+}
+
+function parseAngle(value: string | undefined): number | null {
+    if (value === undefined) return DEFAULT_STRETCH_SETTINGS.angle;
+
+    const angle = Number(value);
+    if (value.trim() === '' || !Number.isFinite(angle)) {
+        console.warn(`Ignoring invalid angle "${value}" in URL`);
+        return DEFAULT_STRETCH_SETTINGS.angle;
+    }
+    return normalizeAngle(angle);
+}
+
+function parseSize(value: string | undefined): OutputSize {
+    if (value === undefined) return DEFAULT_STRETCH_SETTINGS.outputSize;
+
+    try {
+        return parseOutputSize(value);
+    } catch (error) {
+        if (!(error instanceof OutputSizeError)) throw error;
+        console.warn(`Ignoring invalid output size in URL: ${error.message}`);
+        return DEFAULT_STRETCH_SETTINGS.outputSize;
+    }
+}
+
+function decodeStep(text: string): SharedStep {
+    const fields = new Map<string, string>();
+    for (const field of text.split(';')) {
+        const separator = field.indexOf(':');
+        if (separator > 0) {
+            fields.set(field.slice(0, separator), field.slice(separator + 1));
+        }
+    }
+
+    return {
+        enabled: fields.get('on') !== '0',
+        relativeStart: parseNumber(fields.get('start'), 0.5, 0, 1, 'start'),
+        settings: {
+            direction: parseDirection(fields.get('dir')),
+            stretchRate: Math.round(parseNumber(fields.get('rate'), DEFAULT_STRETCH_SETTINGS.stretchRate, MIN_STRETCH_RATE, MAX_STRETCH_RATE, 'rate')),
+            interpolation: parseInterpolation(fields.get('interp')),
+            premultiplyAlpha: fields.has('alpha') ? fields.get('alpha') !== 'straight' : DEFAULT_STRETCH_SETTINGS.premultiplyAlpha,
+            profile: parseProfile(fields.get('profile')),
+            angle: parseAngle(fields.get('angle')),
+            outputSize: parseSize(fields.get('size'))
+        }
+    };
+}
+
+/**
+ * Read stack settings from a URL hash. Returns null when the hash holds no stretch state.
+ * Invalid or out-of-range values are replaced with defaults or clamped, never thrown.
+ */
+export function decodeStackHash(hash: string): SharedStack | null {
+    const parts = hash.replace(/^#/, '').split('&').filter(part => part.length > 0);
+
+    const stepTexts: string[] = [];
+    let selectedIndex = 0;
+    for (const part of parts) {
+        const separator = part.indexOf('=');
+        if (separator === -1) continue;
+
+        const key = part.slice(0, separator);
+        let value: string;
+        try {
+            value = decodeURIComponent(part.slice(separator + 1));
+        } catch {
+            console.warn(`Ignoring malformed URL parameter "${key}"`);
+            continue;
+        }
+
+        if (key === 'step') {
+            stepTexts.push(value);
+        } else if (key === 'sel') {
+            selectedIndex = Math.round(parseNumber(value, 0, 0, MAX_SHARED_STEPS - 1, 'selection'));
+        } else if (key === 'v' && Number(value) > URL_STATE_VERSION) {
+            console.warn(`URL state version ${value} is newer than this app understands; reading what it can`);
+        }
+    }
+
+    if (stepTexts.length === 0) return null;
+
+    if (stepTexts.length > MAX_SHARED_STEPS) {
+        console.warn(`URL has ${stepTexts.length} passes; only the first ${MAX_SHARED_STEPS} are used`);
+    }
+    const steps = stepTexts.slice(0, MAX_SHARED_STEPS).map(decodeStep);
+
+    return { steps, selectedIndex: Math.min(selectedIndex, steps.length - 1) };
+}
+
+/**
+ * Turn shared settings into a stack for an image of the given size
+ */
+export function createStackFromShared(shared: SharedStack, width: number, height: number): StretchStack {
+    const steps = shared.steps.map(({ enabled, settings, relativeStart }) => ({
+        ...createStep({
+            ...settings,
+            startingPixel: fromRelativeStart(relativeStart, settings, width, height)
+        }),
+        enabled
+    }));
+    return { steps, selectedStepId: steps[shared.selectedIndex].id };
+}
@@ -0,0 +1,87 @@
+/**
+ * Zoom and pan of the displayed result. The view is kept relative to the result (zoom 1 fits
+ * the whole result in the canvas, the centre is a fraction of its size), so it stays in place
+ * when a re-render changes the result or its size.
+ */
+export interface ZoomView {
+    zoom: number;
+    centerX: number;
+    centerY: number;
+}
+
+/**
+ * Visible part of the result, in result pixels
+ */
+export interface ViewRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const FIT_VIEW: ZoomView = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+
+/** Largest on-screen size of one result pixel, in CSS pixels */
+export const MAX_PIXEL_SIZE = 32;
+
+/** From this many canvas pixels per result pixel on, the result is drawn with nearest-neighbour sampling */
+export const NEAREST_NEIGHBOUR_PIXEL_SIZE = 2;
+
+/** Zoom factor of one step of the buttons or keys */
+export const ZOOM_STEP = 1.25;
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Zoom at which a result pixel is MAX_PIXEL_SIZE CSS pixels wide, for a canvas showing the
+ * whole result `displayWidth` CSS pixels wide
+ */
+export function getMaxZoom(resultWidth: number, displayWidth: number): number {
+    return Math.max(1, (MAX_PIXEL_SIZE * resultWidth) / Math.max(1, displayWidth));
+}
+
+/**
+ * Zoom at which one result pixel is one CSS pixel
+ */
+export function getActualSizeZoom(resultWidth: number, displayWidth: number): number {
+    return clamp(resultWidth / Math.max(1, displayWidth), 1, getMaxZoom(resultWidth, displayWidth));
+}
+
+/**
+ * Limit the zoom to [1, maxZoom] and keep the visible area inside the result
+ */
+export function clampView(view: ZoomView, maxZoom: number): ZoomView {
+    const zoom = clamp(view.zoom, 1, Math.max(1, maxZoom));
+    const half = 0.5 / zoom;
+    return { zoom, centerX: clamp(view.centerX, half, 1 - half), centerY: clamp(view.centerY, half, 1 - half) };
+}
+
+export function getViewRect(view: ZoomView, resultWidth: number, resultHeight: number): ViewRect {
+    const { zoom, centerX, centerY } = clampView(view, Infinity);
+    const width = resultWidth / zoom;
+    const height = resultHeight / zoom;
+    return { x: centerX * resultWidth - width / 2, y: centerY * resultHeight - height / 2, width, height };
+}
+
+/**
+ * Change the zoom keeping one point in place; the anchor is given as a fraction of the
+ * visible area (0.5, 0.5 zooms on the centre)
+ */
+export function zoomViewAt(view: ZoomView, zoom: number, anchorX: number, anchorY: number, maxZoom: number): ZoomView {
+    const current = clampView(view, maxZoom);
+    const next = clamp(zoom, 1, Math.max(1, maxZoom));
+    // The anchored point, as a fraction of the result
+    const pointX = current.centerX + (anchorX - 0.5) / current.zoom;
+    const pointY = current.centerY + (anchorY - 0.5) / current.zoom;
+    return clampView({ zoom: next, centerX: pointX - (anchorX - 0.5) / next, centerY: pointY - (anchorY - 0.5) / next }, maxZoom);
+}
+
+/**
+ * Move the view by a distance given as a fraction of the visible area, like dragging the
+ * image by that much
+ */
+export function panView(view: ZoomView, deltaX: number, deltaY: number, maxZoom: number): ZoomView {
+    return clampView({ ...view, centerX: view.centerX - deltaX / view.zoom, centerY: view.centerY - deltaY / view.zoom }, maxZoom);
+}
@@ -0,0 +1,260 @@
+import type { RawImageData } from './imageStretching';
+
+/**
+ * WebM video encoding with the browser's WebCodecs VideoEncoder, muxed into a single-track
+ * WebM file in memory. Only what players need is written: header, track, and one cluster
+ * per keyframe; there are no cues, so very long videos seek slowly.
+ */
+
+export interface WebmEncoderOptions {
+    width: number;
+    height: number;
+    fps: number;
+}
+
+export interface WebmEncoder {
+    /** Queue a frame; waits while the encoder is backed up so raw frames don't pile up */
+    addFrame(image: RawImageData): Promise<void>;
+    /** Flush the encoder and return the finished file */
+    finish(): Promise<Blob>;
+    /** Abandon the encode and release the encoder */
+    close(): void;
+}
+
+interface EncodedChunk {
+    data: Uint8Array;
+    timestampMs: number;
+    isKey: boolean;
+}
+
+// Candidate codecs in order of preference, with their Matroska codec IDs
+const CODECS = [
+    { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+    { codec: 'vp8', codecId: 'V_VP8' }
+];
+
+// Keyframe (and new cluster) at least this often; block timecodes are 16-bit offsets from the cluster
+const KEYFRAME_INTERVAL_MS = 2000;
+
+const MAX_QUEUED_FRAMES = 4;
+
+export function isWebmExportSupported(): boolean {
+    return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+// --- EBML writing -------------------------------------------------------------------------
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const length = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function encodeId(id: number): Uint8Array {
+    const bytes: number[] = [];
+    for (let value = id; value > 0; value = Math.floor(value / 256)) {
+        bytes.unshift(value & 0xff);
+    }
+    return new Uint8Array(bytes);
+}
+
+function encodeSize(size: number): Uint8Array {
+    // Shortest variable-length integer that holds size (all-ones values are reserved)
+    let length = 1;
+    while (size >= 2 ** (7 * length) - 1) length++;
+
+    const bytes = new Uint8Array(length);
+    let value = size;
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value & 0xff;
+        value = Math.floor(value / 256);
+    }
+    bytes[0] |= 1 << (8 - length);
+    return bytes;
+}
+
+function element(id: number, content: Uint8Array | Uint8Array[]): Uint8Array {
+    const body = Array.isArray(content) ? concat(content) : content;
+    return concat([encodeId(id), encodeSize(body.length), body]);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+    const bytes: number[] = [];
+    for (let remaining = value; remaining > 0 || bytes.length === 0; remaining = Math.floor(remaining / 256)) {
+        bytes.unshift(remaining & 0xff);
+    }
+    return element(id, new Uint8Array(bytes));
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    return element(id, bytes);
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+    return element(id, new TextEncoder().encode(value));
+}
+
+function simpleBlock(chunk: EncodedChunk, clusterTimestampMs: number): Uint8Array {
+    const relative = chunk.timestampMs - clusterTimestampMs;
+    const header = new Uint8Array(4);
+    header[0] = 0x81; // track number 1 as a variable-length integer
+    new DataView(header.buffer).setInt16(1, relative);
+    header[3] = chunk.isKey ? 0x80 : 0;
+    return element(0xa3, [header, chunk.data]);
+}
+
+function muxWebm(chunks: EncodedChunk[], options: WebmEncoderOptions, codecId: string): Blob {
+    const frameDurationMs = 1000 / options.fps;
+
+    const header = element(0x1a45dfa3, [
+        uintElement(0x4286, 1), // EBMLVersion
+        uintElement(0x42f7, 1), // EBMLReadVersion
+        uintElement(0x42f2, 4), // EBMLMaxIDLength
+        uintElement(0x42f3, 8), // EBMLMaxSizeLength
+        stringElement(0x4282, 'webm'), // DocType
+        uintElement(0x4287, 2), // DocTypeVersion
+        uintElement(0x4285, 2) // DocTypeReadVersion
+    ]);
+
+    const info = element(0x1549a966, [
+        uintElement(0x2ad7b1, 1_000_000), // TimestampScale: timestamps are in milliseconds
+        stringElement(0x4d80, 'Image Stretcher'), // MuxingApp
+        stringElement(0x5741, 'Image Stretcher'), // WritingApp
+        floatElement(0x4489, chunks.length * frameDurationMs) // Duration
+    ]);
+
+    const tracks = element(0x1654ae6b, element(0xae, [
+        uintElement(0xd7, 1), // TrackNumber
+        uintElement(0x73c5, 1), // TrackUID
+        uintElement(0x83, 1), // TrackType: video
+        uintElement(0x9c, 0), // FlagLacing
+        stringElement(0x86, codecId), // CodecID
+        uintElement(0x23e383, Math.round(frameDurationMs * 1_000_000)), // DefaultDuration in ns
+        element(0xe0, [
+            uintElement(0xb0, options.width), // PixelWidth
+            uintElement(0xba, options.height) // PixelHeight
+        ])
+    ]));
+
+    // A new cluster at every keyframe keeps relative block timecodes small
+    const clusters: Uint8Array[] = [];
+    let clusterTimestampMs = 0;
+    let blocks: Uint8Array[] = [];
+    const flushCluster = () => {
+        if (blocks.length === 0) return;
+        clusters.push(element(0x1f43b675, [uintElement(0xe7, clusterTimestampMs), ...blocks]));
+        blocks = [];
+    };
+    for (const chunk of chunks) {
+        if (chunk.isKey) {
+            flushCluster();
+            clusterTimestampMs = chunk.timestampMs;
+        }
+        blocks.push(simpleBlock(chunk, clusterTimestampMs));
+    }
+    flushCluster();
+
+    const segment = element(0x18538067, [info, tracks, ...clusters]);
+    return new Blob([header as Uint8Array<ArrayBuffer>, segment as Uint8Array<ArrayBuffer>], { type: 'video/webm' });
+}
+
+// --- Encoding -----------------------------------------------------------------------------
+
+async function pickCodec(options: WebmEncoderOptions, bitrate: number): Promise<{ config: VideoEncoderConfig; codecId: string }> {
+    for (const { codec, codecId } of CODECS) {
+        const config: VideoEncoderConfig = {
+            codec,
+            width: options.width,
+            height: options.height,
+            bitrate,
+            framerate: options.fps
+        };
+        const support = await VideoEncoder.isConfigSupported(config);
+        if (support.supported) return { config, codecId };
+    }
+    throw new Error(`This browser cannot encode ${options.width}×${options.height} WebM video`);
+}
+
+function waitForQueue(encoder: VideoEncoder): Promise<void> {
+    return new Promise(resolve => {
+        const check = () => {
+            if (encoder.encodeQueueSize <= MAX_QUEUED_FRAMES || encoder.state !== 'configured') {
+                resolve();
+            } else {
+                setTimeout(check, 10);
+            }
+        };
+        check();
+    });
+}
+
+/**
+ * Start a WebM encode. Throws if WebCodecs is unavailable or no VP8/VP9 encoder accepts the size.
+ */
+export async function createWebmEncoder(options: WebmEncoderOptions): Promise<WebmEncoder> {
+    if (!isWebmExportSupported()) {
+        throw new Error('WebM export needs WebCodecs, which this browser does not support');
+    }
+
+    // Roughly 0.2 bits per pixel per frame, enough for the smooth gradients stretching produces
+    const bitrate = Math.round(Math.max(500_000, options.width * options.height * options.fps * 0.2));
+    const { config, codecId } = await pickCodec(options, bitrate);
+
+    const chunks: EncodedChunk[] = [];
+    let encodeError: Error | null = null;
+    const encoder = new VideoEncoder({
+        output: (chunk) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            chunks.push({ data, timestampMs: Math.round(chunk.timestamp / 1000), isKey: chunk.type === 'key' });
+        },
+        error: (error) => {
+            console.error('Video encoder error:', error);
+            encodeError = error;
+        }
+    });
+    encoder.configure(config);
+
+    const frameDurationUs = 1_000_000 / options.fps;
+    const keyframeInterval = Math.max(1, Math.floor((KEYFRAME_INTERVAL_MS / 1000) * options.fps));
+    let frameCount = 0;
+
+    return {
+        async addFrame(image) {
+            if (encodeError) throw encodeError;
+
+            const frame = new VideoFrame(image.data, {
+                format: 'RGBA',
+                codedWidth: image.width,
+                codedHeight: image.height,
+                timestamp: Math.round(frameCount * frameDurationUs),
+                duration: Math.round(frameDurationUs)
+            });
+            encoder.encode(frame, { keyFrame: frameCount % keyframeInterval === 0 });
+            frame.close();
+            frameCount++;
+
+            await waitForQueue(encoder);
+        },
+
+        async finish() {
+            await encoder.flush();
+            encoder.close();
+            if (encodeError) throw encodeError;
+
+            chunks.sort((a, b) => a.timestampMs - b.timestampMs);
+            return muxWebm(chunks, options, codecId);
+        },
+
+        close() {
+            if (encoder.state !== 'closed') encoder.close();
+        }
+    };
+}
@@ -0,0 +1,120 @@
+import { crc32 } from './crc32';
+
+/**
+ * Minimal ZIP writer for downloading several files at once. Entries are stored without
+ * compression (the images going in are compressed already) under UTF-8 names. There is no
+ * ZIP64 support, so an archive holds at most 65535 entries and 4 GB.
+ */
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+    /** Defaults to the time the archive is created */
+    modified?: Date;
+}
+
+/**
+ * Thrown for archives this writer can't represent
+ */
+export class ZipError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ZipError';
+    }
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+// Version 2.0, needed for the UTF-8 flag and directory-free archives
+const ZIP_VERSION = 20;
+// General purpose flag bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+// MS-DOS date and time, as ZIP stores them (two-second resolution, years from 1980)
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+/**
+ * Build a ZIP archive in memory
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+    if (entries.length > MAX_ENTRIES) {
+        throw new ZipError(`A ZIP file can hold at most ${MAX_ENTRIES} files`);
+    }
+
+    const encoder = new TextEncoder();
+    const now = new Date();
+    const records = entries.map(entry => ({
+        name: encoder.encode(entry.name),
+        data: entry.data,
+        crc: crc32(entry.data),
+        ...toDosDateTime(entry.modified ?? now)
+    }));
+
+    const dataSize = records.reduce((sum, record) => sum + LOCAL_HEADER_SIZE + record.name.length + record.data.length, 0);
+    const directorySize = records.reduce((sum, record) => sum + CENTRAL_HEADER_SIZE + record.name.length, 0);
+    if (dataSize + directorySize > MAX_OFFSET) {
+        throw new ZipError('The files are too large for one ZIP file (4 GB)');
+    }
+
+    const bytes = new Uint8Array(dataSize + directorySize + END_RECORD_SIZE);
+    const view = new DataView(bytes.buffer);
+    const offsets: number[] = [];
+    let offset = 0;
+
+    // Local file header followed by the data, for each entry
+    for (const record of records) {
+        offsets.push(offset);
+        view.setUint32(offset, 0x04034b50, true);
+        view.setUint16(offset + 4, ZIP_VERSION, true);
+        view.setUint16(offset + 6, UTF8_FLAG, true);
+        view.setUint16(offset + 8, 0, true); // stored
+        view.setUint16(offset + 10, record.time, true);
+        view.setUint16(offset + 12, record.date, true);
+        view.setUint32(offset + 14, record.crc, true);
+        view.setUint32(offset + 18, record.data.length, true);
+        view.setUint32(offset + 22, record.data.length, true);
+        view.setUint16(offset + 26, record.name.length, true);
+        view.setUint16(offset + 28, 0, true);
+        bytes.set(record.name, offset + LOCAL_HEADER_SIZE);
+        bytes.set(record.data, offset + LOCAL_HEADER_SIZE + record.name.length);
+        offset += LOCAL_HEADER_SIZE + record.name.length + record.data.length;
+    }
+
+    // Central directory
+    const directoryOffset = offset;
+    records.forEach((record, index) => {
+        view.setUint32(offset, 0x02014b50, true);
+        view.setUint16(offset + 4, ZIP_VERSION, true);
+        view.setUint16(offset + 6, ZIP_VERSION, true);
+        view.setUint16(offset + 8, UTF8_FLAG, true);
+        view.setUint16(offset + 10, 0, true);
+        view.setUint16(offset + 12, record.time, true);
+        view.setUint16(offset + 14, record.date, true);
+        view.setUint32(offset + 16, record.crc, true);
+        view.setUint32(offset + 20, record.data.length, true);
+        view.setUint32(offset + 24, record.data.length, true);
+        view.setUint16(offset + 28, record.name.length, true);
+        // Extra field, comment, disk number, internal and external attributes stay zero
+        view.setUint32(offset + 42, offsets[index], true);
+        bytes.set(record.name, offset + CENTRAL_HEADER_SIZE);
+        offset += CENTRAL_HEADER_SIZE + record.name.length;
+    });
+
+    // End of central directory record
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 8, records.length, true);
+    view.setUint16(offset + 10, records.length, true);
+    view.setUint32(offset + 12, offset - directoryOffset, true);
+    view.setUint32(offset + 16, directoryOffset, true);
+
+    return bytes;
+}
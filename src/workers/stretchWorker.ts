@@ -0,0 +1,58 @@
+import { stretchImage, type RawImageData, type StretchParams } from '../utils/imageStretching';
+
+export interface StretchJobRequest {
+    jobId: number;
+    buffer: ArrayBuffer;
+    width: number;
+    height: number;
+    params: StretchParams;
+}
+
+export type StretchWorkerMessage =
+    | { type: 'progress'; jobId: number; progress: number }
+    | { type: 'result'; jobId: number; buffer: ArrayBuffer; width: number; height: number }
+    | { type: 'error'; jobId: number; message: string };
+
+/**
+ * Dedicated worker running the stretch pipeline off the main thread.
+ * The source pixels arrive as a transferred buffer and the result is transferred back.
+ */
+self.onmessage = (event: MessageEvent<StretchJobRequest>) => {
+    const { jobId, buffer, width, height, params } = event.data;
+
+    try {
+        const imageData: RawImageData = { data: new Uint8ClampedArray(buffer), width, height };
+
+        // Only post when the whole percentage changes to avoid flooding the main thread
+        let lastProgress = -1;
+        const result = stretchImage(imageData, params, (processedRows, totalRows) => {
+            const progress = totalRows > 0 ? Math.floor((processedRows / totalRows) * 100) : 100;
+            if (progress !== lastProgress) {
+                lastProgress = progress;
+                const message: StretchWorkerMessage = { type: 'progress', jobId, progress };
+                self.postMessage(message);
+            }
+        });
+
+        // The result may share its buffer with a larger allocation, so copy to an exact-size one before transfer
+        const resultBuffer = result.data.byteLength === result.data.buffer.byteLength
+            ? result.data.buffer as ArrayBuffer
+            : result.data.slice().buffer;
+
+        const message: StretchWorkerMessage = {
+            type: 'result',
+            jobId,
+            buffer: resultBuffer,
+            width: result.width,
+            height: result.height
+        };
+        self.postMessage(message, { transfer: [resultBuffer] });
+    } catch (error) {
+        const message: StretchWorkerMessage = {
+            type: 'error',
+            jobId,
+            message: error instanceof Error ? error.message : String(error)
+        };
+        self.postMessage(message);
+    }
+};
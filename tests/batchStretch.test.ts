@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getBatchStack, getUniqueFileName, mergeBatchOverrides } from '../src/utils/batchStretch';
+import { DEFAULT_STRETCH_SETTINGS } from '../src/utils/stretchSettings';
+import { createStack, getSelectedStep } from '../src/utils/stretchStack';
+
+describe('getBatchStack', () => {
+    const base = createStack({ ...DEFAULT_STRETCH_SETTINGS, direction: 'right', startingPixel: 50 });
+
+    it('keeps the start at the same relative position in a differently sized image', () => {
+        const stack = getBatchStack(base, 101, 80, {}, 201, 40);
+        expect(getSelectedStep(stack).settings.startingPixel).toBe(100);
+    });
+
+    it('applies per-image overrides to the selected layer', () => {
+        const settings = getSelectedStep(getBatchStack(base, 101, 80, { direction: 'down', relativeStart: 0.25, stretchRate: 5 }, 201, 41)).settings;
+        expect(settings.direction).toBe('down');
+        expect(settings.startingPixel).toBe(10);
+        expect(settings.stretchRate).toBe(5);
+    });
+
+    it('keeps the relative start when only the direction is overridden', () => {
+        const settings = getSelectedStep(getBatchStack(base, 101, 80, { direction: 'up' }, 101, 81)).settings;
+        expect(settings.startingPixel).toBe(40);
+    });
+});
+
+describe('mergeBatchOverrides', () => {
+    it('sets and clears overrides without leaving undefined keys', () => {
+        const overrides = mergeBatchOverrides({ direction: 'left' }, { stretchRate: 4 });
+        expect(overrides).toEqual({ direction: 'left', stretchRate: 4 });
+
+        const cleared = mergeBatchOverrides(mergeBatchOverrides(overrides, { direction: undefined }), { stretchRate: undefined });
+        expect(Object.keys(cleared)).toEqual([]);
+    });
+});
+
+describe('getUniqueFileName', () => {
+    it('numbers repeated names regardless of case', () => {
+        const used = new Set<string>();
+        expect(getUniqueFileName('photo.png', used)).toBe('photo.png');
+        expect(getUniqueFileName('Photo.png', used)).toBe('Photo (2).png');
+        expect(getUniqueFileName('photo.png', used)).toBe('photo (3).png');
+        expect(getUniqueFileName('README', used)).toBe('README');
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { formatFileSize, getImageFormat, readColorProfileName, readExifOrientation, readIccDescription } from '../src/utils/imageMetadata';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const uint16 = (value: number) => [value >> 8, value & 0xff];
+const uint32 = (value: number) => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+// JPEG with the given segments (marker, data) before the start of scan
+function jpeg(...segments: [number, number[]][]): Uint8Array {
+    const bytes = [0xff, 0xd8];
+    for (const [marker, data] of segments) {
+        bytes.push(0xff, marker, ...uint16(data.length + 2), ...data);
+    }
+    bytes.push(0xff, 0xda, 0, 2, 0xff, 0xd9);
+    return Uint8Array.from(bytes);
+}
+
+function exif(orientation: number, littleEndian: boolean): number[] {
+    const u16 = (value: number) => (littleEndian ? [value & 0xff, value >> 8] : uint16(value));
+    const u32 = (value: number) => (littleEndian ? uint32(value).reverse() : uint32(value));
+    return [
+        ...ascii('Exif\0\0'),
+        ...ascii(littleEndian ? 'II' : 'MM'), ...u16(42), ...u32(8),
+        // IFD0 with an ImageWidth entry before Orientation
+        ...u16(2),
+        ...u16(0x0100), ...u16(4), ...u32(1), ...u32(640),
+        ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+        ...u32(0)
+    ];
+}
+
+// ICC profile holding only a 'desc' tag of the v2 text type
+function iccProfile(description: string): number[] {
+    const text = [...ascii(description), 0];
+    const tag = [...ascii('desc'), 0, 0, 0, 0, ...uint32(text.length), ...text];
+    const header = new Array(128).fill(0);
+    return [...header, ...uint32(1), ...ascii('desc'), ...uint32(144), ...uint32(tag.length), ...tag];
+}
+
+describe('readExifOrientation', () => {
+    it('reads the orientation tag in either byte order', () => {
+        expect(readExifOrientation(jpeg([0xe1, exif(6, false)]))).toBe(6);
+        expect(readExifOrientation(jpeg([0xe0, ascii('JFIF\0')], [0xe1, exif(8, true)]))).toBe(8);
+    });
+
+    it('defaults to 1 without EXIF data or for other formats', () => {
+        expect(readExifOrientation(jpeg([0xe0, ascii('JFIF\0')]))).toBe(1);
+        expect(readExifOrientation(Uint8Array.from([137, 80, 78, 71]))).toBe(1);
+    });
+});
+
+describe('readColorProfileName', () => {
+    it('reads the description of an ICC profile split over JPEG segments', () => {
+        const profile = iccProfile('Display P3');
+        const marker = ascii('ICC_PROFILE\0');
+        const bytes = jpeg(
+            [0xe2, [...marker, 2, 2, ...profile.slice(100)]],
+            [0xe2, [...marker, 1, 2, ...profile.slice(0, 100)]]
+        );
+        expect(readColorProfileName(bytes)).toBe('Display P3');
+        expect(readIccDescription(Uint8Array.from(profile))).toBe('Display P3');
+    });
+
+    it('reads the profile name of a PNG iCCP chunk', () => {
+        const chunk = (type: string, data: number[]) => [...uint32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+        const png = Uint8Array.from([
+            137, 80, 78, 71, 13, 10, 26, 10,
+            ...chunk('IHDR', new Array(13).fill(0)),
+            ...chunk('iCCP', [...ascii('Display P3'), 0, 0, 1, 2, 3]),
+            ...chunk('IEND', [])
+        ]);
+        expect(readColorProfileName(png)).toBe('Display P3');
+    });
+
+    it('cuts overlong names instead of failing on them', () => {
+        const longName = 'A'.repeat(500_000);
+        expect(readIccDescription(Uint8Array.from(iccProfile(longName)))).toBe('A'.repeat(256));
+
+        // A malformed iCCP chunk without the NUL after the name
+        const png = new Uint8Array(8 + 12 + longName.length);
+        png.set([137, 80, 78, 71, 13, 10, 26, 10, ...uint32(longName.length), ...ascii('iCCP')]);
+        png.fill(65, 16, 16 + longName.length);
+        expect(readColorProfileName(png)).toBe('A'.repeat(79));
+    });
+
+    it('returns null without a profile', () => {
+        expect(readColorProfileName(jpeg([0xe0, ascii('JFIF\0')]))).toBeNull();
+    });
+});
+
+describe('file details', () => {
+    it('names the format from the type or extension', () => {
+        expect(getImageFormat({ name: 'a.png', type: 'image/png' })).toBe('PNG');
+        expect(getImageFormat({ name: 'photo.JPG', type: '' })).toBe('JPEG');
+        expect(getImageFormat({ name: 'scan.heic', type: 'image/heic' })).toBe('HEIC');
+    });
+
+    it('formats file sizes', () => {
+        expect(formatFileSize(512)).toBe('512 B');
+        expect(formatFileSize(20_480)).toBe('20 KB');
+        expect(formatFileSize(3.5 * 1024 * 1024)).toBe('3.5 MB');
+    });
+});
@@ -0,0 +1,477 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodePng, encodePng } from '../cli/png';
+import {
+    buildNewImage,
+    createIndexList,
+    getStretchView,
+    resolveStartingPixel,
+    STRETCH_DIRECTIONS,
+    stretchImage,
+    stretchIntoView,
+    type GradientOptions,
+    type RawImageData,
+    type StretchDirection,
+    type StretchView
+} from '../src/utils/imageStretching';
+import { MAX_OUTPUT_LENGTH } from '../src/utils/outputSize';
+
+const GOLDEN_DIR = fileURLToPath(new URL('./golden/', import.meta.url));
+
+// Written by tests/reference/stretch.py, never by UPDATE_GOLDEN
+const REFERENCE_DIR = fileURLToPath(new URL('./golden/python/', import.meta.url));
+
+// Regenerate with `UPDATE_GOLDEN=1 npm test` after an intended change to the output
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const RATES = Array.from({ length: 13 }, (_, i) => i + 1);
+
+const LINEAR: GradientOptions = { interpolation: 'linear', premultiplyAlpha: true };
+
+/**
+ * Deterministic non-square test card: every pixel differs from its neighbours in each
+ * channel, so a misplaced row or column always shows up
+ */
+function createTestImage(width: number, height: number, alpha: (x: number, y: number) => number = () => 255): RawImageData {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = (y * width + x) * 4;
+            data[index] = (x * 37 + y * 11) % 256;
+            data[index + 1] = (x * 5 + y * 29) % 256;
+            data[index + 2] = (x * y * 7 + 13) % 256;
+            data[index + 3] = alpha(x, y);
+        }
+    }
+    return { data, width, height };
+}
+
+function getRow(image: RawImageData, row: number): number[] {
+    return Array.from(image.data.subarray(row * image.width * 4, (row + 1) * image.width * 4));
+}
+
+function getRows(image: RawImageData): number[][] {
+    return Array.from({ length: image.height }, (_, row) => getRow(image, row));
+}
+
+function getPixel(image: RawImageData, x: number, y: number): number[] {
+    const index = (y * image.width + x) * 4;
+    return Array.from(image.data.subarray(index, index + 4));
+}
+
+// Pixel at a row and column of a stretch view
+function readView(image: RawImageData, view: StretchView, row: number, column: number): number[] {
+    const index = view.origin + row * view.rowStride + column * view.columnStride;
+    return Array.from(image.data.subarray(index, index + 4));
+}
+
+// Image from rows of RGBA values
+function createImage(rows: number[][]): RawImageData {
+    return { data: new Uint8ClampedArray(rows.flat()), width: rows[0].length / 4, height: rows.length };
+}
+
+function cropImage(image: RawImageData, x: number, y: number, width: number, height: number): RawImageData {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let row = 0; row < height; row++) {
+        const from = ((y + row) * image.width + x) * 4;
+        data.set(image.data.subarray(from, from + width * 4), row * width * 4);
+    }
+    return { data, width, height };
+}
+
+/**
+ * Stretch an image downward into a new buffer `rows` tall
+ */
+function stretchDown(image: RawImageData, indexList: number[], startingPixel: number, rows: number, options: GradientOptions = LINEAR) {
+    const data = new Uint8ClampedArray(rows * image.width * 4);
+    const stretchedRows = stretchIntoView(
+        image.data, getStretchView(image.width, image.height, 'down'),
+        data, getStretchView(image.width, rows, 'down'),
+        indexList, startingPixel, options
+    );
+    return { stretched: { data, width: image.width, height: rows }, stretchedRows };
+}
+
+/**
+ * Compare pixel for pixel, reporting the first differing pixel rather than dumping whole buffers
+ */
+function expectSameImage(image: RawImageData, golden: RawImageData, name: string): void {
+    expect({ width: image.width, height: image.height }, `${name} size`).toEqual({ width: golden.width, height: golden.height });
+
+    let differing = 0;
+    let first: string | null = null;
+    for (let i = 0; i < golden.data.length; i += 4) {
+        for (let c = 0; c < 4; c++) {
+            if (image.data[i + c] !== golden.data[i + c]) {
+                differing++;
+                if (first === null) {
+                    const pixel = i / 4;
+                    first = `(${pixel % golden.width}, ${Math.floor(pixel / golden.width)}): got ${getPixel(image, pixel % golden.width, Math.floor(pixel / golden.width))}, expected ${getPixel(golden, pixel % golden.width, Math.floor(pixel / golden.width))}`;
+                }
+                break;
+            }
+        }
+    }
+    expect(first, `${name}: ${differing} pixels differ`).toBeNull();
+}
+
+/**
+ * Compare against tests/golden/<name>.png, writing the file instead when updating
+ */
+function expectMatchesGolden(image: RawImageData, name: string): void {
+    const path = `${GOLDEN_DIR}${name}.png`;
+    if (UPDATE_GOLDEN) {
+        writeFileSync(path, encodePng(image));
+        return;
+    }
+    if (!existsSync(path)) {
+        throw new Error(`Missing golden image ${name}.png; run UPDATE_GOLDEN=1 npm test to create it`);
+    }
+    expectSameImage(image, decodePng(readFileSync(path)), name);
+}
+
+/**
+ * Compare against tests/golden/python/<name>.png, rendered by the rotation-based Python model
+ */
+function expectMatchesReference(image: RawImageData, name: string): void {
+    const path = `${REFERENCE_DIR}${name}.png`;
+    if (!existsSync(path)) {
+        throw new Error(`Missing reference image python/${name}.png; run python3 tests/reference/stretch.py to create it`);
+    }
+    expectSameImage(image, decodePng(readFileSync(path)), `python/${name}`);
+}
+
+beforeEach(() => {
+    // The pipeline logs every step; keep the test output readable
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('createIndexList', () => {
+    it('starts with the Fibonacci table at rate 13', () => {
+        const indexList = createIndexList(13);
+        expect(indexList.slice(0, 13)).toEqual(new Array(13).fill(1));
+        expect(indexList.slice(13, 21)).toEqual(new Array(8).fill(2));
+        expect(indexList.slice(21, 26)).toEqual(new Array(5).fill(3));
+        expect(indexList.slice(26, 29)).toEqual([5, 5, 5]);
+    });
+
+    it('stretches longer at lower rates', () => {
+        expect(createIndexList(1).slice(0, 52)).toEqual(new Array(52).fill(1));
+        expect(createIndexList(1)[52]).toBe(2);
+        for (const rate of RATES.slice(1)) {
+            expect(createIndexList(rate).length, `rate ${rate}`).toBeLessThanOrEqual(createIndexList(rate - 1).length);
+        }
+    });
+
+    it('never shrinks a gap along the list', () => {
+        for (const rate of RATES) {
+            const indexList = createIndexList(rate);
+            expect(indexList.length, `rate ${rate}`).toBeGreaterThan(0);
+            expect(indexList.every((gap, i) => i === 0 || gap >= indexList[i - 1]), `rate ${rate}`).toBe(true);
+        }
+    });
+});
+
+describe('stretchIntoView', () => {
+    const start = [0, 100, 200, 255];
+    const end = [90, 40, 200, 255];
+
+    it('keeps both rows and fills the gap with a linear ramp', () => {
+        const { stretched, stretchedRows } = stretchDown(createImage([start, end]), [2], 0, 4);
+        expect(stretchedRows).toBe(4);
+        expect(getRows(stretched)).toEqual([
+            [0, 100, 200, 255],
+            [30, 80, 200, 255],
+            [60, 60, 200, 255],
+            [90, 40, 200, 255]
+        ]);
+    });
+
+    it('writes just the two rows for a zero gap', () => {
+        const { stretched } = stretchDown(createImage([start, end]), [0], 0, 2);
+        expect(getRows(stretched)).toEqual([start, end]);
+    });
+
+    it('does not bleed the colour of transparent pixels with premultiplied alpha', () => {
+        const image = createImage([[0, 0, 0, 0], [200, 100, 50, 255]]);
+
+        const { stretched: premultiplied } = stretchDown(image, [3], 0, 5);
+        for (const row of getRows(premultiplied).slice(1, 4)) {
+            expect(row.slice(0, 3)).toEqual([200, 100, 50]);
+        }
+
+        const { stretched: straight } = stretchDown(image, [3], 0, 5, { ...LINEAR, premultiplyAlpha: false });
+        expect(getRow(straight, 2)).toEqual([100, 50, 25, 128]);
+    });
+
+    it('interpolates every column independently', () => {
+        const image = createImage([[0, 0, 0, 255, 100, 100, 100, 255], [100, 100, 100, 255, 0, 0, 0, 255]]);
+        const { stretched } = stretchDown(image, [1], 0, 3);
+        expect(getRow(stretched, 1)).toEqual([50, 50, 50, 255, 50, 50, 50, 255]);
+    });
+
+    it('stops at the target\'s rows', () => {
+        const image = createTestImage(3, 5);
+        const { stretched, stretchedRows } = stretchDown(image, [1, 2], 1, 4);
+        expect(stretchedRows).toBe(4);
+        expect(getRow(stretched, 3)).toEqual(getRow(image, 2));
+    });
+
+    it('pads a longer target by repeating the last stretched row', () => {
+        const image = createTestImage(3, 5);
+        const { stretched, stretchedRows } = stretchDown(image, [1, 2], 1, 10);
+        expect(stretchedRows).toBe(1 + 2 + 3 + 1);
+        for (let row = 6; row < 10; row++) {
+            expect(getRow(stretched, row), `row ${row}`).toEqual(getRow(image, 3));
+        }
+    });
+
+    it('writes into a rotated target view', () => {
+        // A one-pixel-wide column stretched into a row, left to right
+        const target = new Uint8ClampedArray(4 * 4);
+        const stretchedRows = stretchIntoView(
+            new Uint8ClampedArray([...start, ...end]), getStretchView(1, 2, 'down'),
+            target, getStretchView(4, 1, 'right'),
+            [2], 0, LINEAR
+        );
+        expect(stretchedRows).toBe(4);
+        expect(Array.from(target)).toEqual([0, 100, 200, 255, 30, 80, 200, 255, 60, 60, 200, 255, 90, 40, 200, 255]);
+    });
+});
+
+describe('buildNewImage', () => {
+    it('copies the rows before the start and inserts gap rows after each source row', () => {
+        const image = createTestImage(3, 5);
+        const stretched = buildNewImage([1, 2], image, 1, LINEAR);
+
+        // Row 0, then rows 1 and 2 followed by 1 and 2 gap rows, then row 3 closes the ramp
+        expect(stretched.width).toBe(3);
+        expect(stretched.height).toBe(1 + 2 + 3 + 1);
+        expect(getRow(stretched, 0)).toEqual(getRow(image, 0));
+        expect(getRow(stretched, 1)).toEqual(getRow(image, 1));
+        expect(getRow(stretched, 3)).toEqual(getRow(image, 2));
+        expect(getRow(stretched, 6)).toEqual(getRow(image, 3));
+    });
+
+    it('uses at most one index list entry per source row', () => {
+        const image = createTestImage(2, 4);
+        const stretched = buildNewImage(new Array(10).fill(1), image, 0, LINEAR);
+        expect(stretched.height).toBe(3 * 2 + 1);
+        expect(getRow(stretched, 6)).toEqual(getRow(image, 3));
+    });
+
+    it('leaves the image unchanged from the last row or with an all-zero profile', () => {
+        const image = createTestImage(4, 6);
+        expect(buildNewImage([3, 3], image, 5, LINEAR)).toEqual(image);
+        expect(buildNewImage(new Array(5).fill(0), image, 0, LINEAR)).toEqual(image);
+    });
+
+    it('reports progress once per source row', () => {
+        const onProgress = vi.fn();
+        buildNewImage([1, 1, 1], createTestImage(2, 8), 2, LINEAR, onProgress);
+        expect(onProgress.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+    });
+});
+
+describe('getStretchView', () => {
+    const image = createTestImage(5, 3);
+
+    it('reads each direction as if rotated so the stretch runs downward', () => {
+        // Image x and y of each view row and column
+        const expected: { [direction in StretchDirection]: (row: number, column: number) => [number, number] } = {
+            down: (row, column) => [column, row],
+            // Rotated 180°: bottom row first, right to left
+            up: (row, column) => [4 - column, 2 - row],
+            // Rotated 90° clockwise: left column first, bottom to top
+            right: (row, column) => [row, 2 - column],
+            // Rotated 90° counterclockwise: right column first, top to bottom
+            left: (row, column) => [4 - row, column]
+        };
+
+        for (const direction of STRETCH_DIRECTIONS) {
+            const view = getStretchView(image.width, image.height, direction);
+            const horizontal = direction === 'left' || direction === 'right';
+            expect({ rows: view.rows, columns: view.columns }, direction).toEqual(horizontal ? { rows: 5, columns: 3 } : { rows: 3, columns: 5 });
+            for (let row = 0; row < view.rows; row++) {
+                for (let column = 0; column < view.columns; column++) {
+                    expect(readView(image, view, row, column), `${direction} row ${row}, column ${column}`)
+                        .toEqual(getPixel(image, ...expected[direction](row, column)));
+                }
+            }
+        }
+    });
+
+    it('addresses every pixel exactly once', () => {
+        for (const [width, height] of [[5, 3], [1, 1]]) {
+            for (const direction of STRETCH_DIRECTIONS) {
+                const view = getStretchView(width, height, direction);
+                const offsets = new Set<number>();
+                for (let row = 0; row < view.rows; row++) {
+                    for (let column = 0; column < view.columns; column++) {
+                        offsets.add(view.origin + row * view.rowStride + column * view.columnStride);
+                    }
+                }
+                const expectedOffsets = Array.from({ length: width * height }, (_, i) => i * 4);
+                expect([...offsets].sort((a, b) => a - b), `${direction} ${width}x${height}`).toEqual(expectedOffsets);
+            }
+        }
+    });
+});
+
+describe('stretchImage', () => {
+    // Non-square so a swapped width and height can't go unnoticed, and long enough (53+
+    // rows past the start) to reach the end of the first run of gaps at every rate
+    const image = createTestImage(56, 60);
+
+    // Start row or column as seen on screen
+    const stretchFrom = (source: RawImageData, position: number, direction: StretchDirection, stretchRate = 13) =>
+        stretchImage(source, { stretchRate, startingPixel: resolveStartingPixel(position, direction, source.width), direction });
+
+    describe.each(STRETCH_DIRECTIONS)('%s', (direction: StretchDirection) => {
+        it.each(RATES)('matches the golden image at rate %i', (rate) => {
+            // Start near the edge the stretch moves away from and keep the full length: the
+            // rates only differ further along the streak
+            const position = { down: 3, up: 56, right: 3, left: 52 }[direction];
+            const stretched = stretchImage(image, {
+                stretchRate: rate,
+                startingPixel: resolveStartingPixel(position, direction, image.width),
+                direction,
+                outputSize: { mode: 'full' }
+            });
+            expectMatchesGolden(stretched, `${direction}-rate${rate}`);
+        });
+
+        // Same test card, starts and rates as the CASES in tests/reference/stretch.py
+        it.each([1, 10, 13])('matches the rotation-based model at the original size at rate %i', (rate) => {
+            const position = { down: 8, up: 51, right: 8, left: 47 }[direction];
+            expectMatchesReference(stretchFrom(image, position, direction, rate), `${direction}-original-rate${rate}`);
+        });
+
+        it('matches the rotation-based model at full length', () => {
+            const position = { down: 3, up: 56, right: 3, left: 52 }[direction];
+            const stretched = stretchImage(image, {
+                stretchRate: 13,
+                startingPixel: resolveStartingPixel(position, direction, image.width),
+                direction,
+                outputSize: { mode: 'full' }
+            });
+            expectMatchesReference(stretched, `${direction}-full-rate13`);
+        });
+
+        it('keeps the original size by default', () => {
+            const stretched = stretchImage(image, { stretchRate: 13, startingPixel: 3, direction });
+            expect({ width: stretched.width, height: stretched.height }).toEqual({ width: 56, height: 60 });
+        });
+
+        it('leaves the image unchanged from the far edge', () => {
+            const farEdge = { down: 59, up: 0, right: 55, left: 0 }[direction];
+            expect(stretchFrom(image, farEdge, direction)).toEqual(image);
+        });
+
+        it('leaves a single pixel unchanged', () => {
+            const pixel = createTestImage(1, 1);
+            expect(stretchFrom(pixel, 0, direction)).toEqual(pixel);
+        });
+    });
+
+    it('stretches the rows past the start in the stretch direction', () => {
+        const down = stretchFrom(image, 0, 'down');
+        expect(getRow(down, 0)).toEqual(getRow(image, 0));
+        expect(getRow(down, 2)).toEqual(getRow(image, 1));
+
+        const up = stretchFrom(image, 59, 'up');
+        expect(getRow(up, 59)).toEqual(getRow(image, 59));
+        expect(getRow(up, 57)).toEqual(getRow(image, 58));
+
+        const right = stretchFrom(image, 0, 'right');
+        const left = stretchFrom(image, 55, 'left');
+        for (let y = 0; y < image.height; y++) {
+            expect(getPixel(right, 2, y)).toEqual(getPixel(image, 1, y));
+            expect(getPixel(left, 53, y)).toEqual(getPixel(image, 54, y));
+        }
+    });
+
+    it('copies the rows before the start unchanged', () => {
+        const stretched = stretchFrom(image, 10, 'down');
+        for (let row = 0; row <= 10; row++) {
+            expect(getRow(stretched, row), `row ${row}`).toEqual(getRow(image, row));
+        }
+    });
+
+    it('crops to the original size on the side the stretch starts from', () => {
+        for (const direction of STRETCH_DIRECTIONS) {
+            const position = { down: 20, up: 40, right: 20, left: 36 }[direction];
+            const params = { stretchRate: 13, startingPixel: resolveStartingPixel(position, direction, image.width), direction };
+            const full = stretchImage(image, { ...params, outputSize: { mode: 'full' } });
+            const cropped = stretchImage(image, params);
+
+            const [x, y] = {
+                down: [0, 0],
+                up: [0, full.height - image.height],
+                right: [0, 0],
+                left: [full.width - image.width, 0]
+            }[direction];
+            expect(cropped, direction).toEqual(cropImage(full, x, y, image.width, image.height));
+        }
+    });
+
+    it('pads by repeating the last stretched row when the profile runs out before the edge', () => {
+        const stretched = stretchImage(image, { stretchRate: 13, startingPixel: 0, direction: 'down', profile: { type: 'custom', gaps: [1] } });
+        // Row 0, one gap row, then row 1 repeated to the bottom
+        expect(stretched.height).toBe(60);
+        for (let row = 2; row < 60; row++) {
+            expect(getRow(stretched, row), `row ${row}`).toEqual(getRow(image, 1));
+        }
+    });
+
+    it('cuts the full stretched length off at the output size limit', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const stretched = stretchImage(image, {
+            stretchRate: 13,
+            startingPixel: 0,
+            direction: 'down',
+            profile: { type: 'custom', gaps: new Array(8).fill(4096) },
+            outputSize: { mode: 'full' }
+        });
+        expect({ width: stretched.width, height: stretched.height }).toEqual({ width: 56, height: MAX_OUTPUT_LENGTH });
+        expect(warn).toHaveBeenCalledOnce();
+    });
+
+    it('fits a fixed output length so the streak ends on the last source row', () => {
+        for (const direction of STRETCH_DIRECTIONS) {
+            const horizontal = direction === 'left' || direction === 'right';
+            // 19 rows or columns from the far edge, fewer than the profile has gaps for
+            const position = { down: 40, up: 19, right: 36, left: 19 }[direction];
+            const stretched = stretchImage(image, {
+                stretchRate: 13,
+                startingPixel: resolveStartingPixel(position, direction, image.width),
+                direction,
+                outputSize: { mode: 'length', length: 150 }
+            });
+            expect({ width: stretched.width, height: stretched.height }, direction).toEqual(horizontal ? { width: 150, height: 60 } : { width: 56, height: 150 });
+
+            // The edge the stretch runs into ends on the image's own edge, not a gap row
+            const [edge, imageEdge] = {
+                down: [getRow(stretched, 149), getRow(image, 59)],
+                up: [getRow(stretched, 0), getRow(image, 0)],
+                right: [getPixel(stretched, 149, 30), getPixel(image, 55, 30)],
+                left: [getPixel(stretched, 0, 30), getPixel(image, 0, 30)]
+            }[direction];
+            expect(edge, direction).toEqual(imageEdge);
+        }
+    });
+
+    it('matches the golden image with transparent areas', () => {
+        const transparent = createTestImage(14, 22, (x, y) => ((x + y) % 3 === 0 ? 0 : 255));
+        expectMatchesGolden(stretchImage(transparent, { stretchRate: 7, startingPixel: 0, direction: 'down', outputSize: { mode: 'full' } }), 'alpha-down-rate7');
+    });
+
+    it.each([30, 200])('matches the golden image at %i°', (angle) => {
+        expectMatchesGolden(stretchImage(image, { stretchRate: 10, startingPixel: 20, direction: 'down', angle }), `angle${angle}-rate10`);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { decodeColor, encodeColor, type PixelColorSpace } from '../src/utils/interpolation';
+
+const COLORS = [[0, 0, 0], [255, 255, 255], [255, 0, 0], [0, 255, 0], [0, 0, 255], [200, 120, 30], [12, 240, 180]];
+
+function toOklab(rgb: number[], pixelColorSpace: PixelColorSpace): number[] {
+    const lab = new Float32Array(3);
+    encodeColor('oklab', rgb[0], rgb[1], rgb[2], lab, 0, pixelColorSpace);
+    return Array.from(lab);
+}
+
+function fromOklab(lab: number[], pixelColorSpace: PixelColorSpace): number[] {
+    const rgb = new Uint8ClampedArray(3);
+    decodeColor('oklab', lab[0], lab[1], lab[2], rgb, 0, pixelColorSpace);
+    return Array.from(rgb);
+}
+
+describe('OKLab conversion', () => {
+    it.each(['srgb', 'display-p3'] as const)('round-trips %s bytes', (pixelColorSpace) => {
+        for (const color of COLORS) {
+            expect(fromOklab(toOklab(color, pixelColorSpace), pixelColorSpace), `${color}`).toEqual(color);
+        }
+    });
+
+    it('keeps greys neutral in Display P3', () => {
+        for (const grey of [0, 64, 128, 255]) {
+            const [, a, b] = toOklab([grey, grey, grey], 'display-p3');
+            expect(Math.abs(a), `${grey}`).toBeLessThan(1e-4);
+            expect(Math.abs(b), `${grey}`).toBeLessThan(1e-4);
+        }
+    });
+
+    it('reads Display P3 red as more saturated than sRGB red', () => {
+        const chroma = ([, a, b]: number[]) => Math.hypot(a, b);
+        const p3Red = toOklab([255, 0, 0], 'display-p3');
+        const srgbRed = toOklab([255, 0, 0], 'srgb');
+        expect(chroma(p3Red)).toBeGreaterThan(chroma(srgbRed));
+
+        // sRGB red lies inside P3, so it converts to a less than full P3 red
+        const inP3 = fromOklab(srgbRed, 'display-p3');
+        expect(inP3[0]).toBeLessThan(255);
+        expect(inP3[1]).toBeGreaterThan(0);
+    });
+});
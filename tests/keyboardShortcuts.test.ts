@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getShortcutAction } from '../src/utils/keyboardShortcuts';
+
+const press = (key: string, modifiers: { shiftKey?: boolean; altKey?: boolean; ctrlKey?: boolean; metaKey?: boolean } = {}) => ({
+    key,
+    shiftKey: false,
+    altKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    ...modifiers
+});
+
+describe('getShortcutAction', () => {
+    it('picks the direction with the arrow keys', () => {
+        expect(getShortcutAction(press('ArrowUp'), 'other')).toEqual({ type: 'direction', direction: 'up' });
+        expect(getShortcutAction(press('ArrowLeft'), 'other')).toEqual({ type: 'direction', direction: 'left' });
+    });
+
+    it('nudges the start with Shift, ten pixels with Alt as well', () => {
+        expect(getShortcutAction(press('ArrowRight', { shiftKey: true }), 'other')).toEqual({ type: 'nudgeStart', delta: 1 });
+        expect(getShortcutAction(press('ArrowUp', { shiftKey: true }), 'other')).toEqual({ type: 'nudgeStart', delta: -1 });
+        expect(getShortcutAction(press('ArrowDown', { shiftKey: true, altKey: true }), 'other')).toEqual({ type: 'nudgeStart', delta: 10 });
+    });
+
+    it('maps the letter and symbol keys', () => {
+        expect(getShortcutAction(press('+'), 'other')).toEqual({ type: 'rate', delta: 1 });
+        expect(getShortcutAction(press('='), 'other')).toEqual({ type: 'rate', delta: 1 });
+        expect(getShortcutAction(press('-'), 'other')).toEqual({ type: 'rate', delta: -1 });
+        expect(getShortcutAction(press('S', { shiftKey: true }), 'other')).toEqual({ type: 'save' });
+        expect(getShortcutAction(press('o'), 'other')).toEqual({ type: 'open' });
+        expect(getShortcutAction(press('r'), 'other')).toEqual({ type: 'random' });
+        expect(getShortcutAction(press('?', { shiftKey: true }), 'other')).toEqual({ type: 'help' });
+        expect(getShortcutAction(press(']'), 'other')).toEqual({ type: 'zoom', zoom: 'in' });
+        expect(getShortcutAction(press('0'), 'other')).toEqual({ type: 'zoom', zoom: 'fit' });
+        expect(getShortcutAction(press('1'), 'other')).toEqual({ type: 'zoom', zoom: 'actual' });
+    });
+
+    it('keeps undo and redo on Ctrl and Cmd', () => {
+        expect(getShortcutAction(press('z', { ctrlKey: true }), 'control')).toEqual({ type: 'undo' });
+        expect(getShortcutAction(press('Z', { ctrlKey: true, shiftKey: true }), 'other')).toEqual({ type: 'redo' });
+        expect(getShortcutAction(press('y', { metaKey: true }), 'other')).toEqual({ type: 'redo' });
+        expect(getShortcutAction(press('s', { ctrlKey: true }), 'other')).toBeNull();
+    });
+
+    it('leaves keys to text fields, and arrows to other controls', () => {
+        expect(getShortcutAction(press('s'), 'text')).toBeNull();
+        expect(getShortcutAction(press('z', { ctrlKey: true }), 'text')).toBeNull();
+        expect(getShortcutAction(press('ArrowLeft'), 'control')).toBeNull();
+        expect(getShortcutAction(press('s'), 'control')).toEqual({ type: 'save' });
+    });
+});
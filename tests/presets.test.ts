@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BUILT_IN_PRESETS,
+    createPreset,
+    getPresetSettings,
+    mergePresets,
+    parsePresets,
+    PRESET_FILE_FORMAT,
+    PresetError,
+    serializePresets
+} from '../src/utils/presets';
+import { DEFAULT_STRETCH_SETTINGS } from '../src/utils/stretchSettings';
+
+function presetFile(presets: unknown[]): string {
+    return JSON.stringify({ format: PRESET_FILE_FORMAT, version: 1, presets });
+}
+
+describe('preset files', () => {
+    it('round-trips presets through JSON', () => {
+        const preset = createPreset('Sideways', {
+            ...DEFAULT_STRETCH_SETTINGS,
+            direction: 'left',
+            startingPixel: 25,
+            angle: 30,
+            profile: { type: 'linear', startGap: 1, endGap: 20, length: 40 },
+            outputSize: { mode: 'length', length: 800 }
+        }, 101, 60);
+        const presets = [...BUILT_IN_PRESETS, preset];
+
+        expect(parsePresets(serializePresets(presets))).toEqual(presets);
+    });
+
+    it('rejects files that are not preset libraries', () => {
+        expect(() => parsePresets('{')).toThrow(PresetError);
+        expect(() => parsePresets(JSON.stringify({ presets: [] }))).toThrow('not an Image Stretcher preset library');
+    });
+
+    it('names the field that failed validation', () => {
+        const valid = JSON.parse(serializePresets([BUILT_IN_PRESETS[0]])).presets[0];
+        expect(() => parsePresets(presetFile([valid, { ...valid, name: 'Other', stretchRate: 20 }])))
+            .toThrow('presets[1].stretchRate must be an integer from 1 to 13');
+        expect(() => parsePresets(presetFile([{ ...valid, profile: 'spiral' }]))).toThrow('presets[0].profile is invalid');
+        expect(() => parsePresets(presetFile([valid, { ...valid, name: ' waterfall ' }]))).toThrow('appears more than once');
+    });
+});
+
+describe('presets', () => {
+    it('scale the start to the image they are applied to', () => {
+        const preset = createPreset('Half', { ...DEFAULT_STRETCH_SETTINGS, direction: 'right', startingPixel: 50 }, 101, 10);
+        expect(getPresetSettings(preset, 201, 10).startingPixel).toBe(100);
+    });
+
+    it('refuse names taken by built-in presets', () => {
+        expect(() => createPreset('melt', DEFAULT_STRETCH_SETTINGS, 10, 10)).toThrow(PresetError);
+    });
+
+    it('replace saved presets with the same name when merged', () => {
+        const first = createPreset('Mine', DEFAULT_STRETCH_SETTINGS, 10, 10);
+        const second = createPreset('MINE', { ...DEFAULT_STRETCH_SETTINGS, stretchRate: 3 }, 10, 10);
+        expect(mergePresets([first], [second])).toEqual([second]);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createIndexList } from '../src/utils/imageStretching';
+import { getPreviewScale, MAX_PREVIEW_SCALE, scaleIndexList, toPreviewSettings } from '../src/utils/previewProxy';
+import { DEFAULT_STRETCH_SETTINGS } from '../src/utils/stretchSettings';
+
+// Rows a gap list produces, as in buildNewImage
+const streakLength = (gaps: number[]) => gaps.reduce((sum, gap) => sum + gap + 1, 0);
+
+describe('getPreviewScale', () => {
+    it('fits the image into the display area', () => {
+        expect(getPreviewScale(4000, 2000, 1000, 1000)).toBe(0.25);
+        expect(getPreviewScale(2000, 4000, 1000, 1000)).toBe(0.25);
+    });
+
+    it('renders images close to the display size at full resolution', () => {
+        expect(getPreviewScale(1000, 1000, 1000 * MAX_PREVIEW_SCALE + 1, 2000)).toBe(1);
+        expect(getPreviewScale(500, 500, 1000, 1000)).toBe(1);
+    });
+});
+
+describe('scaleIndexList', () => {
+    it('keeps the length of the streak at the proxy scale', () => {
+        for (const rate of [1, 7, 13]) {
+            const indexList = createIndexList(rate);
+            for (const scale of [0.5, 0.25, 0.1]) {
+                const scaled = scaleIndexList(indexList, scale);
+                expect(scaled.length, `rate ${rate} at ${scale}`).toBe(Math.ceil(indexList.length * scale));
+                expect(Math.abs(streakLength(scaled) - streakLength(indexList) * scale), `rate ${rate} at ${scale}`).toBeLessThanOrEqual(1);
+                expect(scaled.every(gap => Number.isInteger(gap) && gap >= 0)).toBe(true);
+            }
+        }
+    });
+
+    it('merges source rows into each proxy row', () => {
+        expect(scaleIndexList([1, 1, 1, 1], 0.5)).toEqual([1, 1]);
+        expect(scaleIndexList([0, 0, 0, 0], 0.5)).toEqual([0, 0]);
+        expect(scaleIndexList([3, 5], 0.5)).toEqual([4]);
+    });
+
+    it('leaves the list alone at full scale', () => {
+        const indexList = [1, 2, 3];
+        expect(scaleIndexList(indexList, 1)).toBe(indexList);
+    });
+});
+
+describe('toPreviewSettings', () => {
+    it('scales the start and fixed length and resamples the profile', () => {
+        const settings = { ...DEFAULT_STRETCH_SETTINGS, startingPixel: 301, outputSize: { mode: 'length', length: 2000 } as const };
+        const preview = toPreviewSettings(settings, 0.5);
+        expect(preview.startingPixel).toBe(151);
+        expect(preview.outputSize).toEqual({ mode: 'length', length: 1000 });
+        expect(preview.profile).toEqual({ type: 'custom', gaps: scaleIndexList(createIndexList(13), 0.5) });
+    });
+
+    it('leaves invalid profiles for the render to report', () => {
+        const settings = { ...DEFAULT_STRETCH_SETTINGS, stretchRate: 20 };
+        expect(toPreviewSettings(settings, 0.5)).toBe(settings);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, NO_RANDOM_LOCKS, parseSeed, randomizeSettings } from '../src/utils/randomize';
+import { DEFAULT_STRETCH_SETTINGS, MAX_STRETCH_RATE, MIN_STRETCH_RATE, toRelativeStart } from '../src/utils/stretchSettings';
+
+describe('createRandom', () => {
+    it('repeats the same sequence for the same seed', () => {
+        const first = createRandom(42);
+        const second = createRandom(42);
+        const values = Array.from({ length: 5 }, () => first());
+        expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+        expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+        expect(createRandom(43)()).not.toBe(values[0]);
+    });
+});
+
+describe('parseSeed', () => {
+    it('accepts unsigned 32-bit integers only', () => {
+        expect(parseSeed(' 123 ')).toBe(123);
+        expect(parseSeed('4294967295')).toBe(4294967295);
+        expect(parseSeed('4294967296')).toBeNull();
+        expect(parseSeed('-1')).toBeNull();
+        expect(parseSeed('1.5')).toBeNull();
+        expect(parseSeed('')).toBeNull();
+    });
+});
+
+describe('randomizeSettings', () => {
+    const settings = { ...DEFAULT_STRETCH_SETTINGS, direction: 'down' as const, startingPixel: 30, stretchRate: 7 };
+
+    it('reproduces a roll from its seed within the valid ranges', () => {
+        const roll = randomizeSettings(settings, 1234, NO_RANDOM_LOCKS, 200, 100);
+        expect(randomizeSettings(settings, 1234, NO_RANDOM_LOCKS, 200, 100)).toEqual(roll);
+        expect(roll.angle).toBeNull();
+        expect(roll.stretchRate).toBeGreaterThanOrEqual(MIN_STRETCH_RATE);
+        expect(roll.stretchRate).toBeLessThanOrEqual(MAX_STRETCH_RATE);
+        const axisLength = roll.direction === 'left' || roll.direction === 'right' ? 200 : 100;
+        expect(roll.startingPixel).toBeGreaterThanOrEqual(0);
+        expect(roll.startingPixel).toBeLessThan(axisLength);
+    });
+
+    it('keeps locked parameters without changing the unlocked ones', () => {
+        const free = randomizeSettings(settings, 99, NO_RANDOM_LOCKS, 200, 100);
+        const locked = randomizeSettings(settings, 99, { direction: true, stretchRate: true, start: false }, 200, 100);
+
+        expect(locked.direction).toBe('down');
+        expect(locked.stretchRate).toBe(7);
+        const freeStart = toRelativeStart({ ...settings, ...free } as typeof settings, 200, 100);
+        expect(toRelativeStart({ ...settings, ...locked } as typeof settings, 200, 100)).toBeCloseTo(freeStart, 1);
+    });
+
+    it('keeps a locked start at the same relative position', () => {
+        const roll = randomizeSettings(settings, 7, { direction: false, stretchRate: false, start: true }, 201, 61);
+        expect(toRelativeStart({ ...settings, ...roll } as typeof settings, 201, 61)).toBeCloseTo(0.5, 1);
+    });
+});
@@ -0,0 +1,172 @@
+"""
+A second, deliberately simple implementation of the stretch in plain Python. It works on
+physically rotated copies of the image instead of the strided views in
+src/utils/imageStretching.ts, so its golden images catch addressing mistakes in the port.
+
+It is NOT the original Python tool, which isn't part of this repository. It was written after
+the port and follows the port's behaviour as of this series, including two choices the
+original may not share: a stretch ends on the source row its last gradient leads to, and
+gradient values are rounded half up. Matching it says the port is self-consistent, not that
+it matches the original tool.
+
+Only the original settings are covered: the Fibonacci table, linear interpolation of opaque
+images, the four directions, and the original or full output size.
+
+Regenerate the goldens in tests/golden/python with:
+
+    python3 tests/reference/stretch.py
+"""
+
+import math
+import os
+import struct
+import zlib
+
+GOLDEN_DIR = os.path.join(os.path.dirname(os.path.abspath(__file__)), '..', 'golden', 'python')
+
+# Test card shared with tests/imageStretching.test.ts (createTestImage)
+WIDTH = 56
+HEIGHT = 60
+
+# (direction, stretch rate, start row or column as seen on screen, output size)
+CASES = [
+    ('down', 13, 8, 'original'),
+    ('down', 10, 8, 'original'),
+    ('down', 1, 8, 'original'),
+    ('up', 13, 51, 'original'),
+    ('up', 10, 51, 'original'),
+    ('up', 1, 51, 'original'),
+    ('right', 13, 8, 'original'),
+    ('right', 10, 8, 'original'),
+    ('right', 1, 8, 'original'),
+    ('left', 13, 47, 'original'),
+    ('left', 10, 47, 'original'),
+    ('left', 1, 47, 'original'),
+    ('down', 13, 3, 'full'),
+    ('up', 13, 56, 'full'),
+    ('right', 13, 3, 'full'),
+    ('left', 13, 52, 'full'),
+]
+
+
+def create_test_image(width, height):
+    """Rows of (r, g, b, a) pixels"""
+    return [
+        [((x * 37 + y * 11) % 256, (x * 5 + y * 29) % 256, (x * y * 7 + 13) % 256, 255) for x in range(width)]
+        for y in range(height)
+    ]
+
+
+def create_index_list(stretch_rate=13):
+    inverse_value_dict = {
+        13: 1, 12: 1.25, 11: 1.5, 10: 1.75, 9: 2, 8: 2.25, 7: 2.5, 6: 2.75,
+        5: 3, 4: 3.25, 3: 3.5, 2: 3.75, 1: 4
+    }
+    pairs = [
+        (1, 13), (2, 8), (3, 5), (5, 3), (8, 2), (13, 1), (21, 1), (34, 1),
+        (55, 1), (89, 1), (144, 1), (233, 1), (377, 1), (610, 1), (987, 1)
+    ]
+    index_list = []
+    for value, count in pairs:
+        index_list += [value] * math.floor(count * inverse_value_dict[stretch_rate])
+    return index_list
+
+
+def round_half_up(value):
+    return math.floor(value + 0.5)
+
+
+def create_gradient(two_rows, gradient_size):
+    """Both rows with gradient_size linearly blended rows between them"""
+    start, end = two_rows
+    gradient = [start]
+    for gradient_row in range(1, gradient_size + 1):
+        gradient.append([
+            tuple(round_half_up(a + (b - a) / (gradient_size + 1) * gradient_row) for a, b in zip(first, last))
+            for first, last in zip(start, end)
+        ])
+    gradient.append(end)
+    return gradient
+
+
+def build_new_image(index_list, image, starting_pixel):
+    """Stretch downward: rows before the start are kept, then each source row is followed
+    by its gap of blended rows, ending on the row the last gradient leads up to"""
+    new_image = image[:starting_pixel]
+    rows = max(0, min(len(index_list), len(image) - starting_pixel - 1))
+    for i in range(rows):
+        row = starting_pixel + i
+        new_image += create_gradient([image[row], image[row + 1]], index_list[i])[:-1]
+    if starting_pixel < len(image):
+        new_image.append(image[starting_pixel + rows])
+    return new_image
+
+
+def rotate_clockwise(image):
+    return [list(row) for row in zip(*image[::-1])]
+
+
+def rotate_counterclockwise(image):
+    return [list(row) for row in zip(*image)][::-1]
+
+
+def crop_to_length(image, length):
+    """Keep the first `length` rows, repeating the last row when the stretch is shorter"""
+    return image[:length] + [image[-1]] * max(0, length - len(image))
+
+
+def stretch(image, stretch_rate, position, direction, output_size):
+    height = len(image)
+    width = len(image[0])
+
+    # Rotate so the stretch runs downward, with the start as a row of the rotated image
+    if direction == 'down':
+        working, start = image, position
+    elif direction == 'up':
+        working, start = rotate_clockwise(rotate_clockwise(image)), height - 1 - position
+    elif direction == 'right':
+        working, start = rotate_clockwise(image), position
+    else:
+        working, start = rotate_counterclockwise(image), width - 1 - position
+
+    stretched = build_new_image(create_index_list(stretch_rate), working, start)
+    if output_size == 'original':
+        stretched = crop_to_length(stretched, width if direction in ('left', 'right') else height)
+
+    if direction == 'up':
+        return rotate_clockwise(rotate_clockwise(stretched))
+    if direction == 'right':
+        return rotate_counterclockwise(stretched)
+    if direction == 'left':
+        return rotate_clockwise(stretched)
+    return stretched
+
+
+def encode_png(image):
+    height = len(image)
+    width = len(image[0])
+    raw = b''.join(b'\x00' + bytes(channel for pixel in row for channel in pixel) for row in image)
+
+    def chunk(chunk_type, data):
+        return struct.pack('>I', len(data)) + chunk_type + data + struct.pack('>I', zlib.crc32(chunk_type + data))
+
+    return (
+        b'\x89PNG\r\n\x1a\n'
+        + chunk(b'IHDR', struct.pack('>IIBBBBB', width, height, 8, 6, 0, 0, 0))
+        + chunk(b'IDAT', zlib.compress(raw, 9))
+        + chunk(b'IEND', b'')
+    )
+
+
+def main():
+    os.makedirs(GOLDEN_DIR, exist_ok=True)
+    image = create_test_image(WIDTH, HEIGHT)
+    for direction, stretch_rate, position, output_size in CASES:
+        name = f'{direction}-{output_size}-rate{stretch_rate}.png'
+        with open(os.path.join(GOLDEN_DIR, name), 'wb') as file:
+            file.write(encode_png(stretch(image, stretch_rate, position, direction, output_size)))
+        print('Wrote', name)
+
+
+if __name__ == '__main__':
+    main()
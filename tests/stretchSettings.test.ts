@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getAngleAxisLength } from '../src/utils/imageStretching';
+import { getAngleModeStart, getImageOffset, getStartFromPoint, getStartLine } from '../src/utils/stretchSettings';
+
+describe('getStartFromPoint', () => {
+    it('uses the on-screen column or row for cardinal directions', () => {
+        expect(getStartFromPoint({ direction: 'right', angle: null }, 12.4, 3, 40, 30)).toBe(12);
+        expect(getStartFromPoint({ direction: 'left', angle: null }, 12.6, 3, 40, 30)).toBe(13);
+        expect(getStartFromPoint({ direction: 'down', angle: null }, 12, 3, 40, 30)).toBe(3);
+        expect(getStartFromPoint({ direction: 'up', angle: null }, 12, 28.9, 40, 30)).toBe(29);
+    });
+
+    it('clamps points outside the image to its edges', () => {
+        expect(getStartFromPoint({ direction: 'right', angle: null }, -5, 0, 40, 30)).toBe(0);
+        expect(getStartFromPoint({ direction: 'down', angle: null }, 0, 100, 40, 30)).toBe(29);
+    });
+
+    it('measures the distance along the stretch in angle mode', () => {
+        const width = 40;
+        const height = 30;
+        // The corner the stretch starts from is distance 0, the opposite one the end of the axis
+        expect(getStartFromPoint({ direction: 'right', angle: 45 }, 0, 0, width, height)).toBe(0);
+        expect(getStartFromPoint({ direction: 'right', angle: 45 }, width - 1, height - 1, width, height)).toBe(getAngleAxisLength(45, width, height) - 1);
+        expect(getStartFromPoint({ direction: 'right', angle: 225 }, width - 1, height - 1, width, height)).toBe(0);
+    });
+
+    it('matches the angle-mode start of a cardinal direction', () => {
+        for (const direction of ['up', 'down', 'left', 'right'] as const) {
+            const angle = { right: 0, down: 90, left: 180, up: 270 }[direction];
+            const horizontal = direction === 'left' || direction === 'right';
+            const x = horizontal ? 9 : 0;
+            const y = horizontal ? 0 : 9;
+            expect(getStartFromPoint({ direction, angle }, x, y, 40, 30), direction)
+                .toBe(getAngleModeStart({ direction, startingPixel: 9 }, 40, 30));
+        }
+    });
+});
+
+describe('getStartLine', () => {
+    it('passes back through the point it was set from', () => {
+        for (const angle of [null, 0, 30, 90, 135, 200, 315]) {
+            for (const direction of ['up', 'down', 'left', 'right'] as const) {
+                const settings = { direction, angle };
+                const startingPixel = getStartFromPoint(settings, 17, 11, 40, 30);
+                const line = getStartLine({ ...settings, startingPixel }, 40, 30);
+                // The point is within half a pixel of the line, measured along the stretch
+                const distance = (17 - line.x) * line.dx + (11 - line.y) * line.dy;
+                expect(Math.abs(distance), `${direction} ${angle}`).toBeLessThanOrEqual(0.5 + 1e-9);
+            }
+        }
+    });
+
+    it('points the way the stretch flows', () => {
+        expect(getStartLine({ startingPixel: 5, direction: 'left', angle: null }, 40, 30)).toMatchObject({ x: 5, dx: -1, dy: 0 });
+        expect(getStartLine({ startingPixel: 5, direction: 'down', angle: null }, 40, 30)).toMatchObject({ y: 5, dx: 0, dy: 1 });
+    });
+});
+
+describe('getImageOffset', () => {
+    it('aligns the image to the far edge of up and left results', () => {
+        expect(getImageOffset({ direction: 'up', angle: null }, 40, 30, 40, 75)).toEqual({ x: 0, y: 45 });
+        expect(getImageOffset({ direction: 'left', angle: null }, 40, 30, 100, 30)).toEqual({ x: 60, y: 0 });
+        expect(getImageOffset({ direction: 'down', angle: null }, 40, 30, 40, 75)).toEqual({ x: 0, y: 0 });
+        expect(getImageOffset({ direction: 'left', angle: 180 }, 40, 30, 40, 30)).toEqual({ x: 0, y: 0 });
+    });
+});
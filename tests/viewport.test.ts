@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { clampView, FIT_VIEW, getActualSizeZoom, getMaxZoom, getViewRect, MAX_PIXEL_SIZE, panView, zoomViewAt } from '../src/utils/viewport';
+
+describe('getViewRect', () => {
+    it('shows the whole result when fitted', () => {
+        expect(getViewRect(FIT_VIEW, 600, 400)).toEqual({ x: 0, y: 0, width: 600, height: 400 });
+    });
+
+    it('keeps the visible area inside the result', () => {
+        expect(getViewRect({ zoom: 4, centerX: 0, centerY: 1 }, 600, 400)).toEqual({ x: 0, y: 300, width: 150, height: 100 });
+    });
+});
+
+describe('zoomViewAt', () => {
+    it('keeps the anchored point under the pointer', () => {
+        const anchorX = 0.2;
+        const anchorY = 0.7;
+        const before = { zoom: 2, centerX: 0.4, centerY: 0.6 };
+        const after = zoomViewAt(before, 5, anchorX, anchorY, 100);
+
+        const pointAt = (view: typeof before) => {
+            const rect = getViewRect(view, 1000, 800);
+            return { x: rect.x + anchorX * rect.width, y: rect.y + anchorY * rect.height };
+        };
+        expect(after.zoom).toBe(5);
+        expect(pointAt(after).x).toBeCloseTo(pointAt(before).x);
+        expect(pointAt(after).y).toBeCloseTo(pointAt(before).y);
+    });
+
+    it('stays between fitting the result and the largest pixel size', () => {
+        expect(zoomViewAt(FIT_VIEW, 0.5, 0.5, 0.5, 8).zoom).toBe(1);
+        expect(zoomViewAt(FIT_VIEW, 50, 0.5, 0.5, 8).zoom).toBe(8);
+    });
+});
+
+describe('panView', () => {
+    it('moves the view against the drag and stops at the edges', () => {
+        const view = { zoom: 4, centerX: 0.5, centerY: 0.5 };
+        expect(panView(view, 0.5, 0, 10).centerX).toBeCloseTo(0.5 - 0.5 / 4);
+        expect(panView(view, -10, 0, 10)).toEqual(clampView({ ...view, centerX: 1 }, 10));
+    });
+});
+
+describe('zoom limits', () => {
+    it('measures 1:1 and the maximum against the fitted display width', () => {
+        expect(getActualSizeZoom(6000, 1000)).toBe(6);
+        expect(getMaxZoom(6000, 1000)).toBe(6 * MAX_PIXEL_SIZE);
+        // Small images already show at 1:1 or larger when fitted
+        expect(getActualSizeZoom(200, 1000)).toBe(1);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 } from '../src/utils/crc32';
+import { createZip } from '../src/utils/zipWriter';
+
+// Read the entries back through the central directory, as an unzip tool would
+function readZip(bytes: Uint8Array): { name: string; data: Uint8Array; crc: number }[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const entries = [];
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(offset, true)).toBe(0x02014b50);
+        const crc = view.getUint32(offset + 16, true);
+        const size = view.getUint32(offset + 24, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        const local = view.getUint32(offset + 42, true);
+
+        expect(view.getUint32(local, true)).toBe(0x04034b50);
+        const dataStart = local + 30 + view.getUint16(local + 26, true);
+        entries.push({ name, data: bytes.subarray(dataStart, dataStart + size), crc });
+        offset += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe('createZip', () => {
+    it('stores each file under its name with a matching checksum', () => {
+        const first = new Uint8Array([1, 2, 3, 4]);
+        const second = new TextEncoder().encode('stretched');
+        const entries = readZip(createZip([
+            { name: 'a.png', data: first },
+            { name: 'bild_ä.png', data: second }
+        ]));
+
+        expect(entries.map(entry => entry.name)).toEqual(['a.png', 'bild_ä.png']);
+        expect(entries[0].data).toEqual(first);
+        expect(entries[1].data).toEqual(second);
+        expect(entries[1].crc).toBe(crc32(second));
+    });
+
+    it('writes an empty archive', () => {
+        expect(readZip(createZip([]))).toEqual([]);
+    });
+});